@@ -0,0 +1,299 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const request = (await import('supertest')).default;
+const { app } = await import('../../src/app.js');
+const { createGuestToken } = await import('../../src/auth/tokens.js');
+const { supabase, getMeetingByCode, insertCallStats, hasAttendedMeeting } =
+  await import('../../src/supabase_api/supabase_api.js');
+
+const sample = (overrides: Record<string, unknown> = {}) => ({
+  peerId: 'peer-1',
+  sampledAt: '2026-01-01T10:00:00.000Z',
+  rttMs: 42,
+  packetLossPct: 0.5,
+  jitterMs: 3,
+  inboundKbps: 900,
+  outboundKbps: 1100,
+  frameRate: 30,
+  candidateType: 'direct',
+  quality: 'good',
+  ...overrides,
+});
+
+describe('POST /api/call-stats', () => {
+  const validAuthToken = 'Bearer valid-token-123';
+  const mockUserId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (supabase.auth.getUser as any).mockResolvedValue({
+      data: { user: { id: mockUserId } },
+      error: null,
+    });
+    (getMeetingByCode as any).mockResolvedValue({
+      data: { id: 7, owner_id: 'owner-1', meeting_code: 'ABC123' },
+      error: null,
+    });
+    (hasAttendedMeeting as any).mockResolvedValue({ data: true, error: null });
+    (insertCallStats as any).mockResolvedValue(undefined);
+  });
+
+  describe('Authentication Tests', () => {
+    /**
+     * Verifies that the endpoint returns 401 for an invalid token
+     */
+    test('should return 401 when token is invalid', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+
+      const response = await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', 'Bearer not-a-real-token')
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(401);
+
+      expect(response.body.error).toBe('Unauthorized');
+      expect(insertCallStats).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that guests can report stats for their own meeting
+     */
+    test('should accept a guest token for the same meeting', async () => {
+      const { token } = createGuestToken('ABC123', 'Guest');
+
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(201);
+
+      expect(supabase.auth.getUser).not.toHaveBeenCalled();
+      expect(insertCallStats).toHaveBeenCalledWith(7, null, [sample()]);
+    });
+
+    /**
+     * Verifies that a guest token cannot be used for another meeting
+     */
+    test('should return 403 for a guest token from another meeting', async () => {
+      const { token } = createGuestToken('OTHER1', 'Guest');
+
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(403);
+
+      expect(insertCallStats).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation Tests', () => {
+    /**
+     * Verifies that a meeting code is required
+     */
+    test('should return 400 when meeting_code is missing', async () => {
+      const response = await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ samples: [sample()] })
+        .expect(400);
+
+      expect(response.body.error).toBe('meeting_code must be a non-empty string');
+    });
+
+    /**
+     * Verifies that empty and oversized batches are rejected
+     */
+    test('should return 400 for an empty or oversized batch', async () => {
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'ABC123', samples: [] })
+        .expect(400);
+
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({
+          meeting_code: 'ABC123',
+          samples: Array.from({ length: 51 }, () => sample()),
+        })
+        .expect(400);
+
+      expect(insertCallStats).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that malformed samples are rejected
+     */
+    test.each([
+      ['a negative rtt', { rttMs: -1 }],
+      ['an unknown candidate type', { candidateType: 'satellite' }],
+      ['an unknown quality level', { quality: 'great' }],
+      ['an invalid timestamp', { sampledAt: 'yesterday' }],
+      ['a missing peer id', { peerId: '' }],
+    ])('should return 400 for %s', async (_label, overrides) => {
+      const response = await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'ABC123', samples: [sample(overrides)] })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid call stats sample');
+    });
+
+    /**
+     * Verifies that metrics the browser could not measure may be null
+     */
+    test('should accept samples with missing metrics', async () => {
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({
+          meeting_code: 'ABC123',
+          samples: [sample({ rttMs: null, frameRate: null, candidateType: null })],
+        })
+        .expect(201);
+    });
+  });
+
+  describe('Storage Tests', () => {
+    /**
+     * Verifies that samples are stored against the meeting and user
+     */
+    test('should store samples for the meeting', async () => {
+      const response = await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'ABC123', samples: [sample(), sample()] })
+        .expect(201);
+
+      expect(response.body).toEqual({
+        message: 'Call stats recorded successfully',
+        count: 2,
+      });
+      expect(insertCallStats).toHaveBeenCalledWith(7, mockUserId, [
+        sample(),
+        sample(),
+      ]);
+    });
+
+    /**
+     * Verifies that an unknown meeting returns 404
+     */
+    test('should return 404 when the meeting does not exist', async () => {
+      (getMeetingByCode as any).mockResolvedValue({ data: null, error: null });
+
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'NOPE00', samples: [sample()] })
+        .expect(404);
+
+      expect(insertCallStats).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that storage errors are returned as 400
+     */
+    test('should return 400 when storing fails', async () => {
+      (insertCallStats as any).mockResolvedValue('insert failed');
+
+      const response = await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(400);
+
+      expect(response.body.error).toBe('insert failed');
+    });
+  });
+
+  describe('Access Tests', () => {
+    /**
+     * Verifies that a signed-in user who was never in the meeting cannot add stats to it
+     */
+    test('should return 403 for a user who did not take part', async () => {
+      (hasAttendedMeeting as any).mockResolvedValue({ data: false, error: null });
+
+      const response = await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(403);
+
+      expect(response.body.error).toBe('You did not take part in this meeting');
+      expect(hasAttendedMeeting).toHaveBeenCalledWith(7, mockUserId);
+      expect(insertCallStats).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that the host is not looked up in the attendance records
+     */
+    test('should accept stats from the host', async () => {
+      (getMeetingByCode as any).mockResolvedValue({
+        data: { id: 7, owner_id: mockUserId, meeting_code: 'ABC123' },
+        error: null,
+      });
+
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(201);
+
+      expect(hasAttendedMeeting).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that guests are held to their token's meeting rather than attendance
+     */
+    test('should not check attendance for guests', async () => {
+      const { token } = createGuestToken('ABC123', 'Guest');
+
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(201);
+
+      expect(hasAttendedMeeting).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that a failed attendance lookup is a server error, not a denial
+     */
+    test('should return 500 when attendance cannot be checked', async () => {
+      (hasAttendedMeeting as any).mockResolvedValue({
+        data: false,
+        error: { message: 'connection reset' },
+      });
+
+      await request(app)
+        .post('/api/call-stats')
+        .set('Authorization', validAuthToken)
+        .send({ meeting_code: 'ABC123', samples: [sample()] })
+        .expect(500);
+
+      expect(insertCallStats).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const request = (await import('supertest')).default;
+const { app } = await import('../../src/app.js');
+const { verifyGuestToken, createGuestToken, assertGuestTokenSecret } =
+  await import('../../src/auth/tokens.js');
+const { getMeetingByCode } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+describe('POST /api/guest-token', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (getMeetingByCode as any).mockResolvedValue({
+      data: {
+        id: 1,
+        owner_id: 'owner-1',
+        meeting_code: 'ABC123',
+        meeting_time: '2025-12-01T10:00:00Z',
+        meeting_title: 'Team Meeting',
+      },
+      error: null,
+    });
+  });
+
+  describe('Validation Tests', () => {
+    /**
+     * Verifies that the endpoint returns 400 when all required fields are missing
+     */
+    test('should return 400 when missing all fields', async () => {
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({})
+        .expect(400);
+
+      expect(response.body.error).toBe(
+        'Missing required fields: meeting_code, display_name'
+      );
+    });
+
+    /**
+     * Verifies that the endpoint returns 400 when display_name is missing
+     */
+    test('should return 400 when display_name is missing', async () => {
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 'ABC123' })
+        .expect(400);
+
+      expect(response.body.error).toBe(
+        'Missing required fields: meeting_code, display_name'
+      );
+    });
+
+    /**
+     * Verifies that the endpoint returns 400 when fields are not strings
+     */
+    test('should return 400 when fields are not strings', async () => {
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 123, display_name: 'Guest' })
+        .expect(400);
+
+      expect(response.body.error).toBe('All fields must be strings');
+    });
+
+    /**
+     * Verifies that the endpoint returns 400 when fields are whitespace only
+     */
+    test('should return 400 when fields are empty strings', async () => {
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: '   ', display_name: 'Guest' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Fields cannot be empty strings');
+    });
+
+    /**
+     * Verifies that guest names are held to the same length cap as signed-in users
+     */
+    test('should return 400 when display_name is too long', async () => {
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 'ABC123', display_name: 'G'.repeat(61) })
+        .expect(400);
+
+      expect(response.body.error).toBe('display_name must be at most 60 characters');
+      expect(getMeetingByCode).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that the cap applies after trimming
+     */
+    test('should accept a name at the cap once trimmed', async () => {
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 'ABC123', display_name: `  ${'G'.repeat(60)}  ` })
+        .expect(201);
+
+      expect(verifyGuestToken(response.body.token)?.name).toBe('G'.repeat(60));
+    });
+  });
+
+  describe('Meeting Lookup Tests', () => {
+    /**
+     * Verifies that the endpoint returns 404 for an unknown meeting code
+     */
+    test('should return 404 when the meeting does not exist', async () => {
+      (getMeetingByCode as any).mockResolvedValue({ data: null, error: null });
+
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 'NOPE', display_name: 'Guest' })
+        .expect(404);
+
+      expect(response.body.error).toBe('Meeting not found');
+      expect(response.body.token).toBeUndefined();
+    });
+
+    /**
+     * Verifies that the endpoint returns 400 when the lookup fails
+     */
+    test('should return 400 when the lookup returns an error', async () => {
+      (getMeetingByCode as any).mockResolvedValue({
+        data: null,
+        error: { message: 'Database error' },
+      });
+
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 'ABC123', display_name: 'Guest' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Database error');
+    });
+
+    /**
+     * Verifies that the meeting code is trimmed before lookup
+     */
+    test('should look up the trimmed meeting code', async () => {
+      await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: '  ABC123  ', display_name: 'Guest' })
+        .expect(201);
+
+      expect(getMeetingByCode).toHaveBeenCalledWith('ABC123');
+    });
+  });
+
+  describe('Success Cases', () => {
+    /**
+     * Verifies that the endpoint returns a token scoped to the requested meeting
+     */
+    test('should return 201 with a meeting-scoped guest token', async () => {
+      const response = await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 'ABC123', display_name: '  Guest Person  ' })
+        .expect(201);
+
+      expect(response.body.message).toBe('Guest token created successfully');
+      expect(typeof response.body.token).toBe('string');
+      expect(new Date(response.body.expires_at).getTime()).toBeGreaterThan(
+        Date.now()
+      );
+
+      const claims = verifyGuestToken(response.body.token);
+      expect(claims).toMatchObject({
+        scope: 'guest',
+        meetingId: 'ABC123',
+        name: 'Guest Person',
+      });
+    });
+
+    /**
+     * Verifies that the endpoint does not require an authorization header
+     */
+    test('should not call Supabase auth', async () => {
+      const { supabase } = await import(
+        '../../src/supabase_api/supabase_api.js'
+      );
+
+      await request(app)
+        .post('/api/guest-token')
+        .send({ meeting_code: 'ABC123', display_name: 'Guest' })
+        .expect(201);
+
+      expect(supabase.auth.getUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Signing Secret', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    /**
+     * Verifies that ENCRYPTION_KEY is never used in place of GUEST_TOKEN_SECRET
+     */
+    test('should not fall back to ENCRYPTION_KEY', () => {
+      delete process.env.GUEST_TOKEN_SECRET;
+
+      expect(() => createGuestToken('ABC123', 'Guest')).toThrow(
+        'GUEST_TOKEN_SECRET not set in environment variables'
+      );
+      expect(() => assertGuestTokenSecret()).toThrow(
+        'GUEST_TOKEN_SECRET not set in environment variables'
+      );
+    });
+
+    /**
+     * Verifies that tokens signed with another secret are rejected
+     */
+    test('should reject tokens signed with a different secret', () => {
+      const { token } = createGuestToken('ABC123', 'Guest');
+      process.env.GUEST_TOKEN_SECRET = 'rotated-secret';
+
+      expect(verifyGuestToken(token)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { jest } from '@jest/globals';
+import crypto from 'crypto';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const request = (await import('supertest')).default;
+const { app } = await import('../../src/app.js');
+const { createGuestToken } = await import('../../src/auth/tokens.js');
+const { createTurnCredentials } = await import('../../src/auth/iceServers.js');
+const { supabase } = await import('../../src/supabase_api/supabase_api.js');
+
+describe('GET /api/ice-config', () => {
+  const validAuthToken = 'Bearer valid-token-123';
+  const mockUserId = 'user-123';
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.STUN_URLS;
+    delete process.env.TURN_URLS;
+    delete process.env.TURN_SECRET;
+    delete process.env.TURN_CREDENTIAL_TTL_SECONDS;
+
+    (supabase.auth.getUser as any).mockResolvedValue({
+      data: { user: { id: mockUserId } },
+      error: null,
+    });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('Authentication Tests', () => {
+    /**
+     * Verifies that the endpoint returns 401 when no authorization header is provided
+     */
+    test('should return 401 when no authorization header provided', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+
+      const response = await request(app).get('/api/ice-config').expect(401);
+
+      expect(response.body.error).toBe('Unauthorized');
+    });
+
+    /**
+     * Verifies that the endpoint returns 401 for an invalid token
+     */
+    test('should return 401 when token is invalid', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+
+      const response = await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', 'Bearer not-a-real-token')
+        .expect(401);
+
+      expect(response.body.error).toBe('Unauthorized');
+    });
+
+    /**
+     * Verifies that guests can fetch ICE servers with their guest token
+     */
+    test('should accept a guest token', async () => {
+      const { token } = createGuestToken('ABC123', 'Guest');
+
+      await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(supabase.auth.getUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('STUN Configuration', () => {
+    /**
+     * Verifies that a public STUN server is returned when nothing is configured
+     */
+    test('should default to a public STUN server', async () => {
+      const response = await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', validAuthToken)
+        .expect(200);
+
+      expect(response.body.ice_servers).toEqual([
+        { urls: ['stun:stun.l.google.com:19302'] },
+      ]);
+    });
+
+    /**
+     * Verifies that STUN servers come from STUN_URLS
+     */
+    test('should return configured STUN servers', async () => {
+      process.env.STUN_URLS = 'stun:stun.internal:3478, stun:backup.internal:3478';
+
+      const response = await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', validAuthToken)
+        .expect(200);
+
+      expect(response.body.ice_servers).toEqual([
+        { urls: ['stun:stun.internal:3478', 'stun:backup.internal:3478'] },
+      ]);
+    });
+
+    /**
+     * Verifies that an empty STUN_URLS disables STUN for closed networks
+     */
+    test('should omit STUN when STUN_URLS is empty', async () => {
+      process.env.STUN_URLS = '';
+
+      const response = await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', validAuthToken)
+        .expect(200);
+
+      expect(response.body.ice_servers).toEqual([]);
+    });
+  });
+
+  describe('TURN Credentials', () => {
+    /**
+     * Verifies that TURN credentials follow the TURN REST HMAC scheme
+     */
+    test('should mint HMAC credentials for configured TURN servers', async () => {
+      process.env.TURN_URLS = 'turn:turn.internal:3478?transport=udp';
+      process.env.TURN_SECRET = 'coturn-shared-secret';
+      process.env.TURN_CREDENTIAL_TTL_SECONDS = '600';
+
+      const before = Math.floor(Date.now() / 1000);
+      const response = await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', validAuthToken)
+        .expect(200);
+
+      const turn = response.body.ice_servers[1];
+      const [expiry, user] = turn.username.split(':');
+      expect(turn.urls).toEqual(['turn:turn.internal:3478?transport=udp']);
+      expect(user).toBe(mockUserId);
+      expect(Number(expiry)).toBeGreaterThanOrEqual(before + 600);
+      expect(turn.credential).toBe(
+        crypto
+          .createHmac('sha1', 'coturn-shared-secret')
+          .update(turn.username)
+          .digest('base64')
+      );
+      expect(new Date(response.body.expires_at).getTime()).toBe(
+        Number(expiry) * 1000
+      );
+    });
+
+    /**
+     * Verifies that TURN is left out when no shared secret is configured
+     */
+    test('should not offer TURN without a secret', async () => {
+      process.env.TURN_URLS = 'turn:turn.internal:3478';
+
+      const response = await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', validAuthToken)
+        .expect(200);
+
+      expect(response.body.ice_servers).toHaveLength(1);
+      expect(response.body.ice_servers[0].username).toBeUndefined();
+    });
+
+    /**
+     * Verifies that credentials are tied to the guest's meeting for guests
+     */
+    test('should name guest credentials after their meeting', async () => {
+      process.env.TURN_URLS = 'turn:turn.internal:3478';
+      process.env.TURN_SECRET = 'coturn-shared-secret';
+      const { token } = createGuestToken('ABC123', 'Guest');
+
+      const response = await request(app)
+        .get('/api/ice-config')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.ice_servers[1].username).toMatch(/^\d+:guest-ABC123$/);
+    });
+
+    /**
+     * Verifies the credential helper against a fixed clock
+     */
+    test('should compute the expiry from the TTL', () => {
+      const now = Date.UTC(2025, 0, 1);
+      const { username, expiresAt } = createTurnCredentials('secret', 'alice', 60, now);
+
+      expect(username).toBe(`${now / 1000 + 60}:alice`);
+      expect(expiresAt).toBe(now + 60_000);
+    });
+  });
+});
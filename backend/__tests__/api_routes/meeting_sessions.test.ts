@@ -0,0 +1,154 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const request = (await import('supertest')).default;
+const { app } = await import('../../src/app.js');
+const { supabase, getMeetingSessions } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+const sessions = [
+  {
+    id: 55,
+    started_at: '2026-01-01T10:00:00.000Z',
+    ended_at: '2026-01-01T10:45:00.000Z',
+    attendance: [
+      {
+        id: 100,
+        user_id: 'user-123',
+        display_name: 'Host Person',
+        joined_at: '2026-01-01T10:00:00.000Z',
+        left_at: '2026-01-01T10:45:00.000Z',
+      },
+    ],
+  },
+];
+
+describe('GET /api/meetings/:id/sessions', () => {
+  const validAuthToken = 'Bearer valid-token-123';
+  const mockUserId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (supabase.auth.getUser as any).mockResolvedValue({
+      data: { user: { id: mockUserId } },
+      error: null,
+    });
+    (getMeetingSessions as any).mockResolvedValue({
+      data: sessions,
+      error: null,
+    });
+  });
+
+  describe('Authentication Tests', () => {
+    /**
+     * Verifies that the endpoint returns 401 for an invalid token
+     */
+    test('should return 401 when token is invalid', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+
+      const response = await request(app)
+        .get('/api/meetings/7/sessions')
+        .set('Authorization', 'Bearer invalid-token')
+        .expect(401);
+
+      expect(response.body.error).toBe('Unauthorized');
+      expect(getMeetingSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation Tests', () => {
+    /**
+     * Verifies that non-numeric meeting ids are rejected
+     */
+    test('should return 400 for an invalid meeting id', async () => {
+      const response = await request(app)
+        .get('/api/meetings/abc/sessions')
+        .set('Authorization', validAuthToken)
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid meeting ID format');
+      expect(getMeetingSessions).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that meetings the caller does not own return 404
+     */
+    test('should return 404 when the meeting is not found', async () => {
+      (getMeetingSessions as any).mockResolvedValue({ data: null, error: null });
+
+      const response = await request(app)
+        .get('/api/meetings/7/sessions')
+        .set('Authorization', validAuthToken)
+        .expect(404);
+
+      expect(response.body.error).toBe('Meeting not found');
+    });
+  });
+
+  describe('Retrieval Tests', () => {
+    /**
+     * Verifies that sessions are returned for the owner's meeting
+     */
+    test('should return the meeting sessions with attendance', async () => {
+      const response = await request(app)
+        .get('/api/meetings/7/sessions')
+        .set('Authorization', validAuthToken)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        message: 'Meeting sessions retrieved successfully',
+        sessions,
+      });
+      expect(getMeetingSessions).toHaveBeenCalledWith(7, mockUserId);
+    });
+
+    /**
+     * Verifies that a meeting that never ran returns an empty list
+     */
+    test('should return an empty list when the meeting never ran', async () => {
+      (getMeetingSessions as any).mockResolvedValue({ data: [], error: null });
+
+      const response = await request(app)
+        .get('/api/meetings/7/sessions')
+        .set('Authorization', validAuthToken)
+        .expect(200);
+
+      expect(response.body.sessions).toEqual([]);
+    });
+
+    /**
+     * Verifies that database errors are returned as 400
+     */
+    test('should return 400 when the lookup fails', async () => {
+      (getMeetingSessions as any).mockResolvedValue({
+        data: null,
+        error: { message: 'Database error' },
+      });
+
+      const response = await request(app)
+        .get('/api/meetings/7/sessions')
+        .set('Authorization', validAuthToken)
+        .expect(400);
+
+      expect(response.body.error).toBe('Database error');
+    });
+  });
+});
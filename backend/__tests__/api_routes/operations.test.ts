@@ -0,0 +1,229 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const request = (await import('supertest')).default;
+const { app } = await import('../../src/app.js');
+const { setRoomStatsSource } = await import('../../src/telemetry/metrics.js');
+const { checkDatabase, getAllMeetings, supabase } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// Scrapes /metrics the way Prometheus is configured to
+const scrape = () =>
+  request(app).get('/metrics').set('Authorization', 'Bearer scrape-secret').expect(200);
+
+describe('Operational endpoints', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv };
+    delete process.env.METRICS_TOKEN;
+    delete process.env.READINESS_TIMEOUT_MS;
+    setRoomStatsSource(null);
+
+    (checkDatabase as any).mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('GET /healthz', () => {
+    /**
+     * Verifies that the liveness probe answers without touching the database
+     */
+    test('should report the process as up', async () => {
+      const response = await request(app).get('/healthz').expect(200);
+
+      expect(response.body.status).toBe('ok');
+      expect(typeof response.body.uptime_seconds).toBe('number');
+      expect(checkDatabase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /readyz', () => {
+    /**
+     * Verifies that the service is ready when all checks pass
+     */
+    test('should return 200 when the database and key are available', async () => {
+      const response = await request(app).get('/readyz').expect(200);
+
+      expect(response.body).toEqual({
+        status: 'ready',
+        checks: { supabase: 'ok', encryption_key: 'ok' },
+      });
+    });
+
+    /**
+     * Verifies that an unreachable database makes the service unready
+     */
+    test('should return 503 when the database check fails', async () => {
+      (checkDatabase as any).mockResolvedValue('connection refused');
+
+      const response = await request(app).get('/readyz').expect(503);
+
+      expect(response.body.status).toBe('not ready');
+      expect(response.body.checks.supabase).toBe('error: connection refused');
+    });
+
+    /**
+     * Verifies that a hanging database check times out instead of blocking the probe
+     */
+    test('should return 503 when the database does not answer in time', async () => {
+      process.env.READINESS_TIMEOUT_MS = '20';
+      (checkDatabase as any).mockReturnValue(new Promise(() => {}));
+
+      const response = await request(app).get('/readyz').expect(503);
+
+      expect(response.body.checks.supabase).toBe('error: Timed out');
+    });
+
+    /**
+     * Verifies that a missing encryption key makes the service unready
+     */
+    test('should return 503 when ENCRYPTION_KEY is missing', async () => {
+      delete process.env.ENCRYPTION_KEY;
+
+      const response = await request(app).get('/readyz').expect(503);
+
+      expect(response.body.checks.encryption_key).toBe('error: missing');
+    });
+  });
+
+  describe('GET /metrics', () => {
+    beforeEach(() => {
+      process.env.METRICS_TOKEN = 'scrape-secret';
+    });
+
+    /**
+     * Verifies that requests are counted under their route pattern
+     */
+    test('should count requests by route pattern and status', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+
+      await request(app).delete('/api/delete-meeting/41').expect(401);
+      await request(app).delete('/api/delete-meeting/42').expect(401);
+      await request(app).get('/no/such/route').expect(404);
+
+      const response = await scrape();
+
+      expect(response.headers['content-type']).toContain('text/plain');
+      expect(response.text).toContain(
+        'http_requests_total{method="DELETE",route="/api/delete-meeting/:id",status="401"} 2'
+      );
+      expect(response.text).toContain(
+        'http_requests_total{method="GET",route="unmatched",status="404"}'
+      );
+      expect(response.text).not.toContain('/api/delete-meeting/42');
+    });
+
+    /**
+     * Verifies that request latency is exported as a histogram
+     */
+    test('should export a latency histogram', async () => {
+      (getAllMeetings as any).mockResolvedValue({ data: [], error: null });
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
+      });
+
+      await request(app)
+        .get('/api/get-all-meetings')
+        .set('Authorization', 'Bearer valid-token-123')
+        .expect(200);
+
+      const response = await scrape();
+      const labels = 'method="GET",route="/api/get-all-meetings",status="200"';
+
+      expect(response.text).toContain('# TYPE http_request_duration_seconds histogram');
+      expect(response.text).toContain(
+        `http_request_duration_seconds_bucket{${labels},le="+Inf"} 1`
+      );
+      expect(response.text).toContain(`http_request_duration_seconds_count{${labels}} 1`);
+    });
+
+    /**
+     * Verifies that live room state is exported from the registered source
+     */
+    test('should export socket, meeting and overlay gauges', async () => {
+      setRoomStatsSource(() => ({
+        connectedSockets: 5,
+        participantsByMeeting: new Map([
+          ['ABC123', 3],
+          ['XYZ789', 1],
+        ]),
+        waitingByMeeting: new Map([['ABC123', 1]]),
+        overlayDataMessagesTotal: 1200,
+        overlayDataMessagesPerSecond: 40,
+      }));
+
+      const response = await scrape();
+
+      expect(response.text).toContain('socket_connections 5');
+      expect(response.text).toContain('active_meetings 2');
+      expect(response.text).toContain('meeting_participants_bucket{le="1"} 1');
+      expect(response.text).toContain('meeting_participants_bucket{le="3"} 2');
+      expect(response.text).toContain('meeting_participants_sum 4');
+      expect(response.text).toContain('meeting_participants_count 2');
+      expect(response.text).toContain('waiting_participants 1');
+      expect(response.text).toContain('overlay_data_messages_total 1200');
+      expect(response.text).toContain('overlay_data_messages_per_second 40');
+    });
+
+    /**
+     * Verifies that meeting codes never appear in the scrape
+     */
+    test('should not expose meeting codes', async () => {
+      setRoomStatsSource(() => ({
+        connectedSockets: 2,
+        participantsByMeeting: new Map([['SECRET1', 2]]),
+        waitingByMeeting: new Map([['SECRET1', 1]]),
+        overlayDataMessagesTotal: 0,
+        overlayDataMessagesPerSecond: 0,
+      }));
+
+      const response = await scrape();
+
+      expect(response.text).not.toContain('SECRET1');
+      expect(response.text).not.toContain('meeting="');
+    });
+
+    /**
+     * Verifies that scrapes without the right token are refused
+     */
+    test('should require METRICS_TOKEN when configured', async () => {
+      await request(app).get('/metrics').expect(401);
+      await request(app)
+        .get('/metrics')
+        .set('Authorization', 'Bearer wrong-secret')
+        .expect(401);
+      await scrape();
+    });
+
+    /**
+     * Verifies that the endpoint does not exist without METRICS_TOKEN
+     */
+    test('should return 404 when METRICS_TOKEN is not set', async () => {
+      delete process.env.METRICS_TOKEN;
+
+      await request(app).get('/metrics').expect(404);
+    });
+  });
+});
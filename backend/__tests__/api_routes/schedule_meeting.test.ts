@@ -312,6 +312,55 @@ describe('POST /api/schedule-meeting', () => {
     });
   });
 
+  describe('Waiting Room', () => {
+    /**
+     * Verifies that the waiting room flag is forwarded when provided
+     */
+    test('should schedule a meeting with the waiting room enabled', async () => {
+      (scheduleMeeting as any).mockResolvedValue({
+        data: { id: 9 },
+        error: null,
+      });
+
+      await request(app)
+        .post('/api/schedule-meeting')
+        .set('Authorization', validAuthToken)
+        .send({
+          meeting_code: 'ABC123',
+          meeting_time: '2025-12-01T10:00:00Z',
+          meeting_title: 'Team Meeting',
+          waiting_room: true,
+        })
+        .expect(201);
+
+      expect(scheduleMeeting).toHaveBeenCalledWith(
+        mockUserId,
+        'ABC123',
+        '2025-12-01T10:00:00Z',
+        'Team Meeting',
+        true
+      );
+    });
+
+    /**
+     * Verifies that a non-boolean waiting room flag is rejected
+     */
+    test('should return 400 when waiting_room is not a boolean', async () => {
+      const response = await request(app)
+        .post('/api/schedule-meeting')
+        .set('Authorization', validAuthToken)
+        .send({
+          meeting_code: 'ABC123',
+          meeting_time: '2025-12-01T10:00:00Z',
+          waiting_room: 'yes',
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('waiting_room must be a boolean');
+      expect(scheduleMeeting).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Validation Tests - Empty Strings', () => {
     /**
      * Verifies that the endpoint rejects empty strings for meeting_code
@@ -552,7 +601,8 @@ describe('POST /api/schedule-meeting', () => {
         mockUserId,
         'ABC123',
         '2025-12-01T10:00:00Z',
-        'Team Meeting'
+        'Team Meeting',
+        undefined
       );
     });
 
@@ -582,6 +632,7 @@ describe('POST /api/schedule-meeting', () => {
         mockUserId,
         'XYZ789',
         '2025-12-15T14:30:00Z',
+        undefined,
         undefined
       );
     });
@@ -618,6 +669,7 @@ describe('POST /api/schedule-meeting', () => {
           mockUserId,
           code,
           '2025-12-01T10:00:00Z',
+          undefined,
           undefined
         );
       }
@@ -649,7 +701,8 @@ describe('POST /api/schedule-meeting', () => {
         mockUserId,
         'ABC123',
         '2025-12-01T10:00:00Z',
-        longTitle
+        longTitle,
+        undefined
       );
     });
 
@@ -920,7 +973,8 @@ describe('POST /api/schedule-meeting', () => {
         mockUserId,
         'TEST-CODE-123',
         '2025-06-15T15:30:00Z',
-        'Important Meeting'
+        'Important Meeting',
+        undefined
       );
       expect(scheduleMeeting).toHaveBeenCalledTimes(1);
     });
@@ -951,7 +1005,8 @@ describe('POST /api/schedule-meeting', () => {
         mockUserId,
         'ABC123',
         '2025-12-01T10:00:00Z',
-        'Team Meeting'
+        'Team Meeting',
+        undefined
       );
     });
 
@@ -977,6 +1032,7 @@ describe('POST /api/schedule-meeting', () => {
         mockUserId,
         'ABC123',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -169,6 +169,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -194,6 +195,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -273,6 +275,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -429,6 +432,52 @@ describe('PUT /api/update-meeting/:id', () => {
     });
   });
 
+  describe('Waiting Room', () => {
+    /**
+     * Verifies that the waiting room flag is forwarded when provided
+     */
+    test('should update the waiting room setting', async () => {
+      (updateMeeting as any).mockResolvedValue(undefined);
+
+      await request(app)
+        .put('/api/update-meeting/1')
+        .set('Authorization', validAuthToken)
+        .send({
+          meeting_title: 'Updated Meeting',
+          meeting_time: '2025-12-01T10:00:00Z',
+          waiting_room: false,
+        })
+        .expect(200);
+
+      expect(updateMeeting).toHaveBeenCalledWith(
+        1,
+        mockUserId,
+        'Updated Meeting',
+        '2025-12-01T10:00:00Z',
+        undefined,
+        false
+      );
+    });
+
+    /**
+     * Verifies that a non-boolean waiting room flag is rejected
+     */
+    test('should return 400 when waiting_room is not a boolean', async () => {
+      const response = await request(app)
+        .put('/api/update-meeting/1')
+        .set('Authorization', validAuthToken)
+        .send({
+          meeting_title: 'Updated Meeting',
+          meeting_time: '2025-12-01T10:00:00Z',
+          waiting_room: 1,
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('waiting_room must be a boolean');
+      expect(updateMeeting).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Validation Tests - Empty Strings', () => {
     /**
      * Verifies that the endpoint rejects empty string for meeting_title (falsy value)
@@ -680,7 +729,8 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
-        'NEW-CODE-123'
+        'NEW-CODE-123',
+        undefined
       );
       expect(updateMeeting).toHaveBeenCalledTimes(1);
     });
@@ -707,6 +757,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-15T14:30:00Z',
+        undefined,
         undefined
       );
     });
@@ -742,7 +793,8 @@ describe('PUT /api/update-meeting/:id', () => {
           mockUserId,
           'Updated Meeting',
           '2025-12-01T10:00:00Z',
-          code
+          code,
+          undefined
         );
       }
     });
@@ -770,6 +822,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         longTitle,
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -973,6 +1026,7 @@ describe('PUT /api/update-meeting/:id', () => {
         customUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -1075,6 +1129,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -1100,6 +1155,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -1127,6 +1183,7 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
@@ -1216,7 +1273,8 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Important Meeting',
         '2025-06-15T15:30:00Z',
-        'TEST-CODE-456'
+        'TEST-CODE-456',
+        undefined
       );
       expect(updateMeeting).toHaveBeenCalledTimes(1);
     });
@@ -1241,14 +1299,15 @@ describe('PUT /api/update-meeting/:id', () => {
         mockUserId,
         'Updated Meeting',
         '2025-12-01T10:00:00Z',
+        undefined,
         undefined
       );
     });
 
     /**
-     * Verifies that updateMeeting is called with exactly 5 parameters
+     * Verifies that updateMeeting is called with exactly 6 parameters
      */
-    test('should call updateMeeting with 5 parameters', async () => {
+    test('should call updateMeeting with 6 parameters', async () => {
       (updateMeeting as any).mockResolvedValue(null);
 
       await request(app)
@@ -1260,7 +1319,7 @@ describe('PUT /api/update-meeting/:id', () => {
         })
         .expect(200);
 
-      expect((updateMeeting as any).mock.calls[0]).toHaveLength(5);
+      expect((updateMeeting as any).mock.calls[0]).toHaveLength(6);
     });
   });
 
@@ -0,0 +1,356 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const request = (await import('supertest')).default;
+const { app } = await import('../../src/app.js');
+const { createGuestToken } = await import('../../src/auth/tokens.js');
+const { supabase, getMeetingByCode, uploadRecording, hasAttendedMeeting } =
+  await import('../../src/supabase_api/supabase_api.js');
+
+const webm = Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x01, 0x02, 0x03]);
+
+// Temp files the route removed. The response goes out before the removal
+// settles, so this waits for it before the disk is checked.
+const removedFiles = async () => {
+  const rm = fs.promises.rm as jest.Mock;
+  await Promise.all(rm.mock.results.map((result) => result.value));
+  return rm.mock.calls.map(([filepath]) => String(filepath));
+};
+
+describe('POST /api/upload-recording', () => {
+  const validAuthToken = 'Bearer valid-token-123';
+  const mockUserId = 'user-123';
+  let storedBytes: Buffer | null;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(fs.promises, 'rm');
+    storedBytes = null;
+
+    (supabase.auth.getUser as any).mockResolvedValue({
+      data: { user: { id: mockUserId } },
+      error: null,
+    });
+    (getMeetingByCode as any).mockResolvedValue({
+      data: { id: 7, owner_id: mockUserId, meeting_code: 'ABC123' },
+      error: null,
+    });
+    (hasAttendedMeeting as any).mockResolvedValue({ data: false, error: null });
+    (uploadRecording as any).mockImplementation(async (_owner: string, _meeting: number, file: fs.ReadStream) => {
+      storedBytes = Buffer.concat(await file.toArray());
+      return { data: { id: 42 }, error: null };
+    });
+  });
+
+  describe('Authentication Tests', () => {
+    /**
+     * Verifies that the endpoint returns 401 when no authorization header is provided
+     */
+    test('should return 401 when no authorization header provided', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+
+      const response = await request(app)
+        .post('/api/upload-recording')
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(401);
+
+      expect(response.body.error).toBe('Unauthorized');
+      expect(uploadRecording).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that guests cannot store recordings
+     */
+    test('should return 401 for a guest token', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+      const { token } = createGuestToken('ABC123', 'Guest');
+
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', `Bearer ${token}`)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(401);
+
+      expect(uploadRecording).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation Tests', () => {
+    /**
+     * Verifies that a file is required
+     */
+    test('should return 400 when no file is attached', async () => {
+      const response = await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .expect(400);
+
+      expect(response.body.error).toBe('Missing required field: file');
+    });
+
+    /**
+     * Verifies that the meeting code is required
+     */
+    test('should return 400 when meeting_code is missing', async () => {
+      const response = await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Missing required field: meeting_code');
+    });
+
+    /**
+     * Verifies that only WebM videos are accepted
+     */
+    test('should return 400 for a non-WebM file', async () => {
+      const response = await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', Buffer.from('png'), { filename: 'image.png', contentType: 'image/png' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Recording must be a WebM video');
+      expect(uploadRecording).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that a rejected upload does not leave its temp file behind
+     */
+    test('should remove the temp file when validation fails', async () => {
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(400);
+
+      const removed = await removedFiles();
+      expect(removed).toHaveLength(1);
+      expect(fs.existsSync(removed[0]!)).toBe(false);
+    });
+
+    /**
+     * Verifies that recordings for unknown meetings are rejected
+     */
+    test('should return 404 when the meeting does not exist', async () => {
+      (getMeetingByCode as any).mockResolvedValue({ data: null, error: null });
+
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'NOPE00')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(404);
+
+      expect(uploadRecording).not.toHaveBeenCalled();
+      expect(await removedFiles()).toHaveLength(1);
+    });
+  });
+
+  describe('Access Tests', () => {
+    /**
+     * Verifies that someone who was never in the meeting cannot attach a recording to it
+     */
+    test('should return 403 for a user who did not take part', async () => {
+      (getMeetingByCode as any).mockResolvedValue({
+        data: { id: 7, owner_id: 'someone-else', meeting_code: 'ABC123' },
+        error: null,
+      });
+
+      const response = await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(403);
+
+      expect(response.body.error).toBe('You did not take part in this meeting');
+      expect(hasAttendedMeeting).toHaveBeenCalledWith(7, mockUserId);
+      expect(uploadRecording).not.toHaveBeenCalled();
+      expect(await removedFiles()).toHaveLength(1);
+    });
+
+    /**
+     * Verifies that a participant who is not the host can upload
+     */
+    test('should accept a recording from a participant', async () => {
+      (getMeetingByCode as any).mockResolvedValue({
+        data: { id: 7, owner_id: 'someone-else', meeting_code: 'ABC123' },
+        error: null,
+      });
+      (hasAttendedMeeting as any).mockResolvedValue({ data: true, error: null });
+
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(201);
+
+      expect(uploadRecording).toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that the host is not looked up in the attendance records
+     */
+    test('should not check attendance for the host', async () => {
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(201);
+
+      expect(hasAttendedMeeting).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that a failed attendance lookup is a server error, not a denial
+     */
+    test('should return 500 when attendance cannot be checked', async () => {
+      (getMeetingByCode as any).mockResolvedValue({
+        data: { id: 7, owner_id: 'someone-else', meeting_code: 'ABC123' },
+        error: null,
+      });
+      (hasAttendedMeeting as any).mockResolvedValue({
+        data: false,
+        error: { message: 'connection reset' },
+      });
+
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(500);
+
+      expect(uploadRecording).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Upload Tests', () => {
+    /**
+     * Verifies that the recording is stored against the meeting and owner
+     */
+    test('should store the recording for the meeting', async () => {
+      const response = await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .field('duration_seconds', '95.4')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(201);
+
+      expect(response.body).toEqual({
+        message: 'Recording uploaded successfully',
+        recording_id: 42,
+      });
+      expect(uploadRecording).toHaveBeenCalledWith(
+        mockUserId,
+        7,
+        expect.any(fs.ReadStream),
+        webm.length,
+        95
+      );
+      expect(storedBytes).toEqual(webm);
+    });
+
+    /**
+     * Verifies that a missing duration is stored as null
+     */
+    test('should store a null duration when none is given', async () => {
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(201);
+
+      expect(uploadRecording).toHaveBeenCalledWith(
+        mockUserId,
+        7,
+        expect.any(fs.ReadStream),
+        webm.length,
+        null
+      );
+    });
+
+    /**
+     * Verifies that storage errors are returned as 400
+     */
+    test('should return 400 when storing fails', async () => {
+      (uploadRecording as any).mockResolvedValue({
+        data: null,
+        error: { message: 'Bucket not found' },
+      });
+
+      const response = await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Bucket not found');
+    });
+
+    /**
+     * Verifies that the temp file is removed once it has been stored
+     */
+    test('should remove the temp file after storing it', async () => {
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(201);
+
+      const removed = await removedFiles();
+      expect(removed).toHaveLength(1);
+      expect(fs.existsSync(removed[0]!)).toBe(false);
+    });
+
+    /**
+     * Verifies that the temp file is removed when storing throws
+     */
+    test('should remove the temp file when storing throws', async () => {
+      (uploadRecording as any).mockRejectedValue(new Error('socket hang up'));
+
+      await request(app)
+        .post('/api/upload-recording')
+        .set('Authorization', validAuthToken)
+        .field('meeting_code', 'ABC123')
+        .attach('file', webm, { filename: 'meeting.webm', contentType: 'video/webm' })
+        .expect(500);
+
+      const removed = await removedFiles();
+      expect(removed).toHaveLength(1);
+      expect(fs.existsSync(removed[0]!)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { socketAuthMiddleware } = await import('../../src/auth/socketAuth.js');
+const { createGuestToken, verifyGuestToken } = await import(
+  '../../src/auth/tokens.js'
+);
+const { supabase, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// Minimal stand-in for a Socket.IO socket during the handshake
+const fakeSocket = (auth: Record<string, unknown>) =>
+  ({ handshake: { auth }, data: {} }) as any;
+
+const runMiddleware = async (socket: any) => {
+  const next = jest.fn();
+  await socketAuthMiddleware(socket, next);
+  return next;
+};
+
+describe('socketAuthMiddleware', () => {
+  const mockUserId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (supabase.auth.getUser as any).mockResolvedValue({
+      data: { user: { id: mockUserId } },
+      error: null,
+    });
+    (getUserData as any).mockResolvedValue({
+      data: [{ id: mockUserId, full_name_enc: 'Jane Doe', email_enc: 'j@x.com' }],
+      error: null,
+    });
+  });
+
+  describe('Supabase Token', () => {
+    /**
+     * Verifies that a valid access token attaches the user id and decrypted name
+     */
+    test('should accept a valid token and attach identity', async () => {
+      const socket = fakeSocket({ token: 'valid-token' });
+      const next = await runMiddleware(socket);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(supabase.auth.getUser).toHaveBeenCalledWith('valid-token');
+      expect(socket.data).toEqual({
+        userId: mockUserId,
+        displayName: 'Jane Doe',
+        guestMeetingId: null,
+      });
+    });
+
+    /**
+     * Verifies that an invalid access token is rejected
+     */
+    test('should reject an invalid token', async () => {
+      (supabase.auth.getUser as any).mockResolvedValue({
+        data: { user: null },
+        error: new Error('Invalid token'),
+      });
+
+      const next = await runMiddleware(fakeSocket({ token: 'bad-token' }));
+
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
+      expect((next.mock.calls[0]![0] as Error).message).toBe('Unauthorized');
+    });
+
+    /**
+     * Verifies that an unexpected lookup failure rejects instead of throwing
+     */
+    test('should reject when the profile lookup throws', async () => {
+      (getUserData as any).mockRejectedValue(new Error('db down'));
+
+      const next = await runMiddleware(fakeSocket({ token: 'valid-token' }));
+
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
+    });
+  });
+
+  describe('Guest Token', () => {
+    /**
+     * Verifies that a guest token attaches the meeting scope and guest name
+     */
+    test('should accept a valid guest token', async () => {
+      const { token } = createGuestToken('ABC123', 'Guest');
+      const socket = fakeSocket({ guestToken: token });
+      const next = await runMiddleware(socket);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(socket.data).toEqual({
+        userId: null,
+        displayName: 'Guest',
+        guestMeetingId: 'ABC123',
+      });
+      expect(supabase.auth.getUser).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that a tampered guest token is rejected
+     */
+    test('should reject a tampered guest token', async () => {
+      const { token } = createGuestToken('ABC123', 'Guest');
+      const [, signature] = token.split('.');
+      const forgedPayload = Buffer.from(
+        JSON.stringify({
+          scope: 'guest',
+          meetingId: 'OTHER',
+          name: 'Guest',
+          exp: Date.now() + 60_000,
+        })
+      ).toString('base64url');
+
+      const next = await runMiddleware(
+        fakeSocket({ guestToken: `${forgedPayload}.${signature}` })
+      );
+
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    /**
+     * Verifies that an expired guest token is rejected
+     */
+    test('should reject an expired guest token', () => {
+      const { token } = createGuestToken('ABC123', 'Guest', 0);
+
+      expect(verifyGuestToken(token)).toBeNull();
+    });
+
+    /**
+     * Verifies that a connection without any credentials is rejected
+     */
+    test('should reject a socket with no credentials', async () => {
+      const next = await runMiddleware(fakeSocket({}));
+
+      expect(next).toHaveBeenCalledWith(expect.any(Error));
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { jest } from '@jest/globals';
+import { createMemoryRoomStateStore } from '../../src/cluster/roomStateStore.js';
+import {
+  createRedisRoomStateStore,
+  type RedisCommands,
+} from '../../src/cluster/redisRoomStateStore.js';
+
+// Just enough of Redis for the store: hashes, lists and plain keys, with key
+// expiry driven by the (fake) clock
+const createFakeRedis = () => {
+  const hashes = new Map<string, Map<string, string>>();
+  const lists = new Map<string, string[]>();
+  const keys = new Map<string, { value: string; expiresAt: number }>();
+
+  const read = (key: string) => {
+    const entry = keys.get(key);
+    if (entry && entry.expiresAt <= Date.now()) keys.delete(key);
+    return keys.get(key)?.value ?? null;
+  };
+
+  const client: RedisCommands = {
+    async hSet(key, field, value) {
+      const hash = hashes.get(key) ?? new Map<string, string>();
+      hashes.set(key, hash);
+      hash.set(field, value);
+      return 1;
+    },
+    async hDel(key, fields) {
+      const hash = hashes.get(key);
+      const removed = fields.filter((field) => hash?.delete(field)).length;
+      if (hash?.size === 0) hashes.delete(key);
+      return removed;
+    },
+    async hGetAll(key) {
+      return Object.fromEntries(hashes.get(key) ?? []);
+    },
+    async mGet(names) {
+      return names.map(read);
+    },
+    async get(key) {
+      return read(key);
+    },
+    async set(key, value, options) {
+      keys.set(key, { value, expiresAt: options ? Date.now() + options.PX : Infinity });
+      return 'OK';
+    },
+    async del(names) {
+      return names.filter((key) => [keys, hashes, lists].some((map) => map.delete(key))).length;
+    },
+    async rPush(key, value) {
+      const list = lists.get(key) ?? [];
+      lists.set(key, list);
+      return list.push(value);
+    },
+    // Only the negative start the store trims with
+    async lTrim(key, start) {
+      lists.set(key, (lists.get(key) ?? []).slice(start));
+      return 'OK';
+    },
+    async lRange(key) {
+      return [...(lists.get(key) ?? [])];
+    },
+  };
+
+  return { client, hashes, read };
+};
+
+const rosterEntry = (socketId: string) => ({
+  socketId,
+  name: socketId,
+  role: 'guest' as const,
+  audioEnabled: true,
+  videoEnabled: true,
+  overlayEnabled: true,
+  reconnecting: false,
+  recording: false,
+});
+
+const chatMessage = (text: string) => ({
+  id: text,
+  meetingId: 'ABC123',
+  senderId: 'alice',
+  senderName: 'Alice',
+  text,
+  timestamp: '2026-01-01T10:00:00.000Z',
+});
+
+describe('Room state stores', () => {
+  describe('Memory Store', () => {
+    /**
+     * Verifies that adding a participant returns everyone already there
+     */
+    test('should return the other participants on add', async () => {
+      const store = createMemoryRoomStateStore();
+
+      expect(await store.addParticipant('ABC123', 'alice')).toEqual([]);
+      expect(await store.addParticipant('ABC123', 'bob')).toEqual(['alice']);
+      expect(await store.addParticipant('XYZ789', 'carol')).toEqual([]);
+    });
+
+    /**
+     * Verifies that removing a participant returns whoever is left
+     */
+    test('should return the remaining participants on remove', async () => {
+      const store = createMemoryRoomStateStore();
+      await store.addParticipant('ABC123', 'alice');
+      await store.addParticipant('ABC123', 'bob');
+
+      expect(await store.removeParticipant('ABC123', 'alice')).toEqual(['bob']);
+      expect(await store.removeParticipant('ABC123', 'bob')).toEqual([]);
+      expect(await store.participants('ABC123')).toEqual([]);
+    });
+
+    /**
+     * Verifies that a resumed participant replaces their old socket
+     */
+    test('should move a participant onto a new socket', async () => {
+      const store = createMemoryRoomStateStore();
+      await store.addParticipant('ABC123', 'alice');
+      await store.addParticipant('ABC123', 'bob');
+
+      expect(await store.replaceParticipant('ABC123', 'bob', 'bob-2')).toEqual(['alice']);
+      expect(await store.participants('ABC123')).toEqual(['alice', 'bob-2']);
+    });
+
+    /**
+     * Verifies that the waiting room keeps arrival order and reports unknown sockets
+     */
+    test('should queue waiting joiners in order', async () => {
+      const store = createMemoryRoomStateStore();
+      await store.addWaiting('ABC123', { socketId: 'alice', name: 'Alice' });
+      await store.addWaiting('ABC123', { socketId: 'bob', name: 'Bob' });
+
+      expect(await store.removeWaiting('ABC123', 'alice')).toBe(true);
+      expect(await store.removeWaiting('ABC123', 'alice')).toBe(false);
+      expect(await store.waiting('ABC123')).toEqual([{ socketId: 'bob', name: 'Bob' }]);
+    });
+
+    /**
+     * Verifies that clearing a meeting forgets its lock, chat and roster
+     */
+    test('should forget a cleared meeting', async () => {
+      const store = createMemoryRoomStateStore();
+      await store.setLocked('ABC123', true);
+      await store.appendChat('ABC123', chatMessage('hi'), 10);
+      await store.setRosterEntry('ABC123', rosterEntry('alice'));
+
+      await store.clearMeeting('ABC123');
+
+      expect(await store.isLocked('ABC123')).toBe(false);
+      expect(await store.chatHistory('ABC123')).toEqual([]);
+      expect(await store.roster('ABC123')).toEqual([]);
+    });
+  });
+
+  describe('Redis Store', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2026-01-01T10:00:00.000Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    /**
+     * Verifies that instances sharing Redis see each other's participants
+     */
+    test('should share membership between instances', async () => {
+      const { client } = createFakeRedis();
+      const nodeA = await createRedisRoomStateStore(client, { nodeId: 'a' });
+      const nodeB = await createRedisRoomStateStore(client, { nodeId: 'b' });
+
+      await nodeA.addParticipant('ABC123', 'alice');
+
+      expect(await nodeB.addParticipant('ABC123', 'bob')).toEqual(['alice']);
+      expect(await nodeA.removeParticipant('ABC123', 'alice')).toEqual(['bob']);
+
+      await nodeA.close();
+      await nodeB.close();
+    });
+
+    /**
+     * Verifies that replacing a participant drops the old socket
+     */
+    test('should move a participant onto a new socket', async () => {
+      const { client } = createFakeRedis();
+      const store = await createRedisRoomStateStore(client, { nodeId: 'a' });
+      await store.addParticipant('ABC123', 'alice');
+      await store.addParticipant('ABC123', 'bob');
+
+      expect(await store.replaceParticipant('ABC123', 'bob', 'bob-2')).toEqual(['alice']);
+      expect((await store.participants('ABC123')).sort()).toEqual(['alice', 'bob-2']);
+
+      await store.close();
+    });
+
+    /**
+     * Verifies that a live instance keeps its heartbeat key refreshed
+     */
+    test('should keep its heartbeat alive', async () => {
+      const { client, read } = createFakeRedis();
+      const store = await createRedisRoomStateStore(client, { nodeId: 'a', nodeTtlMs: 3_000 });
+
+      await jest.advanceTimersByTimeAsync(10_000);
+
+      expect(read('node:a')).toBe('1');
+      await store.close();
+    });
+
+    /**
+     * Verifies that participants of an instance that stopped beating are dropped
+     */
+    test('should drop participants of a dead instance', async () => {
+      const { client, hashes } = createFakeRedis();
+      const live = await createRedisRoomStateStore(client, { nodeId: 'live', nodeTtlMs: 3_000 });
+      await client.hSet('room:ABC123:participants', 'ghost', 'crashed');
+      await live.addParticipant('ABC123', 'alice');
+
+      expect(await live.participants('ABC123')).toEqual(['alice']);
+      expect([...hashes.get('room:ABC123:participants')!.keys()]).toEqual(['alice']);
+
+      await live.close();
+    });
+
+    /**
+     * Verifies that roster entries written by one instance are read by another
+     */
+    test('should share the roster between instances', async () => {
+      const { client } = createFakeRedis();
+      const nodeA = await createRedisRoomStateStore(client, { nodeId: 'a' });
+      const nodeB = await createRedisRoomStateStore(client, { nodeId: 'b' });
+      await nodeA.addParticipant('ABC123', 'alice');
+      await nodeA.setRosterEntry('ABC123', rosterEntry('alice'));
+
+      expect(await nodeB.roster('ABC123')).toEqual([rosterEntry('alice')]);
+
+      await nodeB.forgetParticipant('ABC123', 'alice');
+      expect(await nodeA.roster('ABC123')).toEqual([]);
+
+      await nodeA.close();
+      await nodeB.close();
+    });
+
+    /**
+     * Verifies that a lock set by one instance is seen by another, and lifted
+     */
+    test('should share the meeting lock', async () => {
+      const { client } = createFakeRedis();
+      const nodeA = await createRedisRoomStateStore(client, { nodeId: 'a' });
+      const nodeB = await createRedisRoomStateStore(client, { nodeId: 'b' });
+
+      await nodeA.setLocked('ABC123', true);
+      expect(await nodeB.isLocked('ABC123')).toBe(true);
+
+      await nodeB.setLocked('ABC123', false);
+      expect(await nodeA.isLocked('ABC123')).toBe(false);
+
+      await nodeA.close();
+      await nodeB.close();
+    });
+
+    /**
+     * Verifies that chat history keeps only the newest messages
+     */
+    test('should trim chat history to the limit', async () => {
+      const { client } = createFakeRedis();
+      const store = await createRedisRoomStateStore(client, { nodeId: 'a' });
+
+      for (const text of ['one', 'two', 'three']) {
+        await store.appendChat('ABC123', chatMessage(text), 2);
+      }
+
+      expect((await store.chatHistory('ABC123')).map((message) => message.text)).toEqual([
+        'two',
+        'three',
+      ]);
+      await store.close();
+    });
+
+    /**
+     * Verifies that the waiting room is ordered by arrival and skips dead instances
+     */
+    test('should share the waiting room between live instances', async () => {
+      const { client } = createFakeRedis();
+      const nodeA = await createRedisRoomStateStore(client, { nodeId: 'a' });
+      const nodeB = await createRedisRoomStateStore(client, { nodeId: 'b' });
+      await nodeB.addWaiting('ABC123', { socketId: 'bob', name: 'Bob' });
+      jest.advanceTimersByTime(1);
+      await nodeA.addWaiting('ABC123', { socketId: 'alice', name: 'Alice' });
+      await client.hSet(
+        'room:ABC123:waiting',
+        'ghost',
+        JSON.stringify({ name: 'Ghost', nodeId: 'crashed', queuedAt: 0 })
+      );
+
+      expect(await nodeA.waiting('ABC123')).toEqual([
+        { socketId: 'bob', name: 'Bob' },
+        { socketId: 'alice', name: 'Alice' },
+      ]);
+      expect(await nodeA.removeWaiting('ABC123', 'bob')).toBe(true);
+      expect(await nodeB.waiting('ABC123')).toEqual([{ socketId: 'alice', name: 'Alice' }]);
+
+      await nodeA.close();
+      await nodeB.close();
+    });
+
+    /**
+     * Verifies that a closed instance's participants stop counting straight away
+     */
+    test('should release its participants on close', async () => {
+      const { client } = createFakeRedis();
+      const nodeA = await createRedisRoomStateStore(client, { nodeId: 'a' });
+      const nodeB = await createRedisRoomStateStore(client, { nodeId: 'b' });
+      await nodeA.addParticipant('ABC123', 'alice');
+      await nodeB.addParticipant('ABC123', 'bob');
+
+      await nodeA.close();
+
+      expect(await nodeB.participants('ABC123')).toEqual(['bob']);
+      await nodeB.close();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import type { SignalingSocket } from '../../src/managers/events.js';
+
+// In-memory stand-in for a Socket.IO server socket. Handlers registered with
+// on() can be driven with trigger(), and everything the server emits back is
+// recorded in `emitted`.
+export interface FakeSocket {
+  id: string;
+  // Flip to simulate a socket that died without a disconnect event
+  disconnected: boolean;
+  emitted: Array<{ event: string; payload: any }>;
+  // Socket.IO rooms it is in, starting with its own id
+  rooms: Set<string>;
+  on: (event: string, handler: (...args: any[]) => void) => FakeSocket;
+  emit: (event: string, payload?: any) => boolean;
+  disconnect: (close?: boolean) => FakeSocket;
+  join: (room: string) => void;
+  leave: (room: string) => void;
+  trigger: (event: string, payload?: any) => any;
+  eventsNamed: (event: string) => any[];
+}
+
+export const createFakeSocket = (id: string): FakeSocket & SignalingSocket => {
+  const handlers = new Map<string, (...args: any[]) => any>();
+
+  const socket: FakeSocket = {
+    id,
+    disconnected: false,
+    emitted: [],
+    rooms: new Set([id]),
+    on(event, handler) {
+      handlers.set(event, handler);
+      return socket;
+    },
+    emit(event, payload) {
+      socket.emitted.push({ event, payload });
+      return true;
+    },
+    // Like a server-side disconnect: the socket's own disconnect handler runs
+    disconnect() {
+      socket.disconnected = true;
+      handlers.get('disconnect')?.('server namespace disconnect');
+      return socket;
+    },
+    join(room) {
+      socket.rooms.add(room);
+    },
+    leave(room) {
+      socket.rooms.delete(room);
+    },
+    trigger(event, payload) {
+      return handlers.get(event)?.(payload);
+    },
+    eventsNamed(event) {
+      return socket.emitted
+        .filter((e) => e.event === event)
+        .map((e) => e.payload);
+    },
+  };
+
+  return socket as FakeSocket & SignalingSocket;
+};
+
+export const guestIdentity = (meetingId: string, displayName = 'Guest') => ({
+  userId: null,
+  displayName,
+  guestMeetingId: meetingId,
+});
+
+export const userIdentity = (userId: string, displayName = 'Member') => ({
+  userId,
+  displayName,
+  guestMeetingId: null,
+});
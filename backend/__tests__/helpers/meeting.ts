@@ -0,0 +1,83 @@
+import type { SocketIdentity } from '../../src/auth/socketAuth.js';
+import type { SignalingSocket } from '../../src/managers/events.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+  type FakeSocket,
+} from './fake_socket.js';
+
+// Meeting code the manager tests join unless they need a second room
+export const MEETING = 'ABC123';
+
+// The meetings row getMeetingByCode returns, scheduled for right now
+export const meetingRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  owner_id: 'owner-1',
+  meeting_code: MEETING,
+  meeting_time: new Date().toISOString(),
+  meeting_title: 'Team Sync',
+  ...overrides,
+});
+
+interface MeetingLookup {
+  getMeetingByCode: unknown;
+  getUserData: unknown;
+}
+
+// Points the mocked supabase lookups at meetingRow(), hosted by 'Host Person'
+export const mockMeetingLookup = (
+  api: MeetingLookup,
+  overrides: Record<string, unknown> = {}
+) => {
+  (api.getMeetingByCode as any).mockResolvedValue({
+    data: meetingRow(overrides),
+    error: null,
+  });
+  (api.getUserData as any).mockResolvedValue({
+    data: [{ id: 'owner-1', full_name_enc: 'Host Person' }],
+    error: null,
+  });
+};
+
+interface Seat {
+  identity: SocketIdentity;
+  // Name sent with join-meeting, the identity's display name when left out
+  name?: string;
+}
+
+// A signed-in member and a guest, the pair most manager tests start from
+export const ALICE_AND_BOB = {
+  alice: { identity: userIdentity('u1', 'Alice') },
+  bob: { identity: guestIdentity(MEETING, 'Bob') },
+};
+
+interface JoiningManager {
+  addUser: (socket: SignalingSocket, identity: SocketIdentity) => void;
+  handleJoinMeeting: (socket: SignalingSocket, meetingId: string, name: string) => Promise<unknown>;
+}
+
+// Connects a fake socket per seat, keyed by its id, and joins them to
+// MEETING in the order they are listed, letting the joins settle
+export const joinSeats = async <Id extends string>(
+  manager: JoiningManager,
+  seats: Record<Id, Seat>
+) => {
+  const sockets = {} as Record<Id, FakeSocket & SignalingSocket>;
+  for (const id of Object.keys(seats) as Id[]) {
+    sockets[id] = createFakeSocket(id);
+    manager.addUser(sockets[id], seats[id].identity);
+  }
+  for (const id of Object.keys(seats) as Id[]) {
+    await manager.handleJoinMeeting(sockets[id], MEETING, seats[id].name ?? seats[id].identity.displayName);
+  }
+  await settle();
+  return sockets;
+};
+
+// Lets the manager's background room state store reads and writes finish
+export const settle = async () => {
+  for (let i = 0; i < 50; i++) {
+    await Promise.resolve();
+  }
+};
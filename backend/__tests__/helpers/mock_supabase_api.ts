@@ -8,10 +8,20 @@ export const mockSupabaseApi = () => ({
   scheduleMeeting: jest.fn(),
   deleteMeeting: jest.fn(),
   getAllMeetings: jest.fn(),
+  getMeetingByCode: jest.fn(),
   getUserData: jest.fn(),
   updateUserFullName: jest.fn(),
   deleteUser: jest.fn(),
   updateMeeting: jest.fn(),
+  insertCallStats: jest.fn(),
+  uploadRecording: jest.fn(),
+  createMeetingSession: jest.fn(),
+  endMeetingSession: jest.fn(),
+  addAttendance: jest.fn(),
+  endAttendance: jest.fn(),
+  getMeetingSessions: jest.fn(),
+  hasAttendedMeeting: jest.fn(),
+  checkDatabase: jest.fn(),
   supabase: {
     auth: {
       getUser: jest.fn(),
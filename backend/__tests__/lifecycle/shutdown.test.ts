@@ -0,0 +1,222 @@
+import { jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+
+// Controls for /slow: settles once the request arrives, and lets it finish
+let slowStarted: Promise<void>;
+let markSlowStarted: () => void;
+let finishSlowRequest: () => void;
+
+// Fresh module per test, since draining cannot be undone
+const setup = async () => {
+  jest.resetModules();
+  slowStarted = new Promise((resolve) => {
+    markSlowStarted = resolve;
+  });
+  const { drainRequests, createShutdown } = await import(
+    '../../src/lifecycle/shutdown.js'
+  );
+
+  const app = express();
+  app.use(drainRequests);
+  app.get('/healthz', (_req, res) => {
+    res.status(200).json({ status: 'ok' });
+  });
+  app.get('/fast', (_req, res) => {
+    res.status(200).json({ message: 'ok' });
+  });
+  app.get('/slow', async (_req, res) => {
+    markSlowStarted();
+    await new Promise<void>((resolve) => {
+      finishSlowRequest = resolve;
+    });
+    res.status(200).json({ message: 'done' });
+  });
+
+  const server = app.listen(0);
+  const httpServer = {
+    close: jest.fn(),
+    closeIdleConnections: jest.fn(),
+  };
+  const io = { close: jest.fn((callback?: () => void) => callback?.()) };
+  const participants = {
+    beginShutdown: jest.fn(),
+    endAllSessions: jest.fn(async () => {}),
+  };
+  const cluster = { close: jest.fn(async () => {}) };
+  const exit = jest.fn();
+
+  const shutdown = createShutdown({
+    httpServer: httpServer as any,
+    io,
+    participants,
+    cluster,
+    exit,
+  });
+
+  return { server, shutdown, httpServer, io, participants, cluster, exit };
+};
+
+describe('Graceful shutdown', () => {
+  const originalEnv = { ...process.env };
+  let server: ReturnType<express.Express['listen']> | null = null;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.SHUTDOWN_RETRY_AFTER_MS;
+    delete process.env.SHUTDOWN_TIMEOUT_MS;
+  });
+
+  afterEach(() => {
+    server?.close();
+    server = null;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  /**
+   * Verifies that requests pass straight through before shutdown
+   */
+  test('should serve requests normally until shutdown', async () => {
+    const context = await setup();
+    server = context.server;
+
+    await request(server).get('/fast').expect(200);
+  });
+
+  /**
+   * Verifies that participants are told to rejoin and new requests get 503
+   */
+  test('should notify participants and reject new requests', async () => {
+    process.env.SHUTDOWN_RETRY_AFTER_MS = '8000';
+    const context = await setup();
+    server = context.server;
+
+    await context.shutdown('SIGTERM');
+
+    expect(context.participants.beginShutdown).toHaveBeenCalledWith(8000);
+    expect(context.httpServer.close).toHaveBeenCalled();
+
+    const response = await request(server).get('/fast').expect(503);
+    expect(response.body.error).toBe('Server is restarting');
+    expect(response.headers['retry-after']).toBe('8');
+
+    // The liveness probe keeps answering while draining
+    await request(server).get('/healthz').expect(200);
+  });
+
+  /**
+   * Verifies that sockets are closed only after in-flight requests finish
+   */
+  test('should wait for in-flight requests before closing', async () => {
+    const context = await setup();
+    server = context.server;
+
+    const slow = request(server).get('/slow').then((response) => response);
+    await slowStarted;
+
+    const done = context.shutdown('SIGTERM');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(context.io.close).not.toHaveBeenCalled();
+
+    finishSlowRequest();
+    expect((await slow).status).toBe(200);
+    await done;
+
+    expect(context.io.close).toHaveBeenCalled();
+    expect(context.exit).toHaveBeenCalledWith(0);
+  });
+
+  /**
+   * Verifies that a stuck request cannot hold shutdown open forever
+   */
+  test('should close after SHUTDOWN_TIMEOUT_MS', async () => {
+    process.env.SHUTDOWN_TIMEOUT_MS = '50';
+    const context = await setup();
+    server = context.server;
+
+    const slow = request(server).get('/slow').then((response) => response);
+    await slowStarted;
+
+    await context.shutdown('SIGTERM');
+
+    expect(context.io.close).toHaveBeenCalled();
+    expect(context.exit).toHaveBeenCalledWith(0);
+
+    finishSlowRequest();
+    await slow;
+  });
+
+  /**
+   * Verifies that shared room state is released once the sockets are closed
+   */
+  test('should close the cluster link after the sockets', async () => {
+    const context = await setup();
+    server = context.server;
+
+    await context.shutdown('SIGTERM');
+
+    expect(context.cluster.close).toHaveBeenCalledTimes(1);
+    expect(context.cluster.close.mock.invocationCallOrder[0]).toBeGreaterThan(
+      context.io.close.mock.invocationCallOrder[0]!
+    );
+    expect(context.exit).toHaveBeenCalledWith(0);
+  });
+
+  /**
+   * Verifies that meeting history is saved after the sockets close and before exiting
+   */
+  test('should end open sessions before exiting', async () => {
+    const context = await setup();
+    server = context.server;
+    let finishWrites = () => {};
+    context.participants.endAllSessions.mockImplementation(
+      () => new Promise<void>((resolve) => {
+        finishWrites = resolve;
+      })
+    );
+
+    const done = context.shutdown('SIGTERM');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(context.participants.endAllSessions).toHaveBeenCalledTimes(1);
+    expect(context.participants.endAllSessions.mock.invocationCallOrder[0]).toBeGreaterThan(
+      context.io.close.mock.invocationCallOrder[0]!
+    );
+    expect(context.exit).not.toHaveBeenCalled();
+
+    finishWrites();
+    await done;
+
+    expect(context.exit).toHaveBeenCalledWith(0);
+  });
+
+  /**
+   * Verifies that stuck history writes cannot hold shutdown open forever
+   */
+  test('should not wait for history writes past SHUTDOWN_TIMEOUT_MS', async () => {
+    process.env.SHUTDOWN_TIMEOUT_MS = '50';
+    const context = await setup();
+    server = context.server;
+    context.participants.endAllSessions.mockImplementation(() => new Promise<void>(() => {}));
+
+    await context.shutdown('SIGTERM');
+
+    expect(context.exit).toHaveBeenCalledWith(0);
+  });
+
+  /**
+   * Verifies that a second signal does not start another shutdown
+   */
+  test('should ignore repeated signals', async () => {
+    const context = await setup();
+    server = context.server;
+
+    await context.shutdown('SIGTERM');
+    await context.shutdown('SIGINT');
+
+    expect(context.participants.beginShutdown).toHaveBeenCalledTimes(1);
+    expect(context.exit).toHaveBeenCalledTimes(1);
+  });
+});
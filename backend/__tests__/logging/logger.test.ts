@@ -0,0 +1,182 @@
+import { jest } from '@jest/globals';
+
+const { createLogger } = await import('../../src/logging/logger.js');
+
+describe('logger', () => {
+  const originalEnv = { ...process.env };
+  let log: jest.SpiedFunction<typeof console.log>;
+  let error: jest.SpiedFunction<typeof console.error>;
+
+  // Parsed JSON entries written to stdout and stderr
+  const entries = () =>
+    [...log.mock.calls, ...error.mock.calls].map(([line]) =>
+      JSON.parse(line as string)
+    );
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, LOG_LEVEL: 'debug' };
+    delete process.env.LOG_REDACT;
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('Format', () => {
+    /**
+     * Verifies that each entry is a single JSON object with the standard keys
+     */
+    test('should write one JSON line per entry', () => {
+      createLogger().info('Room created', { meetingId: 'ABC123' });
+
+      expect(log).toHaveBeenCalledTimes(1);
+      const [entry] = entries();
+      expect(entry).toEqual({
+        time: expect.any(String),
+        level: 'info',
+        msg: 'Room created',
+        meetingId: 'ABC123',
+      });
+      expect(isNaN(Date.parse(entry.time))).toBe(false);
+    });
+
+    /**
+     * Verifies that warnings and errors go to stderr
+     */
+    test('should write warn and error entries to stderr', () => {
+      const logger = createLogger();
+
+      logger.warn('Slow');
+      logger.error('Broken');
+
+      expect(log).not.toHaveBeenCalled();
+      expect(error).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * Verifies that child loggers carry their fields on every entry
+     */
+    test('should add child fields to every entry', () => {
+      const socketLog = createLogger({ service: 'backend' }).child({
+        correlationId: 'c-1',
+        userId: 'u1',
+      });
+
+      socketLog.info('Joining meeting', { meetingId: 'ABC123' });
+
+      expect(entries()[0]).toMatchObject({
+        service: 'backend',
+        correlationId: 'c-1',
+        userId: 'u1',
+        meetingId: 'ABC123',
+      });
+    });
+
+    /**
+     * Verifies that errors keep their message and stack
+     */
+    test('should serialize errors', () => {
+      createLogger().error('Failed', { err: new TypeError('bad input') });
+
+      expect(entries()[0].err).toEqual({
+        name: 'TypeError',
+        message: 'bad input',
+        stack: expect.stringContaining('bad input'),
+      });
+    });
+  });
+
+  describe('Levels', () => {
+    /**
+     * Verifies that entries below LOG_LEVEL are dropped
+     */
+    test('should honour LOG_LEVEL', () => {
+      process.env.LOG_LEVEL = 'warn';
+      const logger = createLogger();
+
+      logger.debug('Forwarding offer');
+      logger.info('Room created');
+      logger.warn('Dropping signal');
+
+      expect(entries().map((entry) => entry.level)).toEqual(['warn']);
+    });
+
+    /**
+     * Verifies that an unknown level falls back to info
+     */
+    test('should default to info for unknown levels', () => {
+      process.env.LOG_LEVEL = 'verbose';
+      const logger = createLogger();
+
+      logger.debug('Forwarding offer');
+      logger.info('Room created');
+
+      expect(entries().map((entry) => entry.level)).toEqual(['info']);
+    });
+
+    /**
+     * Verifies that silent turns logging off entirely
+     */
+    test('should write nothing when silent', () => {
+      process.env.LOG_LEVEL = 'silent';
+
+      createLogger().error('Broken');
+
+      expect(error).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Redaction', () => {
+    /**
+     * Verifies that secrets, SDP and contact details are masked by key
+     */
+    test('should redact sensitive fields', () => {
+      createLogger().info('Signal', {
+        token: 'abc',
+        authorization: 'Bearer abc',
+        sdp: 'v=0',
+        candidate: { candidate: 'candidate:1 1 udp' },
+        email: 'alice@example.com',
+        nested: { password: 'hunter2', meetingId: 'ABC123' },
+      });
+
+      expect(entries()[0]).toMatchObject({
+        token: '[REDACTED]',
+        authorization: '[REDACTED]',
+        sdp: '[REDACTED]',
+        candidate: '[REDACTED]',
+        email: '[REDACTED]',
+        nested: { password: '[REDACTED]', meetingId: 'ABC123' },
+      });
+    });
+
+    /**
+     * Verifies that e-mail addresses and bearer tokens inside text are masked
+     */
+    test('should redact e-mails and bearer tokens in messages', () => {
+      createLogger().error('Failed', {
+        err: new Error('User alice@example.com sent Bearer eyJhbGc.x.y'),
+      });
+
+      const { message } = entries()[0].err;
+      expect(message).toBe('User [REDACTED_EMAIL] sent Bearer [REDACTED]');
+    });
+
+    /**
+     * Verifies that redaction can be switched off with LOG_REDACT=false
+     */
+    test('should leave values alone when LOG_REDACT is false', () => {
+      process.env.LOG_REDACT = 'false';
+
+      createLogger().info('Signal', { email: 'alice@example.com' });
+
+      expect(entries()[0].email).toBe('alice@example.com');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+const request = (await import('supertest')).default;
+const { app } = await import('../../src/app.js');
+const { getAllMeetings, supabase } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+describe('Request logging', () => {
+  const originalEnv = { ...process.env };
+  let log: jest.SpiedFunction<typeof console.log>;
+
+  // Completed-request entries written to stdout
+  const completed = () =>
+    log.mock.calls
+      .map(([line]) => JSON.parse(line as string))
+      .filter((entry) => entry.msg === 'Request completed');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, LOG_LEVEL: 'info' };
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  /**
+   * Verifies that every response carries a generated request id
+   */
+  test('should assign a request id', async () => {
+    const response = await request(app).get('/api/unknown').expect(404);
+
+    expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    expect(completed()[0]).toMatchObject({
+      level: 'info',
+      requestId: response.headers['x-request-id'],
+      method: 'GET',
+      path: '/api/unknown',
+      status: 404,
+      durationMs: expect.any(Number),
+    });
+  });
+
+  /**
+   * Verifies that an upstream request id is reused for correlation
+   */
+  test('should reuse a valid incoming X-Request-Id', async () => {
+    const response = await request(app)
+      .get('/api/unknown')
+      .set('X-Request-Id', 'lb-1234');
+
+    expect(response.headers['x-request-id']).toBe('lb-1234');
+    expect(completed()[0].requestId).toBe('lb-1234');
+  });
+
+  /**
+   * Verifies that malformed incoming ids are replaced
+   */
+  test('should ignore an invalid incoming X-Request-Id', async () => {
+    const response = await request(app)
+      .get('/api/unknown')
+      .set('X-Request-Id', 'not valid <script>');
+
+    expect(response.headers['x-request-id']).not.toBe('not valid <script>');
+  });
+
+  /**
+   * Verifies that authenticated requests are tagged with the user id
+   */
+  test('should attach the user id once authenticated', async () => {
+    (supabase.auth.getUser as any).mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+    (getAllMeetings as any).mockResolvedValue({ data: [], error: null });
+
+    await request(app)
+      .get('/api/get-all-meetings')
+      .set('Authorization', 'Bearer secret-token')
+      .expect(200);
+
+    const [entry] = completed();
+    expect(entry.userId).toBe('user-123');
+    expect(JSON.stringify(entry)).not.toContain('secret-token');
+  });
+
+  /**
+   * Verifies that health probes are only logged at debug level
+   */
+  test('should not log health probes at info', async () => {
+    await request(app).get('/healthz').expect(200);
+
+    expect(completed()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import { createFakeSocket, userIdentity } from '../helpers/fake_socket.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+const MEETING = 'ABC123';
+
+describe('Socket logging', () => {
+  const originalEnv = { ...process.env };
+  let log: jest.SpiedFunction<typeof console.log>;
+
+  const entries = () =>
+    log.mock.calls.map(([line]) => JSON.parse(line as string));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    process.env = { ...originalEnv, LOG_LEVEL: 'debug' };
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    (getMeetingByCode as any).mockResolvedValue({
+      data: {
+        id: 7,
+        owner_id: 'owner-1',
+        meeting_code: MEETING,
+        meeting_time: new Date().toISOString(),
+        meeting_title: 'Team Sync',
+      },
+      error: null,
+    });
+    (getUserData as any).mockResolvedValue({
+      data: [{ id: 'owner-1', full_name_enc: 'Host Person' }],
+      error: null,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  /**
+   * Verifies that a socket's entries share one correlation id and carry the
+   * user and meeting ids
+   */
+  test('should tag socket entries with correlation, user and meeting ids', async () => {
+    const manager = new userManager();
+    const alice = createFakeSocket('alice');
+    manager.addUser(alice, userIdentity('u1', 'Alice'));
+
+    await manager.handleJoinMeeting(alice, MEETING, 'Alice');
+
+    const own = entries().filter((entry) => entry.socketId === 'alice');
+    const correlationIds = new Set(own.map((entry) => entry.correlationId));
+
+    expect(own.length).toBeGreaterThan(1);
+    expect(correlationIds.size).toBe(1);
+    expect([...correlationIds][0]).toEqual(expect.any(String));
+    expect(own.every((entry) => entry.userId === 'u1')).toBe(true);
+    expect(own.find((entry) => entry.msg === 'Joining meeting')).toMatchObject({
+      meetingId: MEETING,
+    });
+  });
+
+  /**
+   * Verifies that forwarded signaling never writes the SDP or candidate
+   */
+  test('should not log signaling payloads', async () => {
+    const manager = new userManager();
+    const alice = createFakeSocket('alice');
+    const bob = createFakeSocket('bob');
+    manager.addUser(alice, userIdentity('u1', 'Alice'));
+    manager.addUser(bob, userIdentity('u2', 'Bob'));
+    await manager.handleJoinMeeting(alice, MEETING, 'Alice');
+    await manager.handleJoinMeeting(bob, MEETING, 'Bob');
+
+    bob.trigger('offer', { roomId: MEETING, sdp: 'v=0 secret-sdp', targetId: 'alice' });
+    bob.trigger('ice-candidate', {
+      roomId: MEETING,
+      candidate: { candidate: 'candidate:1 1 udp 10.0.0.5' },
+      targetId: 'alice',
+    });
+
+    const output = log.mock.calls.map(([line]) => line).join('\n');
+    expect(entries().some((entry) => entry.msg === 'Forwarding offer')).toBe(true);
+    expect(output).not.toContain('secret-sdp');
+    expect(output).not.toContain('10.0.0.5');
+  });
+});
@@ -0,0 +1,236 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const {
+  getMeetingByCode,
+  getUserData,
+  createMeetingSession,
+  endMeetingSession,
+  addAttendance,
+  endAttendance,
+} = await import('../../src/supabase_api/supabase_api.js');
+
+// Lets the background writes, which chain on each other, run to completion
+const flushWrites = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+// Host and guest in a live meeting
+const setup = async () => {
+  const manager = new userManager();
+  const { host, guest } = await joinSeats(manager, {
+    host: { identity: userIdentity('owner-1', 'Host Person') },
+    guest: { identity: guestIdentity(MEETING, 'Gus') },
+  });
+  await flushWrites();
+
+  return { manager, host, guest };
+};
+
+describe('userManager attendance', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+
+    let attendanceId = 100;
+    (createMeetingSession as any).mockResolvedValue({ data: { id: 55 }, error: null });
+    (addAttendance as any).mockImplementation(async () => ({
+      data: { id: attendanceId++ },
+      error: null,
+    }));
+    (endAttendance as any).mockResolvedValue(undefined);
+    (endMeetingSession as any).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Sessions', () => {
+    /**
+     * Verifies that one session is opened when the room gets its first participant
+     */
+    test('should open a single session for the meeting', async () => {
+      await setup();
+
+      expect(createMeetingSession).toHaveBeenCalledTimes(1);
+      expect(createMeetingSession).toHaveBeenCalledWith(7, expect.any(String));
+    });
+
+    /**
+     * Verifies that the session is closed once the last participant leaves
+     */
+    test('should end the session when the room empties', async () => {
+      const { host } = await setup();
+
+      host.trigger('end-meeting', { meetingId: MEETING });
+      await flushWrites();
+
+      expect(endMeetingSession).toHaveBeenCalledTimes(1);
+      expect(endMeetingSession).toHaveBeenCalledWith(55, expect.any(String));
+    });
+
+    /**
+     * Verifies that a room reopened later gets a new session
+     */
+    test('should start a new session after the room has emptied', async () => {
+      const { manager, host } = await setup();
+      host.trigger('end-meeting', { meetingId: MEETING });
+      await flushWrites();
+
+      const again = createFakeSocket('host-2');
+      manager.addUser(again, userIdentity('owner-1', 'Host Person'));
+      await manager.handleJoinMeeting(again, MEETING, 'Host Person');
+      await flushWrites();
+
+      expect(createMeetingSession).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * Verifies that shutdown ends the open session and attendance and waits for the writes
+     */
+    test('should close out everything still open on shutdown', async () => {
+      const { manager } = await setup();
+      let finishSession = () => {};
+      (endMeetingSession as any).mockImplementation(
+        () => new Promise<void>((resolve) => {
+          finishSession = resolve;
+        })
+      );
+
+      let saved = false;
+      const done = manager.endAllSessions().then(() => {
+        saved = true;
+      });
+      await flushWrites();
+
+      expect(endAttendance).toHaveBeenCalledWith(100, expect.any(String));
+      expect(endAttendance).toHaveBeenCalledWith(101, expect.any(String));
+      expect(endMeetingSession).toHaveBeenCalledWith(55, expect.any(String));
+      expect(saved).toBe(false);
+
+      finishSession();
+      await done;
+      expect(saved).toBe(true);
+    });
+  });
+
+  describe('Attendance', () => {
+    /**
+     * Verifies that each participant's join is recorded with their display name
+     */
+    test('should record each participant joining', async () => {
+      await setup();
+
+      expect(addAttendance).toHaveBeenCalledWith(55, 'owner-1', 'Host Person', expect.any(String));
+      expect(addAttendance).toHaveBeenCalledWith(55, null, 'Gus', expect.any(String));
+    });
+
+    /**
+     * Verifies that a participant's leave is recorded once their slot is released
+     */
+    test('should record the leave after the grace window', async () => {
+      const { manager } = await setup();
+
+      manager.removeUser('guest');
+      await flushWrites();
+      expect(endAttendance).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(30_000);
+      await flushWrites();
+
+      expect(endAttendance).toHaveBeenCalledWith(101, expect.any(String));
+      expect(endMeetingSession).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that a reconnect keeps a single attendance row
+     */
+    test('should keep the attendance row across a reconnect', async () => {
+      const { manager, guest } = await setup();
+      const token = guest.eventsNamed('reconnect-token')[0].token as string;
+      manager.removeUser('guest');
+
+      const guestAgain = createFakeSocket('guest-2');
+      manager.addUser(guestAgain, guestIdentity(MEETING, 'Gus'));
+      await manager.handleJoinMeeting(guestAgain, MEETING, 'Gus', token);
+      manager.removeUser('guest-2');
+      jest.advanceTimersByTime(30_000);
+      await flushWrites();
+
+      expect(addAttendance).toHaveBeenCalledTimes(2);
+      expect(endAttendance).toHaveBeenCalledTimes(1);
+      expect(endAttendance).toHaveBeenCalledWith(101, expect.any(String));
+    });
+
+    /**
+     * Verifies that joiners still in the waiting room are not counted
+     */
+    test('should not record joiners who were never admitted', async () => {
+      (getMeetingByCode as any).mockResolvedValue({
+        data: {
+          id: 7,
+          owner_id: 'owner-1',
+          meeting_code: MEETING,
+          meeting_time: new Date().toISOString(),
+          meeting_title: 'Team Sync',
+          waiting_room: true,
+        },
+        error: null,
+      });
+
+      await setup();
+
+      expect(addAttendance).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Failures', () => {
+    /**
+     * Verifies that a failed session write does not affect the meeting
+     */
+    test('should keep the meeting running when history cannot be saved', async () => {
+      (createMeetingSession as any).mockResolvedValue({
+        data: null,
+        error: { message: 'relation does not exist' },
+      });
+
+      const { host, guest } = await setup();
+      host.trigger('end-meeting', { meetingId: MEETING });
+      await flushWrites();
+
+      expect(guest.eventsNamed('partner-connected')).toHaveLength(1);
+      expect(addAttendance).not.toHaveBeenCalled();
+      expect(endMeetingSession).not.toHaveBeenCalled();
+    });
+  });
+});
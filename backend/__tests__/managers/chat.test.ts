@@ -0,0 +1,149 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  ALICE_AND_BOB,
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { ringBuffer } = await import('../../src/managers/ringBuffer.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+const setup = async () => {
+  const manager = new userManager();
+  const { alice, bob } = await joinSeats(manager, ALICE_AND_BOB);
+
+  return { manager, alice, bob };
+};
+
+describe('userManager chat', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Messages', () => {
+    /**
+     * Verifies that messages reach every participant with server metadata
+     */
+    test('should relay a message to everyone in the meeting', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('chat-message', { meetingId: MEETING, text: '  hello  ' });
+
+      const [received] = bob.eventsNamed('chat-message');
+      expect(received).toEqual({
+        id: expect.any(String),
+        meetingId: MEETING,
+        senderId: 'alice',
+        senderName: 'Alice',
+        text: 'hello',
+        timestamp: expect.any(String),
+      });
+      // The sender gets the same message back, with the same id
+      expect(alice.eventsNamed('chat-message')[0].id).toBe(received.id);
+    });
+
+    /**
+     * Verifies that empty and oversized messages are dropped
+     */
+    test('should ignore empty or oversized messages', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('chat-message', { meetingId: MEETING, text: '   ' });
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'x'.repeat(2001) });
+      alice.trigger('chat-message', { meetingId: MEETING, text: 42 });
+
+      expect(bob.eventsNamed('chat-message')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that sockets outside the meeting cannot post to it
+     */
+    test('should ignore messages from non-participants', async () => {
+      const { manager, bob } = await setup();
+      const outsider = createFakeSocket('outsider');
+      manager.addUser(outsider, userIdentity('u9', 'Outsider'));
+
+      outsider.trigger('chat-message', { meetingId: MEETING, text: 'hi' });
+
+      expect(bob.eventsNamed('chat-message')).toHaveLength(0);
+    });
+  });
+
+  describe('History', () => {
+    /**
+     * Verifies that late joiners receive the recent history
+     */
+    test('should replay history to a late joiner', async () => {
+      const { manager, alice } = await setup();
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'first' });
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'second' });
+
+      const carol = createFakeSocket('carol');
+      manager.addUser(carol, userIdentity('u3', 'Carol'));
+      await manager.handleJoinMeeting(carol, MEETING, 'Carol');
+
+      const [history] = carol.eventsNamed('chat-history');
+      expect(history.messages.map((m: any) => m.text)).toEqual(['first', 'second']);
+    });
+
+    /**
+     * Verifies that history is dropped once the meeting empties
+     */
+    test('should clear history when the meeting ends', async () => {
+      const { manager, alice } = await setup();
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'bye' });
+      manager.removeUser('alice');
+      manager.removeUser('bob');
+      jest.advanceTimersByTime(30_000);
+
+      const dave = createFakeSocket('dave');
+      manager.addUser(dave, userIdentity('u4', 'Dave'));
+      await manager.handleJoinMeeting(dave, MEETING, 'Dave');
+
+      expect(dave.eventsNamed('chat-history')).toHaveLength(0);
+    });
+  });
+
+  describe('ringBuffer', () => {
+    /**
+     * Verifies that the buffer keeps only the newest entries, in order
+     */
+    test('should overwrite the oldest entries once full', () => {
+      const buffer = new ringBuffer<number>(3);
+      [1, 2, 3, 4, 5].forEach((n) => buffer.push(n));
+
+      expect(buffer.toArray()).toEqual([3, 4, 5]);
+      expect(buffer.size).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+  type FakeSocket,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  mockMeetingLookup,
+  settle,
+} from '../helpers/meeting.js';
+import type { SocketIdentity } from '../../src/auth/socketAuth.js';
+import type { BroadcastTarget, ClusterCommand } from '../../src/cluster/cluster.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { createMemoryRoomStateStore } = await import(
+  '../../src/cluster/roomStateStore.js'
+);
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// Two instances sharing one store. The links stand in for the Socket.IO
+// adapter: deliver() and broadcast() reach sockets whichever instance holds
+// them, and commands published by one instance run on the other.
+const setup = () => {
+  const store = createMemoryRoomStateStore();
+  const sockets = new Map<string, FakeSocket>();
+  const handlers = new Map<string, (command: ClusterCommand) => void>();
+
+  const link = (nodeId: string) => ({
+    store,
+    deliver: (socketId: string, event: string, payload: unknown) => {
+      sockets.get(socketId)?.emit(event, payload);
+    },
+    broadcast: ({ room, except }: BroadcastTarget, event: string, payload: unknown) => {
+      for (const socket of sockets.values()) {
+        if (socket.rooms.has(room) && socket.id !== except) socket.emit(event, payload);
+      }
+    },
+    publish: (command: ClusterCommand) => {
+      for (const [otherId, handler] of handlers) {
+        if (otherId !== nodeId) handler(command);
+      }
+    },
+    onCommand: (handler: (command: ClusterCommand) => void) => {
+      handlers.set(nodeId, handler);
+    },
+    close: async () => {},
+  });
+
+  const nodeA = new userManager(3);
+  const nodeB = new userManager(3);
+  nodeA.useCluster(link('a'));
+  nodeB.useCluster(link('b'));
+
+  const connect = (
+    node: InstanceType<typeof userManager>,
+    id: string,
+    identity: SocketIdentity = guestIdentity(MEETING, id)
+  ) => {
+    const socket = createFakeSocket(id);
+    sockets.set(id, socket);
+    node.addUser(socket, identity);
+    return socket;
+  };
+
+  const join = async (
+    node: InstanceType<typeof userManager>,
+    id: string,
+    identity?: SocketIdentity
+  ) => {
+    const socket = connect(node, id, identity);
+    await node.handleJoinMeeting(socket, MEETING, id);
+    await jest.advanceTimersByTimeAsync(500);
+    return socket;
+  };
+
+  // The meeting owner, joined on the given instance
+  const joinHost = (node: InstanceType<typeof userManager>) =>
+    join(node, 'host', userIdentity('owner-1', 'Host'));
+
+  return { nodeA, nodeB, sockets, connect, join, joinHost };
+};
+
+describe('userManager across instances', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Verifies that a newcomer is asked to connect to a participant on another instance
+   */
+  test('should pair participants on different instances', async () => {
+    const { nodeA, nodeB, join } = setup();
+    const alice = await join(nodeA, 'alice');
+    const bob = await join(nodeB, 'bob');
+
+    expect(bob.eventsNamed('send-offer')).toEqual([
+      { roomId: MEETING, targetId: 'alice' },
+    ]);
+    expect(bob.eventsNamed('partner-connected')).toHaveLength(1);
+    expect(alice.eventsNamed('partner-connected')).toHaveLength(1);
+  });
+
+  /**
+   * Verifies that offers, answers and candidates reach a peer on another instance
+   */
+  test('should relay signaling between instances', async () => {
+    const { nodeA, nodeB, join } = setup();
+    const alice = await join(nodeA, 'alice');
+    const bob = await join(nodeB, 'bob');
+
+    bob.trigger('offer', { roomId: MEETING, sdp: 'offer-sdp', targetId: 'alice' });
+    alice.trigger('answer', { roomId: MEETING, sdp: 'answer-sdp', targetId: 'bob' });
+    bob.trigger('ice-candidate', { roomId: MEETING, candidate: { candidate: 'c1' }, targetId: 'alice' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(alice.eventsNamed('offer')).toEqual([
+      { sdp: 'offer-sdp', roomId: MEETING, senderId: 'bob' },
+    ]);
+    expect(bob.eventsNamed('answer')).toEqual([
+      { sdp: 'answer-sdp', roomId: MEETING, senderId: 'alice' },
+    ]);
+    expect(alice.eventsNamed('add-ice-candidate')).toEqual([
+      { candidate: { candidate: 'c1' }, senderId: 'bob' },
+    ]);
+  });
+
+  /**
+   * Verifies that signals for sockets outside the meeting are not relayed
+   */
+  test('should not relay to sockets outside the meeting', async () => {
+    const { nodeA, nodeB, sockets, join } = setup();
+    await join(nodeA, 'alice');
+    const bob = await join(nodeB, 'bob');
+    const outsider = createFakeSocket('outsider');
+    sockets.set('outsider', outsider);
+    nodeA.addUser(outsider, guestIdentity(MEETING, 'Outsider'));
+
+    bob.trigger('offer', { roomId: MEETING, sdp: 'offer-sdp', targetId: 'outsider' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(outsider.eventsNamed('offer')).toHaveLength(0);
+  });
+
+  /**
+   * Verifies that leaving tells peers on other instances to drop the connection
+   */
+  test('should notify other instances when a participant leaves', async () => {
+    const { nodeA, nodeB, join } = setup();
+    const alice = await join(nodeA, 'alice');
+    await join(nodeB, 'bob');
+
+    // Leaves for good once the reconnect window runs out
+    nodeB.removeUser('bob');
+    await jest.advanceTimersByTimeAsync(30_000);
+
+    expect(alice.eventsNamed('user-disconnected')).toEqual([{ socketId: 'bob' }]);
+  });
+
+  /**
+   * Verifies that the participant cap counts every instance
+   */
+  test('should count participants on every instance toward capacity', async () => {
+    const { nodeA, nodeB, join } = setup();
+    await join(nodeA, 'alice');
+    await join(nodeB, 'bob');
+    await join(nodeA, 'carol');
+
+    const dave = await join(nodeB, 'dave');
+
+    expect(dave.eventsNamed('join-error')[0].code).toBe('MEETING_FULL');
+  });
+
+  describe('Shared Meeting State', () => {
+    /**
+     * Verifies that everyone sees one roster covering both instances
+     */
+    test('should share the roster between instances', async () => {
+      const { nodeA, nodeB, join } = setup();
+      const alice = await join(nodeA, 'alice');
+      const bob = await join(nodeB, 'bob');
+
+      bob.trigger('media-state', {
+        meetingId: MEETING,
+        audioEnabled: false,
+        videoEnabled: true,
+        overlayEnabled: true,
+      });
+      await settle();
+
+      const roster = alice.eventsNamed('roster').at(-1).participants;
+      expect(roster.map((entry: any) => [entry.socketId, entry.audioEnabled])).toEqual([
+        ['alice', true],
+        ['bob', false],
+      ]);
+    });
+
+    /**
+     * Verifies that chat and its history reach participants on another instance
+     */
+    test('should share chat between instances', async () => {
+      const { nodeA, nodeB, join } = setup();
+      const alice = await join(nodeA, 'alice');
+      const bob = await join(nodeB, 'bob');
+
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'hello' });
+      await settle();
+      const carol = await join(nodeB, 'carol');
+
+      expect(bob.eventsNamed('chat-message').map((message: any) => message.text)).toEqual(['hello']);
+      expect(carol.eventsNamed('chat-history')[0].messages.map((message: any) => message.text)).toEqual([
+        'hello',
+      ]);
+    });
+
+    /**
+     * Verifies that a lock set on one instance holds back joiners on another
+     */
+    test('should lock the meeting on every instance', async () => {
+      const { nodeA, nodeB, join, joinHost } = setup();
+      const host = await joinHost(nodeA);
+      const alice = await join(nodeB, 'alice');
+
+      host.trigger('lock-meeting', { meetingId: MEETING, locked: true });
+      await settle();
+      const bob = await join(nodeB, 'bob');
+
+      expect(alice.eventsNamed('meeting-lock-changed')).toEqual([{ meetingId: MEETING, locked: true }]);
+      expect(bob.eventsNamed('join-error')[0].code).toBe('MEETING_LOCKED');
+    });
+  });
+
+  describe('Host Controls', () => {
+    /**
+     * Verifies that the host sees and admits joiners waiting on another instance
+     */
+    test('should admit a joiner waiting on another instance', async () => {
+      mockMeetingLookup({ getMeetingByCode, getUserData }, { waiting_room: true });
+      const { nodeA, nodeB, join, joinHost } = setup();
+      const host = await joinHost(nodeA);
+      const alice = await join(nodeB, 'alice');
+      await settle();
+
+      expect(alice.eventsNamed('waiting-room')).toEqual([{ meetingId: MEETING }]);
+      expect(host.eventsNamed('waiting-room-updated').at(-1).waiting).toEqual([
+        { socketId: 'alice', name: 'alice' },
+      ]);
+
+      host.trigger('admit-participant', { meetingId: MEETING, targetId: 'alice' });
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(alice.eventsNamed('partner-connected')).toHaveLength(1);
+      expect(host.eventsNamed('waiting-room-updated').at(-1).waiting).toEqual([]);
+    });
+
+    /**
+     * Verifies that the host can remove a participant held by another instance
+     */
+    test('should remove a participant on another instance', async () => {
+      const { nodeA, nodeB, join, joinHost } = setup();
+      const host = await joinHost(nodeA);
+      const alice = await join(nodeB, 'alice');
+
+      host.trigger('remove-participant', { meetingId: MEETING, targetId: 'alice' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(alice.eventsNamed('removed-from-meeting')).toEqual([{ meetingId: MEETING }]);
+      expect(host.eventsNamed('user-disconnected')).toEqual([{ socketId: 'alice' }]);
+      expect(host.eventsNamed('roster').at(-1).participants.map((entry: any) => entry.socketId)).toEqual([
+        'host',
+      ]);
+    });
+
+    /**
+     * Verifies that ending the meeting sends out participants on every instance
+     */
+    test('should end the meeting on every instance', async () => {
+      const { nodeA, nodeB, join, joinHost } = setup();
+      const host = await joinHost(nodeA);
+      const alice = await join(nodeB, 'alice');
+
+      host.trigger('end-meeting', { meetingId: MEETING });
+      await settle();
+
+      expect(host.eventsNamed('meeting-ended')).toEqual([{ meetingId: MEETING }]);
+      expect(alice.eventsNamed('meeting-ended')).toEqual([{ meetingId: MEETING }]);
+    });
+  });
+});
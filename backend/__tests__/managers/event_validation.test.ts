@@ -0,0 +1,191 @@
+import { jest } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  ALICE_AND_BOB,
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { clientEventValidators } = await import(
+  '../../src/managers/eventValidation.js'
+);
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+const setup = async () => {
+  const manager = new userManager();
+  const { alice, bob } = await joinSeats(manager, ALICE_AND_BOB);
+  await jest.advanceTimersByTimeAsync(500);
+
+  return { manager, alice, bob };
+};
+
+// Event names declared in one of the contract's maps
+const eventNamesIn = (source: string, map: string) => {
+  const body = source.slice(source.indexOf(map));
+  const block = body.slice(0, body.indexOf('\n}'));
+  return [...block.matchAll(/^\s+["']?([\w-]+)["']?: \(/gm)].map((m) => m[1]).sort();
+};
+
+describe('Socket event validation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Malformed payloads', () => {
+    /**
+     * Verifies that a join without a meeting id is rejected before any lookup
+     */
+    test('should reject a malformed join-meeting', async () => {
+      const manager = new userManager();
+      const socket = createFakeSocket('alice');
+      manager.addUser(socket, guestIdentity(MEETING, 'Alice'));
+
+      socket.trigger('join-meeting', { name: 'Alice' });
+      socket.trigger('join-meeting', 'ABC123');
+      socket.trigger('join-meeting', undefined);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(getMeetingByCode).not.toHaveBeenCalled();
+      expect(socket.eventsNamed('error')).toEqual([
+        { event: 'join-meeting', message: 'Malformed join-meeting payload' },
+        { event: 'join-meeting', message: 'Malformed join-meeting payload' },
+        { event: 'join-meeting', message: 'Malformed join-meeting payload' },
+      ]);
+    });
+
+    /**
+     * Verifies that signaling with the wrong shape is not relayed to the peer
+     */
+    test('should not relay malformed signaling', async () => {
+      const { alice, bob } = await setup();
+
+      bob.trigger('offer', { roomId: MEETING, sdp: { type: 'offer' }, targetId: 'alice' });
+      bob.trigger('answer', { roomId: MEETING, targetId: 'alice' });
+      bob.trigger('ice-candidate', { roomId: MEETING, candidate: 'c1', targetId: 'alice' });
+
+      expect(alice.eventsNamed('offer')).toHaveLength(0);
+      expect(alice.eventsNamed('answer')).toHaveLength(0);
+      expect(alice.eventsNamed('add-ice-candidate')).toHaveLength(0);
+      expect(bob.eventsNamed('error').map((e) => e.event)).toEqual([
+        'offer',
+        'answer',
+        'ice-candidate',
+      ]);
+    });
+
+    /**
+     * Verifies that oversized and non-binary overlay frames are dropped
+     */
+    test('should reject overlay frames that are not small binaries', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('overlay-data', { meetingId: MEETING, frame: 'not binary' });
+      alice.trigger('overlay-data', { meetingId: MEETING, frame: Buffer.alloc(8192) });
+      alice.trigger('overlay-data', { meetingId: MEETING, frame: Buffer.alloc(16), targetIds: 'bob' });
+
+      expect(bob.eventsNamed('overlay-data')).toHaveLength(0);
+      expect(alice.eventsNamed('error')).toHaveLength(3);
+    });
+
+    /**
+     * Verifies that host controls with missing fields never reach the handler
+     */
+    test('should reject host controls with missing fields', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('lock-meeting', { meetingId: MEETING, locked: 'yes' });
+      alice.trigger('remove-participant', { meetingId: MEETING });
+
+      expect(bob.eventsNamed('meeting-lock-changed')).toHaveLength(0);
+      expect(bob.eventsNamed('removed-from-meeting')).toHaveLength(0);
+      expect(alice.eventsNamed('error').map((e) => e.event)).toEqual([
+        'lock-meeting',
+        'remove-participant',
+      ]);
+    });
+
+    /**
+     * Verifies that well-formed messages pass through without an error
+     */
+    test('should accept well-formed payloads', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'hello' });
+      bob.trigger('ice-candidate', {
+        roomId: MEETING,
+        candidate: { candidate: 'c1', sdpMid: '0', sdpMLineIndex: 0 },
+        targetId: 'alice',
+      });
+
+      expect(bob.eventsNamed('chat-message')).toHaveLength(1);
+      expect(alice.eventsNamed('add-ice-candidate')).toHaveLength(1);
+      expect(alice.eventsNamed('error')).toHaveLength(0);
+      expect(bob.eventsNamed('error')).toHaveLength(0);
+    });
+  });
+
+  describe('Failing handlers', () => {
+    /**
+     * Verifies that a handler that rejects answers with an error instead of crashing
+     */
+    test('should report a handler failure to the sender', async () => {
+      (getMeetingByCode as any).mockRejectedValue(new Error('database down'));
+      const manager = new userManager();
+      const socket = createFakeSocket('alice');
+      manager.addUser(socket, guestIdentity(MEETING, 'Alice'));
+
+      socket.trigger('join-meeting', { meetingId: MEETING, name: 'Alice' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(socket.eventsNamed('error')).toEqual([
+        { event: 'join-meeting', message: 'Could not handle join-meeting' },
+      ]);
+    });
+  });
+
+  describe('Contract', () => {
+    /**
+     * Verifies that every client event in the shared contract has a validator
+     */
+    test('should validate every client event', () => {
+      const source = readFileSync(
+        new URL('../../../shared/socketEvents.ts', import.meta.url),
+        'utf8'
+      );
+
+      expect(Object.keys(clientEventValidators).sort()).toEqual(
+        eventNamesIn(source, 'interface ClientToServerEvents')
+      );
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+import { encodeLandmarkFrame } from '../../../shared/landmarkCodec.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// A valid overlay frame with the face cleared
+const clearedFrame = Buffer.from(
+  encodeLandmarkFrame({
+    seq: 1,
+    capturedAt: Date.now(),
+    landmarks: null,
+  })
+);
+
+// Joins the owner and two other participants to the same meeting
+const setupMeeting = async () => {
+  const manager = new userManager();
+  const { host, member, guest } = await joinSeats(manager, {
+    host: { identity: userIdentity('owner-1', 'Host') },
+    member: { identity: userIdentity('u2', 'Member') },
+    guest: { identity: guestIdentity(MEETING, 'Guest') },
+  });
+
+  return { manager, host, member, guest };
+};
+
+describe('userManager host controls', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Host Role', () => {
+    /**
+     * Verifies that only the meeting owner is told they are the host
+     */
+    test('should flag the owner as host in meeting info', async () => {
+      const { host, member, guest } = await setupMeeting();
+
+      expect(host.eventsNamed('meeting-info')[0].isHost).toBe(true);
+      expect(member.eventsNamed('meeting-info')[0].isHost).toBe(false);
+      expect(guest.eventsNamed('meeting-info')[0].isHost).toBe(false);
+    });
+
+    /**
+     * Verifies that host commands from other participants are ignored
+     */
+    test('should ignore moderation commands from non-hosts', async () => {
+      const { member, guest, host } = await setupMeeting();
+
+      member.trigger('remove-participant', { meetingId: MEETING, targetId: 'guest' });
+      guest.trigger('end-meeting', { meetingId: MEETING });
+      member.trigger('lock-meeting', { meetingId: MEETING, locked: true });
+
+      expect(guest.eventsNamed('removed-from-meeting')).toHaveLength(0);
+      expect(host.eventsNamed('meeting-ended')).toHaveLength(0);
+      expect(host.eventsNamed('meeting-lock-changed')).toHaveLength(0);
+    });
+  });
+
+  describe('Remove Participant', () => {
+    /**
+     * Verifies that a removed participant is told and the others drop them
+     */
+    test('should remove the target and notify the remaining peers', async () => {
+      const { host, member, guest } = await setupMeeting();
+
+      host.trigger('remove-participant', { meetingId: MEETING, targetId: 'guest' });
+
+      expect(guest.eventsNamed('removed-from-meeting')).toEqual([{ meetingId: MEETING }]);
+      expect(host.eventsNamed('user-disconnected')).toEqual([{ socketId: 'guest' }]);
+      expect(member.eventsNamed('user-disconnected')).toEqual([{ socketId: 'guest' }]);
+    });
+
+    /**
+     * Verifies that a removed participant no longer receives meeting traffic
+     */
+    test('should stop relaying to a removed participant', async () => {
+      const { host, member, guest } = await setupMeeting();
+
+      host.trigger('remove-participant', { meetingId: MEETING, targetId: 'guest' });
+      member.trigger('overlay-data', {
+        meetingId: MEETING,
+        frame: clearedFrame,
+      });
+
+      expect(guest.eventsNamed('overlay-data')).toHaveLength(0);
+      expect(host.eventsNamed('overlay-data')).toHaveLength(1);
+    });
+  });
+
+  describe('Lock Meeting', () => {
+    /**
+     * Verifies that new joiners are rejected while the meeting is locked
+     */
+    test('should reject joiners while locked', async () => {
+      const { manager, host, member } = await setupMeeting();
+      const latecomer = createFakeSocket('late');
+      manager.addUser(latecomer, userIdentity('u4'));
+
+      host.trigger('lock-meeting', { meetingId: MEETING, locked: true });
+      await manager.handleJoinMeeting(latecomer, MEETING, 'Late');
+
+      expect(member.eventsNamed('meeting-lock-changed')).toEqual([
+        { meetingId: MEETING, locked: true },
+      ]);
+      expect(latecomer.eventsNamed('join-error')[0].code).toBe('MEETING_LOCKED');
+    });
+
+    /**
+     * Verifies that unlocking lets joiners in again
+     */
+    test('should admit joiners after unlocking', async () => {
+      const { manager, host } = await setupMeeting();
+      const latecomer = createFakeSocket('late');
+      manager.addUser(latecomer, userIdentity('u4'));
+
+      host.trigger('lock-meeting', { meetingId: MEETING, locked: true });
+      host.trigger('lock-meeting', { meetingId: MEETING, locked: false });
+      await manager.handleJoinMeeting(latecomer, MEETING, 'Late');
+
+      expect(latecomer.eventsNamed('join-error')).toHaveLength(0);
+      expect(latecomer.eventsNamed('partner-connected')).toHaveLength(1);
+    });
+  });
+
+  describe('Request Mute', () => {
+    /**
+     * Verifies that only the targeted participant receives a mute request
+     */
+    test('should send the mute request to the target only', async () => {
+      const { host, member, guest } = await setupMeeting();
+
+      host.trigger('request-mute', { meetingId: MEETING, targetId: 'member' });
+
+      expect(member.eventsNamed('mute-requested')).toEqual([{ meetingId: MEETING }]);
+      expect(guest.eventsNamed('mute-requested')).toHaveLength(0);
+    });
+  });
+
+  describe('End Meeting', () => {
+    /**
+     * Verifies that ending the meeting notifies and removes everyone
+     */
+    test('should notify every participant and close the meeting', async () => {
+      const { manager, host, member, guest } = await setupMeeting();
+
+      host.trigger('end-meeting', { meetingId: MEETING });
+      member.trigger('overlay-data', {
+        meetingId: MEETING,
+        frame: clearedFrame,
+      });
+
+      for (const socket of [host, member, guest]) {
+        expect(socket.eventsNamed('meeting-ended')).toEqual([{ meetingId: MEETING }]);
+      }
+      expect(host.eventsNamed('overlay-data')).toHaveLength(0);
+
+      // The lock and room state are gone, so the meeting can start fresh
+      const rejoin = createFakeSocket('rejoin');
+      manager.addUser(rejoin, userIdentity('u5'));
+      await manager.handleJoinMeeting(rejoin, MEETING, 'Again');
+      expect(rejoin.eventsNamed('waiting')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  meetingRow,
+  mockMeetingLookup,
+  settle,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+describe('userManager join-meeting', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    process.env = { ...originalEnv };
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('Meeting Lookup', () => {
+    /**
+     * Verifies that unknown meeting codes are rejected with a typed error
+     */
+    test('should reject an unknown meeting code', async () => {
+      (getMeetingByCode as any).mockResolvedValue({ data: null, error: null });
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, userIdentity('u1'));
+
+      await manager.handleJoinMeeting(socket, 'NOPE', 'A');
+
+      expect(socket.eventsNamed('join-error')).toEqual([
+        { code: 'MEETING_NOT_FOUND', message: 'No meeting exists with this code' },
+      ]);
+      expect(socket.eventsNamed('waiting')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that a lookup failure is reported instead of joining
+     */
+    test('should report lookup failures', async () => {
+      (getMeetingByCode as any).mockResolvedValue({
+        data: null,
+        error: { message: 'db down' },
+      });
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, userIdentity('u1'));
+
+      await manager.handleJoinMeeting(socket, MEETING, 'A');
+
+      expect(socket.eventsNamed('join-error')[0].code).toBe('LOOKUP_FAILED');
+    });
+
+    /**
+     * Verifies that joiners are told the meeting title and host
+     */
+    test('should send meeting info to a valid joiner', async () => {
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, userIdentity('u1'));
+
+      await manager.handleJoinMeeting(socket, MEETING, 'A');
+
+      expect(socket.eventsNamed('meeting-info')).toEqual([
+        expect.objectContaining({
+          meetingId: MEETING,
+          title: 'Team Sync',
+          hostName: 'Host Person',
+        }),
+      ]);
+      expect(socket.eventsNamed('waiting')).toHaveLength(1);
+    });
+  });
+
+  describe('Guest Scope', () => {
+    /**
+     * Verifies that a guest token for one meeting cannot join another
+     */
+    test('should reject guests joining a different meeting', async () => {
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, guestIdentity('OTHER'));
+
+      await manager.handleJoinMeeting(socket, MEETING, 'G');
+
+      expect(socket.eventsNamed('join-error')[0].code).toBe('GUEST_NOT_ALLOWED');
+      expect(getMeetingByCode).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Verifies that an over-long name on an older guest token is capped in the roster
+     */
+    test('should cap guest display names', async () => {
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, guestIdentity(MEETING, 'G'.repeat(500)));
+
+      await manager.handleJoinMeeting(socket, MEETING, 'ignored');
+      await settle();
+
+      const [roster] = socket.eventsNamed('roster');
+      expect(roster.participants[0].name).toBe('G'.repeat(60));
+    });
+  });
+
+  describe('Join Window', () => {
+    /**
+     * Verifies that joins earlier than the configured window are rejected
+     */
+    test('should reject joins before the window opens', async () => {
+      process.env.JOIN_WINDOW_EARLY_MINUTES = '10';
+      const inOneHour = new Date(Date.now() + 60 * 60_000).toISOString();
+      (getMeetingByCode as any).mockResolvedValue({
+        data: meetingRow({ meeting_time: inOneHour }),
+        error: null,
+      });
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, userIdentity('u1'));
+
+      await manager.handleJoinMeeting(socket, MEETING, 'A');
+
+      expect(socket.eventsNamed('join-error')[0].code).toBe('MEETING_NOT_STARTED');
+    });
+
+    /**
+     * Verifies that joins after the configured window are rejected
+     */
+    test('should reject joins after the window closes', async () => {
+      process.env.JOIN_WINDOW_LATE_MINUTES = '60';
+      const yesterday = new Date(Date.now() - 24 * 60 * 60_000).toISOString();
+      (getMeetingByCode as any).mockResolvedValue({
+        data: meetingRow({ meeting_time: yesterday }),
+        error: null,
+      });
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, userIdentity('u1'));
+
+      await manager.handleJoinMeeting(socket, MEETING, 'A');
+
+      expect(socket.eventsNamed('join-error')[0].code).toBe('MEETING_ENDED');
+    });
+
+    /**
+     * Verifies that the window is not enforced unless configured
+     */
+    test('should allow any time when no window is configured', async () => {
+      delete process.env.JOIN_WINDOW_EARLY_MINUTES;
+      delete process.env.JOIN_WINDOW_LATE_MINUTES;
+      const nextYear = new Date(Date.now() + 365 * 24 * 60 * 60_000).toISOString();
+      (getMeetingByCode as any).mockResolvedValue({
+        data: meetingRow({ meeting_time: nextYear }),
+        error: null,
+      });
+      const manager = new userManager();
+      const socket = createFakeSocket('s1');
+      manager.addUser(socket, userIdentity('u1'));
+
+      await manager.handleJoinMeeting(socket, MEETING, 'A');
+
+      expect(socket.eventsNamed('join-error')).toHaveLength(0);
+      expect(socket.eventsNamed('waiting')).toHaveLength(1);
+    });
+  });
+
+  describe('Capacity', () => {
+    /**
+     * Verifies that joiners beyond the participant cap are rejected
+     */
+    test('should reject joiners once the meeting is full', async () => {
+      const manager = new userManager(2);
+      const sockets = ['s1', 's2', 's3'].map((id) => createFakeSocket(id));
+      sockets.forEach((s, i) => manager.addUser(s, userIdentity(`u${i}`)));
+
+      for (const s of sockets) {
+        await manager.handleJoinMeeting(s, MEETING, s.id);
+      }
+
+      expect(sockets[0]!.eventsNamed('partner-connected')).toHaveLength(1);
+      expect(sockets[1]!.eventsNamed('partner-connected')).toHaveLength(1);
+      expect(sockets[2]!.eventsNamed('join-error')[0].code).toBe('MEETING_FULL');
+    });
+  });
+});
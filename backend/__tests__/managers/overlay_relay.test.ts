@@ -0,0 +1,232 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  ALICE_AND_BOB,
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+import {
+  encodeLandmarkFrame,
+  ENCRYPTED_FRAME_IV_BYTES,
+  ENCRYPTED_FRAME_VERSION,
+  RENDER_LANDMARK_INDICES,
+} from '../../../shared/landmarkCodec.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// Three participants in a live meeting
+const setup = async () => {
+  const manager = new userManager();
+  const { alice, bob, carol } = await joinSeats(manager, {
+    ...ALICE_AND_BOB,
+    carol: { identity: guestIdentity(MEETING, 'Carol') },
+  });
+
+  return { manager, alice, bob, carol };
+};
+
+const config = {
+  meetingId: MEETING,
+  overlayId: 12,
+  overlayUrl: 'https://cdn.example.com/overlays/fox.png',
+  opacity: 0.6,
+  blendMode: 'multiply',
+  enabled: true,
+};
+
+const landmarks: { x: number; y: number; z: number }[] = [];
+for (const index of RENDER_LANDMARK_INDICES) {
+  landmarks[index] = { x: 0.5, y: 0.5, z: 0 };
+}
+
+const frame = {
+  meetingId: MEETING,
+  frame: Buffer.from(
+    encodeLandmarkFrame({
+      seq: 1,
+      capturedAt: Date.now(),
+      landmarks,
+    })
+  ),
+};
+
+describe('userManager overlay relay', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Fallback Targets', () => {
+    /**
+     * Verifies that overlay data goes to every other participant by default
+     */
+    test('should relay to all other participants without targets', async () => {
+      const { alice, bob, carol } = await setup();
+
+      alice.trigger('overlay-data', frame);
+
+      expect(bob.eventsNamed('overlay-data')).toEqual([
+        { socketId: 'alice', frame: frame.frame },
+      ]);
+      expect(carol.eventsNamed('overlay-data')).toHaveLength(1);
+      expect(alice.eventsNamed('overlay-data')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that only peers without an open data channel get the relay
+     */
+    test('should relay only to the listed targets', async () => {
+      const { alice, bob, carol } = await setup();
+
+      alice.trigger('overlay-data', { ...frame, targetIds: ['carol'] });
+
+      expect(bob.eventsNamed('overlay-data')).toHaveLength(0);
+      expect(carol.eventsNamed('overlay-data')).toHaveLength(1);
+    });
+
+    /**
+     * Verifies that targets outside the meeting are never reached
+     */
+    test('should ignore targets that are not in the meeting', async () => {
+      const { alice, bob, carol } = await setup();
+
+      alice.trigger('overlay-data', { ...frame, targetIds: ['mallory'] });
+
+      expect(bob.eventsNamed('overlay-data')).toHaveLength(0);
+      expect(carol.eventsNamed('overlay-data')).toHaveLength(0);
+    });
+  });
+
+  describe('Validation', () => {
+    /**
+     * Verifies that frames the codec cannot decode are not relayed
+     */
+    test('should drop malformed frames', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('overlay-data', {
+        meetingId: MEETING,
+        frame: Buffer.from([1, 2, 3]),
+      });
+      alice.trigger('overlay-data', {
+        meetingId: MEETING,
+        landmarks: [{ x: 0.5, y: 0.5, z: 0 }],
+      });
+
+      expect(bob.eventsNamed('overlay-data')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that end-to-end encrypted frames are passed through unread
+     */
+    test('should relay sealed frames of a valid size', async () => {
+      const { alice, bob } = await setup();
+      const sealed = Buffer.alloc(
+        1 + ENCRYPTED_FRAME_IV_BYTES + frame.frame.byteLength + 16,
+        9
+      );
+      sealed[0] = ENCRYPTED_FRAME_VERSION;
+
+      alice.trigger('overlay-data', { meetingId: MEETING, frame: sealed });
+      alice.trigger('overlay-data', {
+        meetingId: MEETING,
+        frame: sealed.subarray(0, sealed.byteLength - 3),
+      });
+
+      expect(bob.eventsNamed('overlay-data')).toEqual([
+        { socketId: 'alice', frame: sealed },
+      ]);
+    });
+  });
+  describe('Overlay Config', () => {
+    /**
+     * Verifies that a config change reaches everyone else once
+     */
+    test('should broadcast overlay config to the other participants', async () => {
+      const { alice, bob, carol } = await setup();
+
+      alice.trigger('overlay-config', config);
+
+      const { meetingId: _meetingId, ...expected } = config;
+      expect(bob.eventsNamed('overlay-config')).toEqual([
+        { socketId: 'alice', ...expected },
+      ]);
+      expect(carol.eventsNamed('overlay-config')).toHaveLength(1);
+      expect(alice.eventsNamed('overlay-config')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that late joiners are sent the current config of everyone present
+     */
+    test('should replay the latest config to late joiners', async () => {
+      const { manager, alice } = await setup();
+      alice.trigger('overlay-config', config);
+      alice.trigger('overlay-config', { ...config, opacity: 0.3 });
+
+      const dave = createFakeSocket('dave');
+      manager.addUser(dave, guestIdentity(MEETING, 'Dave'));
+      await manager.handleJoinMeeting(dave, MEETING, 'Dave');
+
+      expect(dave.eventsNamed('overlay-config')).toEqual([
+        expect.objectContaining({ socketId: 'alice', opacity: 0.3 }),
+      ]);
+    });
+
+    /**
+     * Verifies that invalid configs are neither stored nor relayed
+     */
+    test('should ignore invalid overlay config', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('overlay-config', { ...config, opacity: 4 });
+      alice.trigger('overlay-config', { ...config, blendMode: 'difference' });
+      alice.trigger('overlay-config', { ...config, overlayUrl: '' });
+
+      expect(bob.eventsNamed('overlay-config')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that a departed participant's config is not replayed
+     */
+    test('should forget the config of participants who leave', async () => {
+      const { manager, alice } = await setup();
+      alice.trigger('overlay-config', config);
+      manager.removeUser('alice');
+      jest.advanceTimersByTime(30_000);
+
+      const dave = createFakeSocket('dave');
+      manager.addUser(dave, guestIdentity(MEETING, 'Dave'));
+      await manager.handleJoinMeeting(dave, MEETING, 'Dave');
+
+      expect(dave.eventsNamed('overlay-config')).toHaveLength(0);
+    });
+  });
+});
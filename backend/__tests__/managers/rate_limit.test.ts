@@ -0,0 +1,296 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  type FakeSocket,
+} from '../helpers/fake_socket.js';
+import {
+  ALICE_AND_BOB,
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+import {
+  encodeLandmarkFrame,
+  RENDER_LANDMARK_INDICES,
+} from '../../../shared/landmarkCodec.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { loadRateLimits, transportBufferBytes, DEFAULT_EVENT_BUDGETS } = await import(
+  '../../src/managers/rateLimiter.js'
+);
+const { renderMetrics } = await import('../../src/telemetry/metrics.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+const setup = async () => {
+  const manager = new userManager();
+  const { alice, bob } = await joinSeats(manager, ALICE_AND_BOB);
+  await jest.advanceTimersByTimeAsync(500);
+
+  return { manager, alice, bob };
+};
+
+// Emits the same event `count` times within a single tick
+const burst = (socket: FakeSocket, event: string, payload: unknown, count: number) => {
+  for (let i = 0; i < count; i++) {
+    socket.trigger(event, payload);
+  }
+};
+
+const landmarks: { x: number; y: number; z: number }[] = [];
+for (const index of RENDER_LANDMARK_INDICES) {
+  landmarks[index] = { x: 0.5, y: 0.5, z: 0 };
+}
+
+const frame = () => ({
+  meetingId: MEETING,
+  frame: Buffer.from(encodeLandmarkFrame({ seq: 1, capturedAt: Date.now(), landmarks })),
+  targetIds: ['bob'],
+});
+
+const metricValue = (name: string) => {
+  const line = renderMetrics().split('\n').find((l) => l.startsWith(`${name} `));
+  return Number(line?.split(' ')[1] ?? 0);
+};
+
+describe('Socket rate limits', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T10:00:00.000Z'));
+    process.env = { ...originalEnv };
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = originalEnv;
+  });
+
+  describe('Bursts', () => {
+    /**
+     * Verifies that frames beyond the burst allowance are dropped with an error
+     */
+    test('should drop overlay frames beyond the burst', async () => {
+      const { alice, bob } = await setup();
+
+      burst(alice, 'overlay-data', frame(), 90);
+
+      expect(bob.eventsNamed('overlay-data')).toHaveLength(80);
+      expect(alice.eventsNamed('error')).toHaveLength(10);
+      expect(alice.eventsNamed('error')[0]).toEqual({
+        event: 'overlay-data',
+        message: 'Too many overlay-data messages',
+      });
+      expect(alice.disconnected).toBe(false);
+    });
+
+    /**
+     * Verifies that the budget refills over time
+     */
+    test('should accept frames again once the bucket refills', async () => {
+      const { alice, bob } = await setup();
+      burst(alice, 'overlay-data', frame(), 80);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      burst(alice, 'overlay-data', frame(), 45);
+
+      expect(bob.eventsNamed('overlay-data')).toHaveLength(120);
+      expect(alice.eventsNamed('error')).toHaveLength(5);
+    });
+
+    /**
+     * Verifies that each event type has its own budget
+     */
+    test('should limit each event separately', async () => {
+      const { alice, bob } = await setup();
+
+      burst(alice, 'overlay-data', frame(), 85);
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'still here' });
+      alice.trigger('offer', { roomId: MEETING, sdp: 'offer-sdp', targetId: 'bob' });
+
+      expect(bob.eventsNamed('chat-message')).toHaveLength(1);
+      expect(bob.eventsNamed('offer')).toHaveLength(1);
+    });
+
+    /**
+     * Verifies that an offer flood is cut off at the signaling budget
+     */
+    test('should not forward an offer flood', async () => {
+      const { alice, bob } = await setup();
+
+      burst(bob, 'offer', { roomId: MEETING, sdp: 'offer-sdp', targetId: 'alice' }, 30);
+
+      expect(alice.eventsNamed('offer')).toHaveLength(DEFAULT_EVENT_BUDGETS.offer.burst);
+    });
+
+    /**
+     * Verifies that repeated joins stop reaching the database
+     */
+    test('should stop looking up meetings for a join flood', async () => {
+      const manager = new userManager();
+      const socket = createFakeSocket('alice');
+      manager.addUser(socket, guestIdentity(MEETING, 'Alice'));
+
+      burst(socket, 'join-meeting', { meetingId: MEETING, name: 'Alice' }, 50);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect((getMeetingByCode as any).mock.calls.length).toBeLessThanOrEqual(
+        DEFAULT_EVENT_BUDGETS['join-meeting'].burst
+      );
+      expect(socket.disconnected).toBe(true);
+    });
+  });
+
+  describe('Payload size', () => {
+    /**
+     * Verifies that an oversized payload is rejected before validation
+     */
+    test('should reject payloads over the size limit', async () => {
+      const { alice, bob } = await setup();
+
+      alice.trigger('offer', { roomId: MEETING, sdp: 'x'.repeat(200 * 1024), targetId: 'bob' });
+
+      expect(bob.eventsNamed('offer')).toHaveLength(0);
+      expect(alice.eventsNamed('error')).toEqual([
+        { event: 'offer', message: 'offer payload too large' },
+      ]);
+    });
+
+    /**
+     * Verifies that the size limit is configurable
+     */
+    test('should honour SOCKET_MAX_PAYLOAD_BYTES', async () => {
+      process.env.SOCKET_MAX_PAYLOAD_BYTES = '100';
+      const { alice, bob } = await setup();
+
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'x'.repeat(200) });
+      alice.trigger('chat-message', { meetingId: MEETING, text: 'short' });
+
+      expect(bob.eventsNamed('chat-message').map((m) => m.text)).toEqual(['short']);
+    });
+
+    /**
+     * Verifies that the transport limit follows the payload limit with a little headroom
+     */
+    test('should size the transport buffer from the payload limit', () => {
+      const defaults = transportBufferBytes(loadRateLimits({} as NodeJS.ProcessEnv));
+      const raised = transportBufferBytes(
+        loadRateLimits({ SOCKET_MAX_PAYLOAD_BYTES: '1048576' } as NodeJS.ProcessEnv)
+      );
+
+      expect(defaults).toBeGreaterThan(128 * 1024);
+      expect(defaults).toBeLessThan(1e6);
+      expect(raised).toBeGreaterThan(1048576);
+      expect(raised).toBeLessThan(1.1 * 1048576);
+    });
+  });
+
+  describe('Repeat offenders', () => {
+    /**
+     * Verifies that a socket that keeps flooding after being told to stop is disconnected
+     */
+    test('should disconnect a socket that keeps flooding', async () => {
+      const { alice, bob } = await setup();
+
+      burst(alice, 'overlay-data', frame(), 200);
+
+      expect(alice.disconnected).toBe(true);
+      // The burst, then one error per strike before the cut-off
+      expect(bob.eventsNamed('overlay-data')).toHaveLength(80);
+      expect(alice.eventsNamed('error')).toHaveLength(20);
+    });
+
+    /**
+     * Verifies that occasional limit hits are forgiven over time
+     */
+    test('should forgive strikes spread out over time', async () => {
+      const { alice } = await setup();
+
+      for (let i = 0; i < 40; i++) {
+        burst(alice, 'recording-state', { meetingId: MEETING, recording: false }, 6);
+        await jest.advanceTimersByTimeAsync(3000);
+      }
+
+      expect(alice.disconnected).toBe(false);
+    });
+
+    /**
+     * Verifies that the server's disconnect handler runs for a dropped offender
+     */
+    test('should release the offender through the disconnect path', async () => {
+      const { manager, alice, bob } = await setup();
+      alice.on('disconnect', () => manager.removeUser(alice.id));
+
+      burst(alice, 'chat-message', { meetingId: MEETING, text: 'spam' }, 100);
+      await jest.advanceTimersByTimeAsync(60_000);
+
+      expect(bob.eventsNamed('user-disconnected')).toEqual([{ socketId: 'alice' }]);
+    });
+  });
+
+  describe('Configuration', () => {
+    /**
+     * Verifies that budgets can be overridden per event
+     */
+    test('should apply budgets from SOCKET_RATE_LIMITS', async () => {
+      process.env.SOCKET_RATE_LIMITS = 'chat-message=1:2';
+      const { alice, bob } = await setup();
+
+      burst(alice, 'chat-message', { meetingId: MEETING, text: 'hi' }, 5);
+
+      expect(bob.eventsNamed('chat-message')).toHaveLength(2);
+    });
+
+    /**
+     * Verifies that unknown events and malformed entries are ignored
+     */
+    test('should ignore invalid SOCKET_RATE_LIMITS entries', () => {
+      const limits = loadRateLimits({
+        SOCKET_RATE_LIMITS: 'made-up=1:1, offer=fast, answer=0:5, toString=1:1, ice-candidate=5:10',
+      } as NodeJS.ProcessEnv);
+
+      expect(limits.budgets.offer).toEqual(DEFAULT_EVENT_BUDGETS.offer);
+      expect(limits.budgets.answer).toEqual(DEFAULT_EVENT_BUDGETS.answer);
+      expect(limits.budgets['ice-candidate']).toEqual({ perSecond: 5, burst: 10 });
+      expect(Object.keys(limits.budgets)).toEqual(Object.keys(DEFAULT_EVENT_BUDGETS));
+    });
+  });
+
+  describe('Metrics', () => {
+    /**
+     * Verifies that limit hits and disconnects are exported
+     */
+    test('should count limit hits and flood disconnects', async () => {
+      const disconnectsBefore = metricValue('socket_flood_disconnects_total');
+      const { alice } = await setup();
+
+      burst(alice, 'overlay-data', frame(), 200);
+
+      expect(renderMetrics()).toMatch(
+        /socket_events_limited_total\{event="overlay-data",reason="rate"\} \d+/
+      );
+      expect(metricValue('socket_flood_disconnects_total')).toBe(disconnectsBefore + 1);
+    });
+  });
+});
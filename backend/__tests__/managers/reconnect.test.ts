@@ -0,0 +1,189 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  ALICE_AND_BOB,
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// Two participants in a live meeting
+const setup = async () => {
+  const manager = new userManager();
+  const { alice, bob } = await joinSeats(manager, ALICE_AND_BOB);
+
+  const token = bob.eventsNamed('reconnect-token')[0].token as string;
+  return { manager, alice, bob, token };
+};
+
+describe('userManager reconnection', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    process.env = { ...originalEnv };
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('Grace Window', () => {
+    /**
+     * Verifies that admitted participants receive a reconnect token
+     */
+    test('should issue a reconnect token on admission', async () => {
+      const { bob, token } = await setup();
+
+      expect(bob.eventsNamed('reconnect-token')[0].meetingId).toBe(MEETING);
+      expect(token.length).toBeGreaterThan(20);
+    });
+
+    /**
+     * Verifies that a dropped socket keeps its slot during the grace window
+     */
+    test('should hold the slot instead of disconnecting the peer', async () => {
+      const { manager, alice } = await setup();
+
+      manager.removeUser('bob');
+
+      expect(alice.eventsNamed('participant-reconnecting')).toEqual([
+        { socketId: 'bob' },
+      ]);
+      expect(alice.eventsNamed('user-disconnected')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that the slot is released once the grace window expires
+     */
+    test('should remove the participant after the grace window', async () => {
+      const { manager, alice } = await setup();
+
+      manager.removeUser('bob');
+      jest.advanceTimersByTime(30_000);
+
+      expect(alice.eventsNamed('user-disconnected')).toEqual([
+        { socketId: 'bob' },
+      ]);
+    });
+
+    /**
+     * Verifies that the grace window length comes from the environment
+     */
+    test('should honour RECONNECT_GRACE_SECONDS', async () => {
+      process.env.RECONNECT_GRACE_SECONDS = '5';
+      const { manager, alice } = await setup();
+
+      manager.removeUser('bob');
+      jest.advanceTimersByTime(5_000);
+
+      expect(alice.eventsNamed('user-disconnected')).toHaveLength(1);
+    });
+  });
+
+  describe('Resume', () => {
+    /**
+     * Verifies that a reconnecting socket takes over its old slot
+     */
+    test('should resume the session on a new socket', async () => {
+      const { manager, alice, token } = await setup();
+      manager.removeUser('bob');
+
+      const bobAgain = createFakeSocket('bob-2');
+      manager.addUser(bobAgain, guestIdentity(MEETING, 'Bob'));
+      await manager.handleJoinMeeting(bobAgain, MEETING, 'Bob', token);
+      jest.advanceTimersByTime(30_000);
+
+      expect(bobAgain.eventsNamed('session-resumed')).toEqual([
+        { meetingId: MEETING, previousId: 'bob' },
+      ]);
+      expect(bobAgain.eventsNamed('partner-connected')).toHaveLength(1);
+      expect(alice.eventsNamed('peer-reconnected')).toEqual([
+        { previousId: 'bob', socketId: 'bob-2' },
+      ]);
+      expect(alice.eventsNamed('user-disconnected')).toHaveLength(0);
+      // Resuming skips the meeting lookup entirely
+      expect(getMeetingByCode).toHaveBeenCalledTimes(2);
+    });
+
+    /**
+     * Verifies that signaling is routed to the resumed socket
+     */
+    test('should route signaling to the resumed socket', async () => {
+      const { manager, alice, token } = await setup();
+      manager.removeUser('bob');
+
+      const bobAgain = createFakeSocket('bob-2');
+      manager.addUser(bobAgain, guestIdentity(MEETING, 'Bob'));
+      await manager.handleJoinMeeting(bobAgain, MEETING, 'Bob', token);
+
+      alice.trigger('offer', { roomId: MEETING, sdp: 'restart', targetId: 'bob-2' });
+
+      expect(bobAgain.eventsNamed('offer')).toEqual([
+        { sdp: 'restart', roomId: MEETING, senderId: 'alice' },
+      ]);
+    });
+
+    /**
+     * Verifies that a token cannot be used by a different identity
+     */
+    test('should not resume a session for another identity', async () => {
+      const { manager, alice, token } = await setup();
+      manager.removeUser('bob');
+
+      const intruder = createFakeSocket('intruder');
+      manager.addUser(intruder, userIdentity('u9', 'Mallory'));
+      await manager.handleJoinMeeting(intruder, MEETING, 'Mallory', token);
+
+      expect(intruder.eventsNamed('session-resumed')).toHaveLength(0);
+      expect(alice.eventsNamed('peer-reconnected')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that an expired session falls back to a normal join
+     */
+    test('should join as new once the grace window has passed', async () => {
+      const { manager, token } = await setup();
+      manager.removeUser('bob');
+      jest.advanceTimersByTime(30_000);
+
+      const bobAgain = createFakeSocket('bob-2');
+      manager.addUser(bobAgain, guestIdentity(MEETING, 'Bob'));
+      await manager.handleJoinMeeting(bobAgain, MEETING, 'Bob', token);
+
+      expect(bobAgain.eventsNamed('session-resumed')).toHaveLength(0);
+      expect(bobAgain.eventsNamed('partner-connected')).toHaveLength(1);
+    });
+  });
+});
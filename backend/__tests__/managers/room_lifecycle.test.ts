@@ -0,0 +1,339 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  meetingRow,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// This meeting holds guests in a waiting room
+const LOBBY_MEETING = 'LOBBY1';
+
+type Manager = InstanceType<typeof userManager>;
+
+const join = async (manager: Manager, id: string, meetingId = MEETING, token: string | null = null) => {
+  const socket = createFakeSocket(id);
+  manager.addUser(socket, guestIdentity(meetingId, id));
+  await manager.handleJoinMeeting(socket, meetingId, id, token);
+  return socket;
+};
+
+const joinAsHost = async (manager: Manager, id: string, meetingId: string) => {
+  const socket = createFakeSocket(id);
+  manager.addUser(socket, userIdentity('owner-1', 'Host'));
+  await manager.handleJoinMeeting(socket, meetingId, 'Host');
+  return socket;
+};
+
+const expectNothingRetained = (manager: Manager) => {
+  for (const [name, size] of Object.entries(manager.retainedEntries())) {
+    expect([name, size]).toEqual([name, 0]);
+  }
+};
+
+describe('room lifecycle', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T10:00:00.000Z'));
+    process.env = { ...originalEnv };
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+    (getMeetingByCode as any).mockImplementation(async (code: string) => ({
+      data: meetingRow({ meeting_code: code, waiting_room: code === LOBBY_MEETING }),
+      error: null,
+    }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('States', () => {
+    /**
+     * Verifies that a room is created by its first participant and becomes active with the second
+     */
+    test('should move from created to active as peers join', async () => {
+      const manager = new userManager();
+
+      await join(manager, 'alice');
+      expect(manager.getRoomState(MEETING)).toBe('created');
+
+      await join(manager, 'bob');
+      expect(manager.getRoomState(MEETING)).toBe('active');
+    });
+
+    /**
+     * Verifies that a room drains while every participant is inside their reconnect window
+     */
+    test('should drain when every participant has dropped', async () => {
+      const manager = new userManager();
+      await join(manager, 'alice');
+      await join(manager, 'bob');
+
+      manager.removeUser('alice');
+      expect(manager.getRoomState(MEETING)).toBe('active');
+
+      manager.removeUser('bob');
+      expect(manager.getRoomState(MEETING)).toBe('draining');
+    });
+
+    /**
+     * Verifies that a resumed participant brings a draining room back
+     */
+    test('should leave draining when a participant resumes', async () => {
+      const manager = new userManager();
+      const alice = await join(manager, 'alice');
+      await join(manager, 'bob');
+      const token = alice.eventsNamed('reconnect-token')[0].token as string;
+
+      manager.removeUser('alice');
+      manager.removeUser('bob');
+      await join(manager, 'alice-2', MEETING, token);
+
+      expect(manager.getRoomState(MEETING)).toBe('active');
+    });
+
+    /**
+     * Verifies that a room closes and releases everything once the grace window runs out
+     */
+    test('should close once the last reconnect window expires', async () => {
+      const manager = new userManager();
+      await join(manager, 'alice');
+      await join(manager, 'bob');
+
+      manager.removeUser('alice');
+      manager.removeUser('bob');
+      jest.advanceTimersByTime(30_000);
+
+      expect(manager.getRoomState(MEETING)).toBe('closed');
+      expectNothingRetained(manager);
+    });
+
+    /**
+     * Verifies that joining after a room closed starts a fresh room without the old sockets
+     */
+    test('should not reuse a closed room', async () => {
+      const manager = new userManager();
+      await join(manager, 'alice');
+      await join(manager, 'bob');
+      manager.removeUser('alice');
+      manager.removeUser('bob');
+      jest.advanceTimersByTime(30_000);
+
+      const carol = await join(manager, 'carol');
+      jest.advanceTimersByTime(500);
+
+      expect(manager.getRoomState(MEETING)).toBe('created');
+      expect(carol.eventsNamed('send-offer')).toHaveLength(0);
+      expect(carol.eventsNamed('waiting')).toHaveLength(1);
+    });
+  });
+
+  describe('Dropped Peers', () => {
+    /**
+     * Verifies that a newcomer is not asked to offer to a socket that has dropped
+     */
+    test('should skip offers to participants awaiting a reconnect', async () => {
+      const manager = new userManager();
+      await join(manager, 'alice');
+      await join(manager, 'bob');
+      manager.removeUser('bob');
+
+      const carol = await join(manager, 'carol');
+      jest.advanceTimersByTime(500);
+
+      expect(carol.eventsNamed('send-offer')).toEqual([
+        { roomId: MEETING, targetId: 'alice' },
+      ]);
+    });
+
+    /**
+     * Verifies that peers who joined during the outage connect to the resumed socket
+     */
+    test('should connect late joiners to a resumed participant', async () => {
+      const manager = new userManager();
+      await join(manager, 'alice');
+      const bob = await join(manager, 'bob');
+      const token = bob.eventsNamed('reconnect-token')[0].token as string;
+      manager.removeUser('bob');
+
+      const carol = await join(manager, 'carol');
+      jest.advanceTimersByTime(500);
+      await join(manager, 'bob-2', MEETING, token);
+
+      expect(carol.eventsNamed('send-offer')).toEqual([
+        { roomId: MEETING, targetId: 'alice' },
+        { roomId: MEETING, targetId: 'bob-2' },
+      ]);
+    });
+  });
+
+  describe('Sweeper', () => {
+    /**
+     * Verifies that a room left draining is closed once it outlives ROOM_IDLE_TTL_SECONDS
+     */
+    test('should close rooms draining past the TTL', async () => {
+      process.env.RECONNECT_GRACE_SECONDS = '3600';
+      process.env.ROOM_IDLE_TTL_SECONDS = '60';
+      const manager = new userManager();
+      await join(manager, 'alice');
+      await join(manager, 'bob');
+      manager.removeUser('alice');
+      manager.removeUser('bob');
+
+      expect(manager.sweep(Date.now() + 59_000)).toEqual([]);
+      expect(manager.getRoomState(MEETING)).toBe('draining');
+
+      expect(manager.sweep(Date.now() + 60_000)).toEqual([MEETING]);
+      expect(manager.getRoomState(MEETING)).toBe('closed');
+      expectNothingRetained(manager);
+    });
+
+    /**
+     * Verifies that rooms with someone connected are left alone
+     */
+    test('should keep live rooms', async () => {
+      const manager = new userManager();
+      await join(manager, 'alice');
+      await join(manager, 'bob');
+
+      expect(manager.sweep(Date.now() + 24 * 3600_000)).toEqual([]);
+      expect(manager.getRoomState(MEETING)).toBe('active');
+    });
+
+    /**
+     * Verifies that sockets which died without a disconnect event are released
+     */
+    test('should drop sockets that vanished without disconnecting', async () => {
+      const manager = new userManager();
+      const alice = await join(manager, 'alice');
+      const bob = await join(manager, 'bob');
+
+      alice.disconnected = true;
+      manager.sweep();
+
+      expect(bob.eventsNamed('participant-reconnecting')).toEqual([
+        { socketId: 'alice' },
+      ]);
+      expect(manager.getStats().connectedSockets).toBe(1);
+    });
+
+    /**
+     * Verifies that the sweeper runs on its interval until stopped
+     */
+    test('should sweep on an interval until stopped', async () => {
+      const manager = new userManager();
+      const alice = await join(manager, 'alice');
+      const sweep = jest.spyOn(manager, 'sweep');
+
+      manager.startSweeper(10_000);
+      jest.advanceTimersByTime(30_000);
+      expect(sweep).toHaveBeenCalledTimes(3);
+
+      manager.stopSweeper();
+      alice.disconnected = true;
+      jest.advanceTimersByTime(30_000);
+      expect(sweep).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('Churn', () => {
+    /**
+     * Verifies that repeated joins, drops, resumes and leaves across meetings leave nothing behind
+     */
+    test('should not leak entries under join and leave churn', async () => {
+      const manager = new userManager();
+      const meetings = ['MEET01', 'MEET02', 'MEET03'];
+
+      for (let round = 0; round < 20; round++) {
+        const meetingId = meetings[round % meetings.length]!;
+        const sockets = [];
+
+        for (let i = 0; i < 4; i++) {
+          sockets.push(await join(manager, `r${round}-s${i}`, meetingId));
+        }
+        jest.advanceTimersByTime(500);
+
+        // One drops and comes back, one drops for good, the rest just leave
+        const [resuming, dropping, ...leaving] = sockets;
+        const token = resuming!.eventsNamed('reconnect-token')[0].token as string;
+        manager.removeUser(resuming!.id);
+        const resumed = await join(manager, `r${round}-resumed`, meetingId, token);
+        manager.removeUser(dropping!.id);
+
+        for (const socket of [...leaving, resumed]) {
+          manager.removeUser(socket.id);
+        }
+        jest.advanceTimersByTime(30_000);
+      }
+
+      for (const meetingId of meetings) {
+        expect(manager.getRoomState(meetingId)).toBe('closed');
+      }
+      expectNothingRetained(manager);
+    });
+
+    /**
+     * Verifies that waiting room traffic and rejected joins leave nothing behind
+     */
+    test('should not leak entries from waiting rooms or rejected joins', async () => {
+      const manager = new userManager(2);
+
+      for (let round = 0; round < 10; round++) {
+        const host = await joinAsHost(manager, `host-${round}`, LOBBY_MEETING);
+        const admitted = await join(manager, `in-${round}`, LOBBY_MEETING);
+        const denied = await join(manager, `out-${round}`, LOBBY_MEETING);
+        const gaveUp = await join(manager, `gone-${round}`, LOBBY_MEETING);
+
+        host.trigger('admit-participant', { meetingId: LOBBY_MEETING, targetId: admitted.id });
+        host.trigger('deny-participant', { meetingId: LOBBY_MEETING, targetId: denied.id });
+        manager.removeUser(gaveUp.id);
+
+        // A third joiner finds the two-person meeting full
+        const first = await join(manager, `full-a-${round}`, MEETING);
+        const second = await join(manager, `full-b-${round}`, MEETING);
+        const rejected = await join(manager, `full-c-${round}`, MEETING);
+        expect(rejected.eventsNamed('join-error')[0].code).toBe('MEETING_FULL');
+
+        host.trigger('end-meeting', { meetingId: LOBBY_MEETING });
+        for (const socket of [host, admitted, denied, first, second, rejected]) {
+          manager.removeUser(socket.id);
+        }
+        jest.advanceTimersByTime(30_000);
+      }
+
+      expectNothingRetained(manager);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  ALICE_AND_BOB,
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { encodeLandmarkFrame } = await import('../../../shared/landmarkCodec.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+const frame = (seq: number) =>
+  encodeLandmarkFrame({ seq, capturedAt: Date.now(), landmarks: null });
+
+// Two participants in a live meeting plus one socket that has not joined
+const setup = async () => {
+  const manager = new userManager();
+  const idle = createFakeSocket('idle');
+  manager.addUser(idle, userIdentity('u3', 'Idle'));
+  const { alice, bob } = await joinSeats(manager, ALICE_AND_BOB);
+
+  return { manager, alice, bob };
+};
+
+describe('userManager stats', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T10:00:00.000Z'));
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Verifies that connected sockets and meeting sizes are reported
+   */
+  test('should report sockets and participants per meeting', async () => {
+    const { manager } = await setup();
+
+    const stats = manager.getStats();
+
+    expect(stats.connectedSockets).toBe(3);
+    expect([...stats.participantsByMeeting]).toEqual([[MEETING, 2]]);
+    expect(stats.waitingByMeeting.size).toBe(0);
+  });
+
+  /**
+   * Verifies that empty meetings drop out of the stats
+   */
+  test('should drop meetings once everyone has left', async () => {
+    const { manager } = await setup();
+
+    manager.removeUser('alice');
+    manager.removeUser('bob');
+    jest.advanceTimersByTime(30_000);
+
+    expect(manager.getStats().participantsByMeeting.size).toBe(0);
+    expect(manager.getStats().connectedSockets).toBe(1);
+  });
+
+  /**
+   * Verifies that relayed overlay frames are counted and rated
+   */
+  test('should count relayed overlay frames per second', async () => {
+    const { manager, alice } = await setup();
+
+    for (let i = 1; i <= 50; i++) {
+      alice.trigger('overlay-data', { meetingId: MEETING, frame: frame(i) });
+    }
+    // The current second is still filling, so it is not in the rate yet
+    expect(manager.getStats().overlayDataMessagesPerSecond).toBe(0);
+
+    jest.advanceTimersByTime(1000);
+    const stats = manager.getStats();
+
+    expect(stats.overlayDataMessagesTotal).toBe(50);
+    expect(stats.overlayDataMessagesPerSecond).toBe(5);
+  });
+
+  /**
+   * Verifies that malformed frames are not counted
+   */
+  test('should not count frames that were dropped', async () => {
+    const { manager, alice } = await setup();
+
+    alice.trigger('overlay-data', { meetingId: MEETING, frame: Buffer.from([1, 2, 3]) });
+
+    expect(manager.getStats().overlayDataMessagesTotal).toBe(0);
+  });
+});
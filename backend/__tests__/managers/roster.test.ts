@@ -0,0 +1,222 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+  settle,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// Host, signed-in participant and guest in a live meeting
+const setup = async () => {
+  const manager = new userManager();
+  const { host, carol, guest } = await joinSeats(manager, {
+    host: { identity: userIdentity('owner-1', 'Host Person') },
+    carol: { identity: userIdentity('u2', 'Carol Account'), name: '  Carol  ' },
+    guest: { identity: guestIdentity(MEETING, 'Gus'), name: 'Someone Else' },
+  });
+
+  return { manager, host, carol, guest };
+};
+
+const latestRoster = (socket: ReturnType<typeof createFakeSocket>) =>
+  socket.eventsNamed('roster').at(-1).participants;
+
+describe('userManager roster', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Membership', () => {
+    /**
+     * Verifies that everyone receives the roster with names and roles
+     */
+    test('should list admitted participants with names and roles', async () => {
+      const { host, guest } = await setup();
+
+      const roster = latestRoster(host);
+      expect(roster.map((entry: any) => [entry.socketId, entry.name, entry.role])).toEqual([
+        ['host', 'Host Person', 'host'],
+        ['carol', 'Carol', 'participant'],
+        ['guest', 'Gus', 'guest'],
+      ]);
+      expect(latestRoster(guest)).toEqual(roster);
+    });
+
+    /**
+     * Verifies that participants who leave are dropped from the roster
+     */
+    test('should remove participants once their slot is released', async () => {
+      const { manager, host } = await setup();
+
+      manager.removeUser('guest');
+      await settle();
+      expect(latestRoster(host).find((entry: any) => entry.socketId === 'guest').reconnecting).toBe(true);
+
+      jest.advanceTimersByTime(30_000);
+      await settle();
+      expect(latestRoster(host).map((entry: any) => entry.socketId)).toEqual([
+        'host',
+        'carol',
+      ]);
+    });
+
+    /**
+     * Verifies that a resumed session keeps its roster entry under the new socket
+     */
+    test('should re-key the entry when a participant resumes', async () => {
+      const { manager, host, guest } = await setup();
+      const token = guest.eventsNamed('reconnect-token')[0].token as string;
+      manager.removeUser('guest');
+
+      const guestAgain = createFakeSocket('guest-2');
+      manager.addUser(guestAgain, guestIdentity(MEETING, 'Gus'));
+      await manager.handleJoinMeeting(guestAgain, MEETING, 'Gus', token);
+      await settle();
+
+      const entry = latestRoster(host).find((e: any) => e.name === 'Gus');
+      expect(entry.socketId).toBe('guest-2');
+      expect(entry.reconnecting).toBe(false);
+    });
+  });
+
+  describe('Media State', () => {
+    /**
+     * Verifies that media toggles are broadcast to the whole meeting
+     */
+    test('should broadcast media state changes', async () => {
+      const { host, carol } = await setup();
+
+      carol.trigger('media-state', {
+        meetingId: MEETING,
+        audioEnabled: false,
+        videoEnabled: true,
+        overlayEnabled: false,
+      });
+      await settle();
+
+      expect(latestRoster(host).find((entry: any) => entry.socketId === 'carol')).toMatchObject({
+        audioEnabled: false,
+        videoEnabled: true,
+        overlayEnabled: false,
+      });
+    });
+
+    /**
+     * Verifies that sockets outside the meeting cannot change the roster
+     */
+    test('should ignore media state from non-participants', async () => {
+      const { manager, host } = await setup();
+      const outsider = createFakeSocket('outsider');
+      manager.addUser(outsider, userIdentity('u9', 'Mallory'));
+      const before = host.eventsNamed('roster').length;
+
+      outsider.trigger('media-state', {
+        meetingId: MEETING,
+        audioEnabled: false,
+        videoEnabled: false,
+        overlayEnabled: false,
+      });
+
+      expect(host.eventsNamed('roster')).toHaveLength(before);
+    });
+  });
+
+  describe('Recording', () => {
+    /**
+     * Verifies that everyone in the meeting sees who is recording
+     */
+    test('should broadcast when a participant starts and stops recording', async () => {
+      const { host, carol, guest } = await setup();
+
+      carol.trigger('recording-state', { meetingId: MEETING, recording: true });
+      await settle();
+
+      expect(latestRoster(host).find((entry: any) => entry.socketId === 'carol').recording).toBe(true);
+      expect(latestRoster(guest).find((entry: any) => entry.socketId === 'carol').recording).toBe(true);
+
+      carol.trigger('recording-state', { meetingId: MEETING, recording: false });
+      await settle();
+
+      expect(latestRoster(guest).find((entry: any) => entry.socketId === 'carol').recording).toBe(false);
+    });
+
+    /**
+     * Verifies that participants joining mid-recording see the indicator
+     */
+    test('should include the recording flag for late joiners', async () => {
+      const { manager, carol } = await setup();
+      carol.trigger('recording-state', { meetingId: MEETING, recording: true });
+
+      const late = createFakeSocket('late');
+      manager.addUser(late, userIdentity('u5', 'Late Comer'));
+      await manager.handleJoinMeeting(late, MEETING, 'Late Comer');
+      await settle();
+
+      expect(latestRoster(late).find((entry: any) => entry.socketId === 'carol').recording).toBe(true);
+    });
+
+    /**
+     * Verifies that media toggles do not clear the recording flag
+     */
+    test('should keep recording across media state changes', async () => {
+      const { host, carol } = await setup();
+      carol.trigger('recording-state', { meetingId: MEETING, recording: true });
+
+      carol.trigger('media-state', {
+        meetingId: MEETING,
+        audioEnabled: false,
+        videoEnabled: true,
+        overlayEnabled: true,
+      });
+      await settle();
+
+      expect(latestRoster(host).find((entry: any) => entry.socketId === 'carol').recording).toBe(true);
+    });
+
+    /**
+     * Verifies that sockets outside the meeting cannot set the indicator
+     */
+    test('should ignore recording state from non-participants', async () => {
+      const { manager, host } = await setup();
+      const outsider = createFakeSocket('outsider');
+      manager.addUser(outsider, userIdentity('u9', 'Mallory'));
+      const before = host.eventsNamed('roster').length;
+
+      outsider.trigger('recording-state', { meetingId: MEETING, recording: true });
+
+      expect(host.eventsNamed('roster')).toHaveLength(before);
+    });
+  });
+});
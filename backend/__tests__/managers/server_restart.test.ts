@@ -0,0 +1,79 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  mockMeetingLookup,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+describe('userManager server restart', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Verifies that every connected socket is told to come back later
+   */
+  test('should notify connected sockets with a retry hint', async () => {
+    const manager = new userManager();
+    const alice = createFakeSocket('alice');
+    const lobby = createFakeSocket('lobby');
+    manager.addUser(alice, userIdentity('u1', 'Alice'));
+    manager.addUser(lobby, guestIdentity(MEETING, 'Lobby'));
+    await manager.handleJoinMeeting(alice, MEETING, 'Alice');
+
+    manager.beginShutdown(5000);
+
+    expect(alice.eventsNamed('server-restarting')).toEqual([{ retryAfterMs: 5000 }]);
+    expect(lobby.eventsNamed('server-restarting')).toEqual([{ retryAfterMs: 5000 }]);
+  });
+
+  /**
+   * Verifies that joins are refused once shutdown has begun
+   */
+  test('should reject new joins while shutting down', async () => {
+    const manager = new userManager();
+    const bob = createFakeSocket('bob');
+    manager.addUser(bob, guestIdentity(MEETING, 'Bob'));
+
+    manager.beginShutdown(5000);
+    await manager.handleJoinMeeting(bob, MEETING, 'Bob');
+
+    expect(bob.eventsNamed('join-error')[0].code).toBe('SERVER_RESTARTING');
+    expect(bob.eventsNamed('server-restarting')).toEqual([
+      { retryAfterMs: 5000 },
+      { retryAfterMs: 5000 },
+    ]);
+    expect(getMeetingByCode).not.toHaveBeenCalled();
+  });
+});
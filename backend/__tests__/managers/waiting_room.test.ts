@@ -0,0 +1,161 @@
+import { jest } from '@jest/globals';
+import { mockSupabaseApi } from '../helpers/mock_supabase_api.js';
+import {
+  createFakeSocket,
+  guestIdentity,
+  userIdentity,
+} from '../helpers/fake_socket.js';
+import {
+  MEETING,
+  joinSeats,
+  mockMeetingLookup,
+  settle,
+} from '../helpers/meeting.js';
+
+await jest.unstable_mockModule(
+  '../../src/supabase_api/supabase_api.js',
+  mockSupabaseApi
+);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+const { userManager } = await import('../../src/managers/userManager.js');
+const { getMeetingByCode, getUserData } = await import(
+  '../../src/supabase_api/supabase_api.js'
+);
+
+// Connects a host and a guest, joining the host first when asked
+const setup = async ({ hostFirst }: { hostFirst: boolean }) => {
+  const manager = new userManager();
+  const host = { identity: userIdentity('owner-1', 'Host') };
+  const guest = { identity: guestIdentity(MEETING, 'Guest') };
+  const sockets = await joinSeats(manager, hostFirst ? { host, guest } : { guest, host });
+
+  return { manager, ...sockets };
+};
+
+describe('userManager waiting room', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockMeetingLookup({ getMeetingByCode, getUserData }, { waiting_room: true });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Queueing', () => {
+    /**
+     * Verifies that joiners are held and the host sees them waiting
+     */
+    test('should hold non-host joiners and list them for the host', async () => {
+      const { host, guest } = await setup({ hostFirst: true });
+
+      expect(guest.eventsNamed('waiting-room')).toEqual([{ meetingId: MEETING }]);
+      expect(guest.eventsNamed('partner-connected')).toHaveLength(0);
+      expect(host.eventsNamed('waiting-room-updated').at(-1)).toEqual({
+        meetingId: MEETING,
+        waiting: [{ socketId: 'guest', name: 'Guest' }],
+      });
+    });
+
+    /**
+     * Verifies that a host arriving later is shown the existing queue
+     */
+    test('should send the queue to a host who joins after the guest', async () => {
+      const { host } = await setup({ hostFirst: false });
+
+      expect(host.eventsNamed('waiting-room-updated').at(-1).waiting).toEqual([
+        { socketId: 'guest', name: 'Guest' },
+      ]);
+    });
+
+    /**
+     * Verifies that meetings without a waiting room admit joiners directly
+     */
+    test('should admit joiners directly when the waiting room is off', async () => {
+      mockMeetingLookup({ getMeetingByCode, getUserData }, { waiting_room: false });
+
+      const { guest } = await setup({ hostFirst: true });
+
+      expect(guest.eventsNamed('waiting-room')).toHaveLength(0);
+      expect(guest.eventsNamed('partner-connected')).toHaveLength(1);
+    });
+  });
+
+  describe('Admission', () => {
+    /**
+     * Verifies that an admitted joiner is connected to the meeting
+     */
+    test('should connect a joiner the host admits', async () => {
+      const { host, guest } = await setup({ hostFirst: true });
+
+      host.trigger('admit-participant', { meetingId: MEETING, targetId: 'guest' });
+      await settle();
+
+      expect(guest.eventsNamed('partner-connected')).toHaveLength(1);
+      expect(host.eventsNamed('partner-connected')).toHaveLength(1);
+      expect(host.eventsNamed('waiting-room-updated').at(-1).waiting).toEqual([]);
+    });
+
+    /**
+     * Verifies that a denied joiner is told and never connected
+     */
+    test('should reject a joiner the host denies', async () => {
+      const { host, guest } = await setup({ hostFirst: true });
+
+      host.trigger('deny-participant', { meetingId: MEETING, targetId: 'guest' });
+
+      expect(guest.eventsNamed('join-error')[0].code).toBe('ADMISSION_DENIED');
+      expect(guest.eventsNamed('partner-connected')).toHaveLength(0);
+    });
+
+    /**
+     * Verifies that only the host can admit from the waiting room
+     */
+    test('should ignore admission from non-hosts', async () => {
+      const { manager, guest } = await setup({ hostFirst: true });
+      const other = createFakeSocket('other');
+      manager.addUser(other, userIdentity('u2', 'Other'));
+      await manager.handleJoinMeeting(other, MEETING, 'Other');
+
+      other.trigger('admit-participant', { meetingId: MEETING, targetId: 'guest' });
+
+      expect(guest.eventsNamed('partner-connected')).toHaveLength(0);
+    });
+  });
+
+  describe('Leaving', () => {
+    /**
+     * Verifies that a joiner who disconnects is dropped from the host's list
+     */
+    test('should update the host when a waiting joiner disconnects', async () => {
+      const { manager, host } = await setup({ hostFirst: true });
+
+      manager.removeUser('guest');
+      await settle();
+
+      expect(host.eventsNamed('waiting-room-updated').at(-1).waiting).toEqual([]);
+    });
+
+    /**
+     * Verifies that ending the meeting also releases waiting joiners
+     */
+    test('should tell waiting joiners when the host ends the meeting', async () => {
+      const { host, guest } = await setup({ hostFirst: true });
+
+      host.trigger('end-meeting', { meetingId: MEETING });
+
+      expect(guest.eventsNamed('meeting-ended')).toEqual([{ meetingId: MEETING }]);
+    });
+  });
+});
@@ -1,3 +1,6 @@
 process.env.SUPABASE_URL = 'https://test.supabase.co';
 process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-key';
 process.env.ENCRYPTION_KEY = 'a'.repeat(32);
+process.env.GUEST_TOKEN_SECRET = 'b'.repeat(32);
+// Keep request and socket logs out of test output; logger tests opt back in
+process.env.LOG_LEVEL = 'silent';
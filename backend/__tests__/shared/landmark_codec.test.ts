@@ -0,0 +1,234 @@
+import {
+  createFrameFilter,
+  decodeLandmarkFrame,
+  encodeLandmarkFrame,
+  ENCRYPTED_FRAME_IV_BYTES,
+  ENCRYPTED_FRAME_VERSION,
+  isEncryptedLandmarkFrame,
+  LANDMARK_CODEC_VERSION,
+  RENDER_LANDMARK_INDICES,
+  STALE_FRAME_MS,
+  type Landmark,
+  type LandmarkFrame,
+} from '../../../shared/landmarkCodec.js';
+
+// A full MediaPipe face mesh with distinct coordinates per point
+const faceMesh = (): Landmark[] =>
+  Array.from({ length: 478 }, (_, index) => ({
+    x: (index % 100) / 100,
+    y: 1 - (index % 37) / 37,
+    z: 0.25,
+  }));
+
+// Stand-in for a frame sealed with AES-GCM: version, nonce, ciphertext and tag
+const sealed = (plain: ArrayBuffer) => {
+  const bytes = new Uint8Array(1 + ENCRYPTED_FRAME_IV_BYTES + plain.byteLength + 16);
+  bytes.fill(7);
+  bytes[0] = ENCRYPTED_FRAME_VERSION;
+  return bytes;
+};
+
+const faceFrame = (overrides: Partial<LandmarkFrame> = {}): LandmarkFrame => ({
+  seq: 42,
+  capturedAt: 1_700_000_000_123.5,
+  landmarks: faceMesh(),
+  ...overrides,
+});
+
+describe('Landmark Codec', () => {
+  describe('Round Trip', () => {
+    /**
+     * Verifies that header fields survive encoding exactly
+     */
+    test('should preserve sequence number and timestamp', () => {
+      const decoded = decodeLandmarkFrame(encodeLandmarkFrame(faceFrame()));
+
+      expect(decoded).not.toBeNull();
+      expect(decoded!.seq).toBe(42);
+      expect(decoded!.capturedAt).toBe(1_700_000_000_123.5);
+    });
+
+    /**
+     * Verifies that rendered landmarks are restored within Int16 precision
+     */
+    test('should restore the rendered landmarks within quantization error', () => {
+      const original = faceMesh();
+      const decoded = decodeLandmarkFrame(
+        encodeLandmarkFrame(faceFrame({ landmarks: original }))
+      );
+
+      for (const index of RENDER_LANDMARK_INDICES) {
+        const point = decoded!.landmarks![index]!;
+        expect(Math.abs(point.x - original[index]!.x)).toBeLessThan(1e-4);
+        expect(Math.abs(point.y - original[index]!.y)).toBeLessThan(1e-4);
+      }
+    });
+
+    /**
+     * Verifies that only the renderer's subset is carried
+     */
+    test('should omit landmarks the renderer does not use', () => {
+      const decoded = decodeLandmarkFrame(encodeLandmarkFrame(faceFrame()));
+
+      const present = decoded!.landmarks!.flatMap((point, index) =>
+        point ? [index] : []
+      );
+      expect(present.sort((a, b) => a - b)).toEqual(
+        [...RENDER_LANDMARK_INDICES].sort((a, b) => a - b)
+      );
+    });
+
+    /**
+     * Verifies that coordinates slightly outside the frame are kept
+     */
+    test('should keep coordinates just outside the unit range', () => {
+      const landmarks = faceMesh();
+      landmarks[10] = { x: -0.2, y: 1.3, z: 0 };
+
+      const decoded = decodeLandmarkFrame(encodeLandmarkFrame(faceFrame({ landmarks })));
+
+      expect(decoded!.landmarks![10]!.x).toBeCloseTo(-0.2, 3);
+      expect(decoded!.landmarks![10]!.y).toBeCloseTo(1.3, 3);
+    });
+
+    /**
+     * Verifies that a cleared frame decodes with no landmarks
+     */
+    test('should round-trip a frame without a face', () => {
+      const decoded = decodeLandmarkFrame(
+        encodeLandmarkFrame(faceFrame({ landmarks: null }))
+      );
+
+      expect(decoded).toEqual({
+        seq: 42,
+        capturedAt: 1_700_000_000_123.5,
+        landmarks: null,
+      });
+    });
+
+    /**
+     * Verifies that decoding works on Node buffers as delivered by Socket.IO
+     */
+    test('should decode from a Buffer view with an offset', () => {
+      const encoded = new Uint8Array(encodeLandmarkFrame(faceFrame()));
+      const padded = Buffer.alloc(encoded.length + 8);
+      padded.set(encoded, 8);
+
+      const decoded = decodeLandmarkFrame(padded.subarray(8));
+
+      expect(decoded!.seq).toBe(42);
+    });
+
+    /**
+     * Verifies that the binary frame is far smaller than the JSON it replaces
+     */
+    test('should be much smaller than the JSON landmark payload', () => {
+      const frame = faceFrame();
+      const encoded = encodeLandmarkFrame(frame);
+
+      expect(encoded.byteLength).toBeLessThan(200);
+      expect(encoded.byteLength * 20).toBeLessThan(JSON.stringify(frame.landmarks).length);
+    });
+  });
+
+  describe('Malformed Frames', () => {
+    /**
+     * Verifies that truncated buffers are rejected
+     */
+    test('should reject a truncated frame', () => {
+      const encoded = encodeLandmarkFrame(faceFrame());
+
+      expect(decodeLandmarkFrame(encoded.slice(0, encoded.byteLength - 1))).toBeNull();
+      expect(decodeLandmarkFrame(new ArrayBuffer(4))).toBeNull();
+    });
+
+    /**
+     * Verifies that frames from another codec version are rejected
+     */
+    test('should reject an unknown version', () => {
+      const encoded = new Uint8Array(encodeLandmarkFrame(faceFrame()));
+      encoded[0] = LANDMARK_CODEC_VERSION + 1;
+
+      expect(decodeLandmarkFrame(encoded)).toBeNull();
+    });
+
+    /**
+     * Verifies that non-binary payloads are rejected
+     */
+    test('should reject non-binary input', () => {
+      expect(decodeLandmarkFrame({ landmarks: [] } as any)).toBeNull();
+    });
+  });
+
+  describe('Encrypted Frames', () => {
+    /**
+     * Verifies that sealed frames with and without a face are recognised
+     */
+    test('should accept sealed frames of a valid size', () => {
+      const withFace = sealed(encodeLandmarkFrame(faceFrame()));
+      const withoutFace = sealed(encodeLandmarkFrame(faceFrame({ landmarks: null })));
+
+      expect(isEncryptedLandmarkFrame(withFace)).toBe(true);
+      expect(isEncryptedLandmarkFrame(Buffer.from(withoutFace))).toBe(true);
+    });
+
+    /**
+     * Verifies that sealed frames are not mistaken for plain ones and vice versa
+     */
+    test('should keep sealed and plain frames apart', () => {
+      const plain = encodeLandmarkFrame(faceFrame());
+
+      expect(isEncryptedLandmarkFrame(plain)).toBe(false);
+      expect(decodeLandmarkFrame(sealed(plain))).toBeNull();
+    });
+
+    /**
+     * Verifies that payloads of the wrong size are rejected
+     */
+    test('should reject sealed frames of the wrong size', () => {
+      const bytes = sealed(encodeLandmarkFrame(faceFrame()));
+
+      expect(isEncryptedLandmarkFrame(bytes.slice(0, bytes.byteLength - 1))).toBe(false);
+      expect(isEncryptedLandmarkFrame(new Uint8Array([ENCRYPTED_FRAME_VERSION]))).toBe(false);
+      expect(isEncryptedLandmarkFrame({ frame: [] } as any)).toBe(false);
+    });
+  });
+
+  describe('Frame Filter', () => {
+    /**
+     * Verifies that frames arriving after a newer one are dropped
+     */
+    test('should drop duplicate and out-of-order frames', () => {
+      const accept = createFrameFilter();
+
+      expect(accept(faceFrame({ seq: 1, capturedAt: 1000 }), 1050)).toBe(true);
+      expect(accept(faceFrame({ seq: 3, capturedAt: 1100 }), 1150)).toBe(true);
+      expect(accept(faceFrame({ seq: 2, capturedAt: 1050 }), 1160)).toBe(false);
+      expect(accept(faceFrame({ seq: 3, capturedAt: 1100 }), 1170)).toBe(false);
+    });
+
+    /**
+     * Verifies that frames delayed past the threshold are dropped
+     */
+    test('should drop frames delayed beyond the stale threshold', () => {
+      const accept = createFrameFilter();
+
+      expect(accept(faceFrame({ seq: 1, capturedAt: 1000 }), 1040)).toBe(true);
+      expect(
+        accept(faceFrame({ seq: 2, capturedAt: 1050 }), 1090 + STALE_FRAME_MS + 1)
+      ).toBe(false);
+      expect(accept(faceFrame({ seq: 3, capturedAt: 2000 }), 2040)).toBe(true);
+    });
+
+    /**
+     * Verifies that a constant clock offset between peers is tolerated
+     */
+    test('should tolerate clock skew between sender and receiver', () => {
+      const accept = createFrameFilter();
+      const skew = 60_000;
+
+      expect(accept(faceFrame({ seq: 1, capturedAt: 1000 }), 1040 + skew)).toBe(true);
+      expect(accept(faceFrame({ seq: 2, capturedAt: 1050 }), 1100 + skew)).toBe(true);
+    });
+  });
+});
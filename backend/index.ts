@@ -1,7 +1,19 @@
 import http from 'http';
-import { Server } from 'socket.io';
+import { Server, type DefaultEventsMap } from 'socket.io';
 import { app } from './src/app.js';
 import { userManager } from './src/managers/userManager.js';
+import { socketAuthMiddleware } from './src/auth/socketAuth.js';
+import { assertGuestTokenSecret } from './src/auth/tokens.js';
+import type { ClientToServerEvents, ServerToClientEvents } from '@shared/socketEvents.js';
+import type { SocketIdentity } from './src/auth/socketAuth.js';
+import { setRoomStatsSource } from './src/telemetry/metrics.js';
+import { logger } from './src/logging/logger.js';
+import { createShutdown } from './src/lifecycle/shutdown.js';
+import { createCluster } from './src/cluster/cluster.js';
+import { loadRateLimits, transportBufferBytes } from './src/managers/rateLimiter.js';
+
+// Refuse to start without the key guest tokens are signed with
+assertGuestTokenSecret();
 
 // Use environment variable or default to 3000
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3000;
@@ -10,31 +22,54 @@ const PORT = process.env.PORT ? Number(process.env.PORT) : 3000;
 const server = http.createServer(app);
 
 // Initialize Socket.IO
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketIdentity>(server, {
   cors: {
     origin: process.env.FRONTEND_URL || 'http://localhost:5173',
     methods: ['GET', 'POST'],
     credentials: true,
   },
   transports: ['websocket', 'polling'],
+  // Oversized messages are refused (and the connection closed) by the
+  // transport, before the per-event size check would have to decode them
+  maxHttpBufferSize: transportBufferBytes(loadRateLimits()),
 });
 
 // Initialize user manager for chat
 const globalUserManager = new userManager();
 
+// Share meeting state with other instances when REDIS_URL is set
+const cluster = await createCluster(io);
+globalUserManager.useCluster(cluster);
+
+// Periodically release rooms and state the disconnect path missed
+globalUserManager.startSweeper();
+
+// Live room state for /metrics
+setRoomStatsSource(() => globalUserManager.getStats());
+
+// Only accept sockets that present a valid account or guest token
+io.use(socketAuthMiddleware);
+
 // Socket.IO connection handler for chat
 io.on('connection', (socket) => {
-  console.log('Socket connected:', socket.id);
-
-  globalUserManager.addUser('randomName', socket);
+  globalUserManager.addUser(socket, socket.data);
 
   socket.on('disconnect', () => {
-    console.log('Socket disconnected:', socket.id);
     globalUserManager.removeUser(socket.id);
   });
 });
 
+// Drain and close on redeploys instead of dropping every call
+const shutdown = createShutdown({
+  httpServer: server,
+  io,
+  participants: globalUserManager,
+  cluster,
+});
+process.once('SIGTERM', () => shutdown('SIGTERM'));
+process.once('SIGINT', () => shutdown('SIGINT'));
+
 // Start server
 server.listen(PORT, '0.0.0.0', () => {
-  console.log(`✅ Server running on port ${PORT}`);
+  logger.info('Server running', { port: PORT });
 });
\ No newline at end of file
@@ -12,39 +12,37 @@ import {
   updateUserFullName,
   deleteUser,
   updateMeeting,
-  supabase,
   getUserData,
+  getMeetingByCode,
+  insertCallStats,
+  uploadRecording,
+  getMeetingSessions,
+  hasAttendedMeeting,
+  checkDatabase,
 } from './supabase_api/supabase_api.js';
-
-// Helper function to verify auth tokens
-async function verifyAuthToken(
-  authToken: string | undefined
-): Promise<{ userId: string | null; error: any }> {
-  if (!authToken) {
-    return {
-      userId: null,
-      error: new Error('No authorization token provided'),
-    };
-  }
-
-  const token = authToken.replace('Bearer ', '');
-
-  const {
-    data: { user },
-    error,
-  } = await supabase.auth.getUser(token);
-
-  if (error || !user) {
-    return { userId: null, error: error || new Error('Invalid token') };
-  }
-
-  return { userId: user.id, error: null };
-}
+import {
+  verifyAuthToken,
+  createGuestToken,
+  verifyGuestToken,
+} from './auth/tokens.js';
+import { getIceConfig } from './auth/iceServers.js';
+import {
+  parseCallStatsSample,
+  MAX_SAMPLES_PER_REQUEST,
+  type CallStatsSample,
+} from './telemetry/callStats.js';
+import { httpMetrics, renderMetrics } from './telemetry/metrics.js';
+import { requestLogger } from './logging/requestLogger.js';
+import { drainRequests } from './lifecycle/shutdown.js';
+import { MAX_DISPLAY_NAME_LENGTH } from './managers/user.js';
 
 // Create Express app
 export const app = express();
 
 // Middleware
+app.use(requestLogger);
+app.use(httpMetrics);
+app.use(drainRequests);
 app.use(express.json());
 
 // CORS middleware
@@ -65,6 +63,89 @@ app.use((req, res, next) => {
   next();
 });
 
+// Verifies the bearer token and tags the request's log entries with the user
+const authenticate = async (req: express.Request) => {
+  const result = await verifyAuthToken(req.headers.authorization);
+
+  if (result.userId) {
+    req.log = req.log.child({ userId: result.userId });
+  }
+
+  return result;
+};
+
+// Hosts and anyone admitted to one of the meeting's sessions may add records to it
+const tookPartIn = async (meeting: { id: number; owner_id: string }, userId: string) => {
+  if (meeting.owner_id === userId) {
+    return { allowed: true, error: null };
+  }
+
+  const attended = await hasAttendedMeeting(meeting.id, userId);
+  return { allowed: attended.data, error: attended.error };
+};
+
+// ============= OPERATIONS =============
+
+// How long the readiness probe waits for the database by default
+const DEFAULT_READINESS_TIMEOUT_MS = 2000;
+
+// GET /healthz
+// Liveness: the process is up and serving requests
+app.get('/healthz', (req, res) => {
+  res.status(200).json({
+    status: 'ok',
+    uptime_seconds: Math.round(process.uptime()),
+  });
+});
+
+// GET /readyz
+// Readiness: configuration is present and the database answers in time
+app.get('/readyz', async (req, res) => {
+  const timeoutMs =
+    Number(process.env.READINESS_TIMEOUT_MS) || DEFAULT_READINESS_TIMEOUT_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const database = await Promise.race([
+    checkDatabase(),
+    new Promise<string>((resolve) => {
+      timer = setTimeout(() => resolve('Timed out'), timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  const checks = {
+    supabase: database ? `error: ${database}` : 'ok',
+    encryption_key: process.env.ENCRYPTION_KEY ? 'ok' : 'error: missing',
+  };
+  const ready = Object.values(checks).every((check) => check === 'ok');
+
+  res.status(ready ? 200 : 503).json({
+    status: ready ? 'ready' : 'not ready',
+    checks,
+  });
+});
+
+// GET /metrics
+// Prometheus scrape target; only served with METRICS_TOKEN as the bearer token
+app.get('/metrics', (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+
+  if (!token) {
+    res.status(404).json({ error: 'Not found' });
+    return;
+  }
+
+  if (req.headers.authorization !== `Bearer ${token}`) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  res
+    .status(200)
+    .type('text/plain; version=0.0.4')
+    .send(renderMetrics());
+});
+
 // ============= ROUTES =============
 
 // POST /api/create-user
@@ -125,16 +206,14 @@ app.post('/api/create-user', async (req, res) => {
       data: result.data,
     });
   } catch (error) {
-    console.error('Error creating user:', error);
+    req.log.error('Error creating user', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // GET /api/get-all-overlays
 app.get('/api/get-all-overlays', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -154,16 +233,14 @@ app.get('/api/get-all-overlays', async (req, res) => {
       overlays: result.data,
     });
   } catch (error) {
-    console.error('Error getting overlays:', error);
+    req.log.error('Error getting overlays', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // DELETE /api/delete_overlay/:id
 app.delete('/api/delete_overlay/:id', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -197,16 +274,14 @@ app.delete('/api/delete_overlay/:id', async (req, res) => {
       overlayId: overlayId,
     });
   } catch (error) {
-    console.error('Error deleting overlay:', error);
+    req.log.error('Error deleting overlay', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // POST /api/upload-overlay
 app.post('/api/upload-overlay', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -260,21 +335,124 @@ app.post('/api/upload-overlay', async (req, res) => {
 
         res.status(201).json({ message: 'Overlay uploaded successfully' });
       } catch (uploadError) {
-        console.error('Error during upload:', uploadError);
+        req.log.error('Error during upload', { err: uploadError });
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+  } catch (error) {
+    req.log.error('Error uploading overlay', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recordings are long WebM files, so they get a far larger limit than overlays
+const MAX_RECORDING_BYTES = 500 * 1024 * 1024;
+
+// POST /api/upload-recording
+app.post('/api/upload-recording', async (req, res) => {
+  const { userId, error: authError } = await authenticate(req);
+
+  if (authError || !userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    const form = formidable({
+      maxFileSize: MAX_RECORDING_BYTES,
+      keepExtensions: true,
+    });
+
+    form.parse(req, async (err, fields, files) => {
+      const file = files?.file?.[0];
+
+      try {
+        if (err) {
+          res.status(400).json({ error: 'Error parsing form data' });
+          return;
+        }
+
+        const meetingCode = fields.meeting_code?.[0];
+        const duration = Number(fields.duration_seconds?.[0]);
+
+        if (!file) {
+          res.status(400).json({ error: 'Missing required field: file' });
+          return;
+        }
+
+        if (!meetingCode || meetingCode.trim() === '') {
+          res.status(400).json({ error: 'Missing required field: meeting_code' });
+          return;
+        }
+
+        if (file.size === 0) {
+          res.status(400).json({ error: 'File cannot be empty' });
+          return;
+        }
+
+        if (file.mimetype && !file.mimetype.startsWith('video/webm')) {
+          res.status(400).json({ error: 'Recording must be a WebM video' });
+          return;
+        }
+
+        const meeting = await getMeetingByCode(meetingCode.trim());
+
+        if (meeting.error || !meeting.data) {
+          res.status(404).json({ error: 'Meeting not found' });
+          return;
+        }
+
+        const access = await tookPartIn(meeting.data, userId);
+
+        if (access.error) {
+          res.status(500).json({ error: 'Internal server error' });
+          return;
+        }
+
+        if (!access.allowed) {
+          res.status(403).json({ error: 'You did not take part in this meeting' });
+          return;
+        }
+
+        // Streamed from disk so a long recording is never held in memory
+        const result = await uploadRecording(
+          userId,
+          meeting.data.id,
+          fs.createReadStream(file.filepath),
+          file.size,
+          Number.isFinite(duration) && duration >= 0 ? Math.round(duration) : null
+        );
+
+        if (result.error) {
+          res.status(400).json({ error: result.error.message });
+          return;
+        }
+
+        res.status(201).json({
+          message: 'Recording uploaded successfully',
+          recording_id: result.data?.id,
+        });
+      } catch (uploadError) {
+        req.log.error('Error during recording upload', { err: uploadError });
         res.status(500).json({ error: 'Internal server error' });
+      } finally {
+        // Recordings can be hundreds of megabytes, so never leave one behind
+        if (file) {
+          await fs.promises.rm(file.filepath, { force: true }).catch((rmError) => {
+            req.log.warn('Could not remove uploaded recording', { err: rmError });
+          });
+        }
       }
     });
   } catch (error) {
-    console.error('Error uploading overlay:', error);
+    req.log.error('Error uploading recording', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // POST /api/schedule-meeting
 app.post('/api/schedule-meeting', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -282,7 +460,8 @@ app.post('/api/schedule-meeting', async (req, res) => {
   }
 
   try {
-    const { meeting_code, meeting_time, meeting_title } = req.body;
+    const { meeting_code, meeting_time, meeting_title, waiting_room } =
+      req.body;
 
     if (
       meeting_code === undefined ||
@@ -328,11 +507,19 @@ app.post('/api/schedule-meeting', async (req, res) => {
       return;
     }
 
+    if (waiting_room !== undefined && typeof waiting_room !== 'boolean') {
+      res.status(400).json({
+        error: 'waiting_room must be a boolean',
+      });
+      return;
+    }
+
     const result = await scheduleMeeting(
       userId,
       meeting_code,
       meeting_time,
-      meeting_title
+      meeting_title,
+      waiting_room
     );
 
     if (result.error) {
@@ -347,16 +534,14 @@ app.post('/api/schedule-meeting', async (req, res) => {
       },
     });
   } catch (error) {
-    console.error('Error scheduling meeting:', error);
+    req.log.error('Error scheduling meeting', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // DELETE /api/delete-meeting/:id
 app.delete('/api/delete-meeting/:id', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -395,16 +580,14 @@ app.delete('/api/delete-meeting/:id', async (req, res) => {
       meetingId: meetingId,
     });
   } catch (error) {
-    console.error('Error deleting meeting:', error);
+    req.log.error('Error deleting meeting', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // GET /api/get-all-meetings
 app.get('/api/get-all-meetings', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -424,16 +607,54 @@ app.get('/api/get-all-meetings', async (req, res) => {
       meetings: result.data,
     });
   } catch (error) {
-    console.error('Error getting meetings:', error);
+    req.log.error('Error getting meetings', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/meetings/:id/sessions
+// Past sessions of one of the caller's meetings, with who attended each
+app.get('/api/meetings/:id/sessions', async (req, res) => {
+  const { userId, error: authError } = await authenticate(req);
+
+  if (authError || !userId) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    const meetingId = req.params.id;
+
+    if (!/^\d+$/.test(meetingId)) {
+      res.status(400).json({ error: 'Invalid meeting ID format' });
+      return;
+    }
+
+    const result = await getMeetingSessions(parseInt(meetingId, 10), userId);
+
+    if (result.error) {
+      res.status(400).json({ error: result.error.message });
+      return;
+    }
+
+    if (!result.data) {
+      res.status(404).json({ error: 'Meeting not found' });
+      return;
+    }
+
+    res.status(200).json({
+      message: 'Meeting sessions retrieved successfully',
+      sessions: result.data,
+    });
+  } catch (error) {
+    req.log.error('Error getting meeting sessions', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // GET /api/get-user-data
 app.get('/api/get-user-data', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -453,7 +674,7 @@ app.get('/api/get-user-data', async (req, res) => {
       userData: result.data,
     });
   } catch (error) {
-    console.error('Error getting user data:', error);
+    req.log.error('Error getting user data', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -461,9 +682,7 @@ app.get('/api/get-user-data', async (req, res) => {
 // PUT /api/update-user-name
 // PUT /api/update-user-name
 app.put('/api/update-user-name', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -508,16 +727,14 @@ app.put('/api/update-user-name', async (req, res) => {
       message: 'Full name updated successfully',
     });
   } catch (error) {
-    console.error('Error updating full name:', error);
+    req.log.error('Error updating full name', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // DELETE /api/delete-user
 app.delete('/api/delete-user', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -536,7 +753,7 @@ app.delete('/api/delete-user', async (req, res) => {
       message: 'User deleted successfully',
     });
   } catch (error) {
-    console.error('Error deleting user:', error);
+    req.log.error('Error deleting user', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -544,9 +761,7 @@ app.delete('/api/delete-user', async (req, res) => {
 // PUT /api/update-meeting/:id
 // PUT /api/update-meeting/:id
 app.put('/api/update-meeting/:id', async (req, res) => {
-  const { userId, error: authError } = await verifyAuthToken(
-    req.headers.authorization
-  );
+  const { userId, error: authError } = await authenticate(req);
 
   if (authError || !userId) {
     res.status(401).json({ error: 'Unauthorized' });
@@ -574,7 +789,8 @@ app.put('/api/update-meeting/:id', async (req, res) => {
       return;
     }
 
-    const { meeting_title, meeting_time, meeting_code } = req.body;
+    const { meeting_title, meeting_time, meeting_code, waiting_room } =
+      req.body;
 
     if (!meeting_title || !meeting_time) {
       res.status(400).json({
@@ -597,6 +813,13 @@ app.put('/api/update-meeting/:id', async (req, res) => {
       return;
     }
 
+    if (waiting_room !== undefined && typeof waiting_room !== 'boolean') {
+      res.status(400).json({
+        error: 'waiting_room must be a boolean',
+      });
+      return;
+    }
+
     if (meeting_title.trim() === '' || meeting_time.trim() === '') {
       res.status(400).json({
         error: 'meeting_title and meeting_time cannot be empty strings',
@@ -624,7 +847,8 @@ app.put('/api/update-meeting/:id', async (req, res) => {
       userId,
       meeting_title,
       meeting_time,
-      meeting_code
+      meeting_code,
+      waiting_room
     );
 
     if (error) {
@@ -637,7 +861,203 @@ app.put('/api/update-meeting/:id', async (req, res) => {
       meetingId: meetingId,
     });
   } catch (error) {
-    console.error('Error updating meeting:', error);
+    req.log.error('Error updating meeting', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/guest-token
+app.post('/api/guest-token', async (req, res) => {
+  try {
+    const { meeting_code, display_name } = req.body ?? {};
+
+    if (
+      meeting_code === undefined ||
+      meeting_code === null ||
+      display_name === undefined ||
+      display_name === null
+    ) {
+      res.status(400).json({
+        error: 'Missing required fields: meeting_code, display_name',
+      });
+      return;
+    }
+
+    if (typeof meeting_code !== 'string' || typeof display_name !== 'string') {
+      res.status(400).json({
+        error: 'All fields must be strings',
+      });
+      return;
+    }
+
+    if (meeting_code.trim() === '' || display_name.trim() === '') {
+      res.status(400).json({
+        error: 'Fields cannot be empty strings',
+      });
+      return;
+    }
+
+    if (display_name.trim().length > MAX_DISPLAY_NAME_LENGTH) {
+      res.status(400).json({
+        error: `display_name must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`,
+      });
+      return;
+    }
+
+    // Guests can only be issued tokens for meetings that exist
+    const meeting = await getMeetingByCode(meeting_code.trim());
+
+    if (meeting.error) {
+      res.status(400).json({ error: meeting.error.message });
+      return;
+    }
+
+    if (!meeting.data) {
+      res.status(404).json({ error: 'Meeting not found' });
+      return;
+    }
+
+    const { token, expiresAt } = createGuestToken(
+      meeting_code.trim(),
+      display_name.trim()
+    );
+
+    res.status(201).json({
+      message: 'Guest token created successfully',
+      token,
+      expires_at: new Date(expiresAt).toISOString(),
+    });
+  } catch (error) {
+    req.log.error('Error creating guest token', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/ice-config
+// Accepts either a Supabase access token or a guest token as the bearer token
+app.get('/api/ice-config', async (req, res) => {
+  try {
+    const bearer = req.headers.authorization?.replace('Bearer ', '');
+    const guest = verifyGuestToken(bearer);
+    let user = guest ? `guest-${guest.meetingId}` : null;
+
+    if (!user) {
+      const { userId, error: authError } = await authenticate(req);
+
+      if (authError || !userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      user = userId;
+    }
+
+    const { iceServers, expiresAt } = getIceConfig(user);
+
+    res.status(200).json({
+      message: 'ICE configuration retrieved successfully',
+      ice_servers: iceServers,
+      expires_at: new Date(expiresAt).toISOString(),
+    });
+  } catch (error) {
+    req.log.error('Error getting ICE configuration', { err: error });
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/call-stats
+// Accepts either a Supabase access token or a guest token for the same meeting
+app.post('/api/call-stats', async (req, res) => {
+  try {
+    const bearer = req.headers.authorization?.replace('Bearer ', '');
+    const guest = verifyGuestToken(bearer);
+    let userId: string | null = null;
+
+    if (!guest) {
+      const { userId: authUserId, error: authError } = await authenticate(req);
+
+      if (authError || !authUserId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      userId = authUserId;
+    }
+
+    const { meeting_code, samples } = req.body ?? {};
+
+    if (typeof meeting_code !== 'string' || meeting_code.trim() === '') {
+      res.status(400).json({ error: 'meeting_code must be a non-empty string' });
+      return;
+    }
+
+    if (
+      !Array.isArray(samples) ||
+      samples.length === 0 ||
+      samples.length > MAX_SAMPLES_PER_REQUEST
+    ) {
+      res.status(400).json({
+        error: `samples must be an array of 1 to ${MAX_SAMPLES_PER_REQUEST} entries`,
+      });
+      return;
+    }
+
+    const parsed: CallStatsSample[] = [];
+    for (const sample of samples) {
+      const valid = parseCallStatsSample(sample);
+      if (!valid) {
+        res.status(400).json({ error: 'Invalid call stats sample' });
+        return;
+      }
+      parsed.push(valid);
+    }
+
+    // Guest tokens only cover the meeting they were issued for
+    if (guest && guest.meetingId !== meeting_code.trim()) {
+      res.status(403).json({ error: 'Forbidden' });
+      return;
+    }
+
+    const meeting = await getMeetingByCode(meeting_code.trim());
+
+    if (meeting.error) {
+      res.status(400).json({ error: meeting.error.message });
+      return;
+    }
+
+    if (!meeting.data) {
+      res.status(404).json({ error: 'Meeting not found' });
+      return;
+    }
+
+    // Guests were already held to their own meeting above
+    if (userId) {
+      const access = await tookPartIn(meeting.data, userId);
+
+      if (access.error) {
+        res.status(500).json({ error: 'Internal server error' });
+        return;
+      }
+
+      if (!access.allowed) {
+        res.status(403).json({ error: 'You did not take part in this meeting' });
+        return;
+      }
+    }
+
+    const error = await insertCallStats(meeting.data.id, userId, parsed);
+
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    res.status(201).json({
+      message: 'Call stats recorded successfully',
+      count: parsed.length,
+    });
+  } catch (error) {
+    req.log.error('Error recording call stats', { err: error });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
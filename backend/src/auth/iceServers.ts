@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+
+// Used when no STUN servers are configured
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302'];
+
+// TURN credentials are valid for this long unless configured otherwise
+const DEFAULT_TURN_CREDENTIAL_TTL_SECONDS = 60 * 60;
+
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfig {
+  iceServers: IceServer[];
+  // When the TURN credentials stop working, ms since epoch
+  expiresAt: number;
+}
+
+// Comma-separated env list, ignoring blanks
+function urlList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url !== '');
+}
+
+/**
+ * Mints time-limited TURN credentials using the TURN REST API scheme
+ * understood by coturn's `use-auth-secret`: the username is
+ * `<expiry unix seconds>:<user>` and the credential is the base64
+ * HMAC-SHA1 of the username keyed with the shared secret.
+ */
+export function createTurnCredentials(
+  secret: string,
+  user: string,
+  ttlSeconds: number,
+  now = Date.now()
+): { username: string; credential: string; expiresAt: number } {
+  const expirySeconds = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expirySeconds}:${user}`;
+  const credential = crypto
+    .createHmac('sha1', secret)
+    .update(username)
+    .digest('base64');
+
+  return { username, credential, expiresAt: expirySeconds * 1000 };
+}
+
+/**
+ * ICE servers for one client, built from STUN_URLS, TURN_URLS and
+ * TURN_SECRET. TURN is only offered when both the URLs and the shared
+ * secret are configured.
+ */
+export function getIceConfig(user: string, now = Date.now()): IceConfig {
+  const stunUrls = process.env.STUN_URLS !== undefined
+    ? urlList(process.env.STUN_URLS)
+    : DEFAULT_STUN_URLS;
+  const turnUrls = urlList(process.env.TURN_URLS);
+  const secret = process.env.TURN_SECRET;
+  const ttlSeconds =
+    Number(process.env.TURN_CREDENTIAL_TTL_SECONDS) ||
+    DEFAULT_TURN_CREDENTIAL_TTL_SECONDS;
+
+  const iceServers: IceServer[] = [];
+
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  if (turnUrls.length > 0 && secret) {
+    const { username, credential, expiresAt } = createTurnCredentials(
+      secret,
+      user,
+      ttlSeconds,
+      now
+    );
+    iceServers.push({ urls: turnUrls, username, credential });
+    return { iceServers, expiresAt };
+  }
+
+  return { iceServers, expiresAt: now + ttlSeconds * 1000 };
+}
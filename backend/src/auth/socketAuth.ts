@@ -0,0 +1,66 @@
+import type { Socket } from 'socket.io';
+import { getUserData } from '../supabase_api/supabase_api.js';
+import { verifyAuthToken, verifyGuestToken } from './tokens.js';
+import { logger } from '../logging/logger.js';
+
+// Identity resolved during the handshake, stored on socket.data
+export interface SocketIdentity {
+  userId: string | null;
+  displayName: string;
+  guestMeetingId: string | null;
+}
+
+/**
+ * Socket.IO handshake middleware. Accepts either a Supabase access token
+ * (`auth.token`) or a meeting-scoped guest token (`auth.guestToken`) and
+ * rejects the connection otherwise.
+ */
+export async function socketAuthMiddleware(
+  socket: Socket,
+  next: (err?: Error) => void
+) {
+  const { token, guestToken } = socket.handshake.auth ?? {};
+
+  try {
+    if (typeof token === 'string' && token !== '') {
+      const { userId, error } = await verifyAuthToken(token);
+
+      if (error || !userId) {
+        next(new Error('Unauthorized'));
+        return;
+      }
+
+      const result = await getUserData(userId);
+      const displayName = result.data?.[0]?.full_name_enc ?? 'Unknown User';
+
+      const identity: SocketIdentity = {
+        userId,
+        displayName,
+        guestMeetingId: null,
+      };
+      socket.data = identity;
+      next();
+      return;
+    }
+
+    const guest = verifyGuestToken(
+      typeof guestToken === 'string' ? guestToken : undefined
+    );
+
+    if (!guest) {
+      next(new Error('Unauthorized'));
+      return;
+    }
+
+    const identity: SocketIdentity = {
+      userId: null,
+      displayName: guest.name,
+      guestMeetingId: guest.meetingId,
+    };
+    socket.data = identity;
+    next();
+  } catch (error) {
+    logger.error('Error authenticating socket', { socketId: socket.id, err: error });
+    next(new Error('Unauthorized'));
+  }
+}
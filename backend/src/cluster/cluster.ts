@@ -0,0 +1,102 @@
+import { randomUUID } from 'crypto';
+import { createClient } from 'redis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createMemoryRoomStateStore, type RoomStateStore } from './roomStateStore.js';
+import { createRedisRoomStateStore } from './redisRoomStateStore.js';
+import { logger } from '../logging/logger.js';
+import type { ServerEventName, ServerToClientEvents, SignalingServer } from '../managers/events.js';
+
+// Host actions that run on the instance holding the target socket. `end`
+// runs on every instance, each removing its own participants.
+export type ClusterCommand =
+  | { type: 'admit' | 'deny' | 'remove' | 'mute'; meetingId: string; socketId: string }
+  | { type: 'end'; meetingId: string };
+
+// Sockets in a Socket.IO room, leaving out one of them if given
+export interface BroadcastTarget {
+  room: string;
+  except?: string;
+}
+
+// What the managers need to reach participants held by other instances
+export interface ClusterLink {
+  store: RoomStateStore;
+  // Emits to a socket on whichever instance holds it
+  deliver: <E extends ServerEventName>(
+    socketId: string,
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ) => void;
+  // Emits to every socket in a room, whichever instances hold them
+  broadcast: <E extends ServerEventName>(
+    target: BroadcastTarget,
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ) => void;
+  // Hands a command to every other instance; the caller runs its own copy
+  publish(command: ClusterCommand): void;
+  // Runs commands published by the other instances
+  onCommand(handler: (command: ClusterCommand) => void): void;
+  close(): Promise<void>;
+}
+
+// Server-side event that carries commands between instances
+const COMMAND_EVENT = 'cluster-command';
+
+/**
+ * Connects this instance to the others. With REDIS_URL set, meeting state is
+ * kept in Redis and the Socket.IO Redis adapter carries events and host
+ * commands between instances, so participants on different instances share
+ * one roster, chat, lock and waiting room. Without it everything stays in
+ * this process, as a single instance.
+ */
+export async function createCluster(io: SignalingServer): Promise<ClusterLink> {
+  const deliver: ClusterLink['deliver'] = (socketId, event, ...args) => {
+    io.to(socketId).emit(event, ...args);
+  };
+
+  const broadcast: ClusterLink['broadcast'] = ({ room, except }, event, ...args) => {
+    const target = except === undefined ? io.to(room) : io.to(room).except(except);
+    target.emit(event, ...args);
+  };
+
+  if (!process.env.REDIS_URL) {
+    return {
+      store: createMemoryRoomStateStore(),
+      deliver,
+      broadcast,
+      // There are no other instances to tell
+      publish: () => {},
+      onCommand: () => {},
+      close: async () => {},
+    };
+  }
+
+  const pubClient = createClient({ url: process.env.REDIS_URL });
+  const subClient = pubClient.duplicate();
+  pubClient.on('error', (err) => logger.error('Redis client error', { err }));
+  subClient.on('error', (err) => logger.error('Redis subscriber error', { err }));
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+
+  io.adapter(createAdapter(pubClient, subClient));
+
+  const nodeId = randomUUID();
+  const store = await createRedisRoomStateStore(pubClient, { nodeId });
+  logger.info('Joined cluster', { nodeId });
+
+  return {
+    store,
+    deliver,
+    broadcast,
+    publish: (command) => {
+      io.serverSideEmit(COMMAND_EVENT, command);
+    },
+    onCommand: (handler) => {
+      io.on(COMMAND_EVENT, handler);
+    },
+    close: async () => {
+      await store.close();
+      await Promise.all([pubClient.quit(), subClient.quit()]);
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import type { RoomStateStore } from './roomStateStore.js';
+import type { ChatMessage } from '../managers/chat.js';
+import type { RosterEntry } from '../managers/roster.js';
+import type { OverlayConfig } from '../overlay/overlayConfig.js';
+
+// How long an instance counts as alive after its last heartbeat
+const DEFAULT_NODE_TTL_MS = 30_000;
+
+// The commands the store sends; a connected node-redis client provides them
+export interface RedisCommands {
+  hSet(key: string, field: string, value: string): Promise<number>;
+  hDel(key: string, fields: string[]): Promise<number>;
+  hGetAll(key: string): Promise<Record<string, string>>;
+  mGet(keys: string[]): Promise<Array<string | null>>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { PX: number }): Promise<unknown>;
+  del(keys: string[]): Promise<number>;
+  rPush(key: string, value: string): Promise<number>;
+  lTrim(key: string, start: number, stop: number): Promise<unknown>;
+  lRange(key: string, start: number, stop: number): Promise<string[]>;
+}
+
+export interface RedisRoomStateOptions {
+  // Identifies this instance; every participant it adds is tagged with it
+  nodeId: string;
+  nodeTtlMs?: number;
+}
+
+// meeting -> { socketId: nodeId }, and one expiring key per live instance
+const roomKey = (meetingId: string) => `room:${meetingId}:participants`;
+const nodeKey = (nodeId: string) => `node:${nodeId}`;
+
+// The rest of a meeting's state: { socketId: JSON } hashes for the roster,
+// overlay configs and waiting room, a flag for the lock and a chat list
+const rosterKey = (meetingId: string) => `room:${meetingId}:roster`;
+const overlaysKey = (meetingId: string) => `room:${meetingId}:overlays`;
+const waitingKey = (meetingId: string) => `room:${meetingId}:waiting`;
+const lockedKey = (meetingId: string) => `room:${meetingId}:locked`;
+const chatKey = (meetingId: string) => `room:${meetingId}:chat`;
+
+// A waiting room place, tagged like participants with the instance holding it
+interface WaitingRecord {
+  name: string;
+  nodeId: string;
+  queuedAt: number;
+}
+
+/**
+ * Store shared by every instance through Redis. Each participant is tagged
+ * with the instance holding their socket, and instances keep a heartbeat key
+ * alive; participants of an instance whose heartbeat lapsed (it crashed
+ * without cleaning up) are dropped the next time their meeting is read, and
+ * their roster entries, overlay configs and waiting places are ignored.
+ */
+export async function createRedisRoomStateStore(
+  client: RedisCommands,
+  { nodeId, nodeTtlMs = DEFAULT_NODE_TTL_MS }: RedisRoomStateOptions
+): Promise<RoomStateStore> {
+  const beat = () => client.set(nodeKey(nodeId), '1', { PX: nodeTtlMs });
+  await beat();
+
+  const heartbeat = setInterval(() => {
+    beat().catch(() => {
+      // Missed beats only matter if they outlast the TTL; the client logs the outage
+    });
+  }, nodeTtlMs / 3);
+  heartbeat.unref();
+
+  // The instances among `nodes` whose heartbeat has lapsed
+  const deadNodesAmong = async (nodes: string[]) => {
+    const unique = [...new Set(nodes)];
+
+    if (unique.length === 0) {
+      return new Set<string>();
+    }
+
+    const beats = await client.mGet(unique.map(nodeKey));
+    return new Set(unique.filter((_, i) => beats[i] === null));
+  };
+
+  // Members of the meeting whose instance is still alive
+  const liveParticipants = async (meetingId: string) => {
+    const members = await client.hGetAll(roomKey(meetingId));
+    const deadNodes = await deadNodesAmong(Object.values(members));
+    const stale = Object.keys(members).filter((id) => deadNodes.has(members[id]!));
+
+    if (stale.length > 0) {
+      await client.hDel(roomKey(meetingId), stale);
+    }
+
+    return Object.keys(members).filter((id) => !deadNodes.has(members[id]!));
+  };
+
+  // A { socketId: JSON } hash, keeping only the entries of live participants
+  const liveEntries = async <T>(meetingId: string, key: string) => {
+    const [entries, live] = await Promise.all([client.hGetAll(key), liveParticipants(meetingId)]);
+    return live.flatMap((socketId) => {
+      const entry = entries[socketId];
+      return entry === undefined ? [] : [[socketId, JSON.parse(entry) as T] as const];
+    });
+  };
+
+  const others = async (meetingId: string, socketId: string) =>
+    (await liveParticipants(meetingId)).filter((id) => id !== socketId);
+
+  // Writing before reading means two people joining at once on different
+  // instances always see each other
+  const addParticipant = async (meetingId: string, socketId: string) => {
+    await client.hSet(roomKey(meetingId), socketId, nodeId);
+    return others(meetingId, socketId);
+  };
+
+  return {
+    addParticipant,
+
+    async removeParticipant(meetingId, socketId) {
+      await client.hDel(roomKey(meetingId), [socketId]);
+      return liveParticipants(meetingId);
+    },
+
+    async replaceParticipant(meetingId, previousSocketId, socketId) {
+      await client.hDel(roomKey(meetingId), [previousSocketId]);
+      return addParticipant(meetingId, socketId);
+    },
+
+    participants: liveParticipants,
+
+    async setRosterEntry(meetingId, entry) {
+      await client.hSet(rosterKey(meetingId), entry.socketId, JSON.stringify(entry));
+    },
+
+    async roster(meetingId) {
+      return (await liveEntries<RosterEntry>(meetingId, rosterKey(meetingId))).map(([, entry]) => entry);
+    },
+
+    async setOverlayConfig(meetingId, socketId, config) {
+      await client.hSet(overlaysKey(meetingId), socketId, JSON.stringify(config));
+    },
+
+    async overlayConfigs(meetingId) {
+      return new Map(await liveEntries<OverlayConfig>(meetingId, overlaysKey(meetingId)));
+    },
+
+    async forgetParticipant(meetingId, socketId) {
+      await Promise.all([
+        client.hDel(rosterKey(meetingId), [socketId]),
+        client.hDel(overlaysKey(meetingId), [socketId]),
+      ]);
+    },
+
+    async addWaiting(meetingId, { socketId, name }) {
+      const record: WaitingRecord = { name, nodeId, queuedAt: Date.now() };
+      await client.hSet(waitingKey(meetingId), socketId, JSON.stringify(record));
+    },
+
+    async removeWaiting(meetingId, socketId) {
+      return (await client.hDel(waitingKey(meetingId), [socketId])) > 0;
+    },
+
+    async waiting(meetingId) {
+      const records = Object.entries(await client.hGetAll(waitingKey(meetingId)))
+        .map(([socketId, value]) => ({ socketId, ...(JSON.parse(value) as WaitingRecord) }));
+      const deadNodes = await deadNodesAmong(records.map((record) => record.nodeId));
+
+      return records
+        .filter((record) => !deadNodes.has(record.nodeId))
+        .sort((a, b) => a.queuedAt - b.queuedAt)
+        .map(({ socketId, name }) => ({ socketId, name }));
+    },
+
+    async setLocked(meetingId, locked) {
+      if (locked) {
+        await client.set(lockedKey(meetingId), '1');
+      } else {
+        await client.del([lockedKey(meetingId)]);
+      }
+    },
+
+    async isLocked(meetingId) {
+      return (await client.get(lockedKey(meetingId))) !== null;
+    },
+
+    async appendChat(meetingId, message, limit) {
+      await client.rPush(chatKey(meetingId), JSON.stringify(message));
+      await client.lTrim(chatKey(meetingId), -limit, -1);
+    },
+
+    async chatHistory(meetingId) {
+      return (await client.lRange(chatKey(meetingId), 0, -1)).map((value) => JSON.parse(value) as ChatMessage);
+    },
+
+    async clearMeeting(meetingId) {
+      await client.del([
+        rosterKey(meetingId),
+        overlaysKey(meetingId),
+        waitingKey(meetingId),
+        lockedKey(meetingId),
+        chatKey(meetingId),
+      ]);
+    },
+
+    // Other instances stop counting our participants straight away
+    async close() {
+      clearInterval(heartbeat);
+      await client.del([nodeKey(nodeId)]);
+    },
+  };
+}
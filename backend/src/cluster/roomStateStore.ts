@@ -0,0 +1,184 @@
+import { ringBuffer } from '../managers/ringBuffer.js';
+import type { ChatMessage } from '../managers/chat.js';
+import type { WaitingParticipant } from '../managers/meeting.js';
+import type { RosterEntry } from '../managers/roster.js';
+import type { OverlayConfig } from '../overlay/overlayConfig.js';
+
+// Who is in each meeting across every backend instance, and the meeting state
+// every instance must agree on. The managers keep their own view of the
+// sockets this instance holds; the store is what lets a participant on one
+// instance see, and be seen by, the ones connected to another.
+export interface RoomStateStore {
+  // Records a participant and returns everyone else in the meeting
+  addParticipant(meetingId: string, socketId: string): Promise<string[]>;
+  // Forgets a participant and returns whoever is left
+  removeParticipant(meetingId: string, socketId: string): Promise<string[]>;
+  // Moves a resumed participant onto their new socket and returns everyone else
+  replaceParticipant(meetingId: string, previousSocketId: string, socketId: string): Promise<string[]>;
+  participants(meetingId: string): Promise<string[]>;
+
+  // Roster entries and overlay configs of admitted participants, written by
+  // the instance holding each one
+  setRosterEntry(meetingId: string, entry: RosterEntry): Promise<void>;
+  roster(meetingId: string): Promise<RosterEntry[]>;
+  setOverlayConfig(meetingId: string, socketId: string, config: OverlayConfig): Promise<void>;
+  overlayConfigs(meetingId: string): Promise<Map<string, OverlayConfig>>;
+  // Drops a participant's roster entry and overlay config
+  forgetParticipant(meetingId: string, socketId: string): Promise<void>;
+
+  // Joiners held for the host, in the order they arrived
+  addWaiting(meetingId: string, participant: WaitingParticipant): Promise<void>;
+  // Returns false if the socket was not waiting
+  removeWaiting(meetingId: string, socketId: string): Promise<boolean>;
+  waiting(meetingId: string): Promise<WaitingParticipant[]>;
+
+  setLocked(meetingId: string, locked: boolean): Promise<void>;
+  isLocked(meetingId: string): Promise<boolean>;
+
+  // Recent chat, keeping the newest `limit` messages
+  appendChat(meetingId: string, message: ChatMessage, limit: number): Promise<void>;
+  chatHistory(meetingId: string): Promise<ChatMessage[]>;
+
+  // Forgets the roster, waiting room, lock and chat of a meeting nobody is in
+  clearMeeting(meetingId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Store for a single instance: everything lives in this process, exactly as
+ * the managers already see it.
+ */
+export function createMemoryRoomStateStore(): RoomStateStore {
+  const meetings = new Map<string, Set<string>>(); // meetingId -> socketIds
+  const rosters = new Map<string, Map<string, RosterEntry>>(); // meetingId -> socketId -> entry
+  const overlays = new Map<string, Map<string, OverlayConfig>>(); // meetingId -> socketId -> config
+  const waitingRooms = new Map<string, WaitingParticipant[]>(); // meetingId -> queue
+  const locked = new Set<string>(); // meetings closed to new joiners
+  const chats = new Map<string, ringBuffer<ChatMessage>>(); // meetingId -> recent messages
+
+  // Per-meeting map, created on first write
+  const entriesOf = <T>(maps: Map<string, Map<string, T>>, meetingId: string) => {
+    const entries = maps.get(meetingId) ?? new Map<string, T>();
+    maps.set(meetingId, entries);
+    return entries;
+  };
+
+  const others = (meetingId: string, socketId: string) =>
+    [...(meetings.get(meetingId) ?? [])].filter((id) => id !== socketId);
+
+  const remove = (meetingId: string, socketId: string) => {
+    const members = meetings.get(meetingId);
+    if (members?.delete(socketId) && members.size === 0) {
+      meetings.delete(meetingId);
+    }
+  };
+
+  return {
+    async addParticipant(meetingId, socketId) {
+      const members = meetings.get(meetingId) ?? new Set<string>();
+      meetings.set(meetingId, members);
+      members.add(socketId);
+      return others(meetingId, socketId);
+    },
+
+    async removeParticipant(meetingId, socketId) {
+      remove(meetingId, socketId);
+      return others(meetingId, socketId);
+    },
+
+    async replaceParticipant(meetingId, previousSocketId, socketId) {
+      remove(meetingId, previousSocketId);
+      return this.addParticipant(meetingId, socketId);
+    },
+
+    async participants(meetingId) {
+      return [...(meetings.get(meetingId) ?? [])];
+    },
+
+    // Copies are stored, as a shared store would, so later edits need a new write
+    async setRosterEntry(meetingId, entry) {
+      entriesOf(rosters, meetingId).set(entry.socketId, { ...entry });
+    },
+
+    async roster(meetingId) {
+      return [...(rosters.get(meetingId)?.values() ?? [])].map((entry) => ({ ...entry }));
+    },
+
+    async setOverlayConfig(meetingId, socketId, config) {
+      entriesOf(overlays, meetingId).set(socketId, { ...config });
+    },
+
+    async overlayConfigs(meetingId) {
+      return new Map(overlays.get(meetingId) ?? []);
+    },
+
+    async forgetParticipant(meetingId, socketId) {
+      rosters.get(meetingId)?.delete(socketId);
+      overlays.get(meetingId)?.delete(socketId);
+    },
+
+    async addWaiting(meetingId, participant) {
+      const waiting = waitingRooms.get(meetingId) ?? [];
+      waitingRooms.set(meetingId, waiting);
+      waiting.push({ ...participant });
+    },
+
+    async removeWaiting(meetingId, socketId) {
+      const waiting = waitingRooms.get(meetingId) ?? [];
+      const index = waiting.findIndex((participant) => participant.socketId === socketId);
+
+      if (index === -1) {
+        return false;
+      }
+
+      waiting.splice(index, 1);
+      if (waiting.length === 0) {
+        waitingRooms.delete(meetingId);
+      }
+      return true;
+    },
+
+    async waiting(meetingId) {
+      return (waitingRooms.get(meetingId) ?? []).map((participant) => ({ ...participant }));
+    },
+
+    async setLocked(meetingId, isLocked) {
+      if (isLocked) {
+        locked.add(meetingId);
+      } else {
+        locked.delete(meetingId);
+      }
+    },
+
+    async isLocked(meetingId) {
+      return locked.has(meetingId);
+    },
+
+    async appendChat(meetingId, message, limit) {
+      const history = chats.get(meetingId) ?? new ringBuffer<ChatMessage>(limit);
+      chats.set(meetingId, history);
+      history.push(message);
+    },
+
+    async chatHistory(meetingId) {
+      return chats.get(meetingId)?.toArray() ?? [];
+    },
+
+    async clearMeeting(meetingId) {
+      rosters.delete(meetingId);
+      overlays.delete(meetingId);
+      waitingRooms.delete(meetingId);
+      locked.delete(meetingId);
+      chats.delete(meetingId);
+    },
+
+    async close() {
+      meetings.clear();
+      rosters.clear();
+      overlays.clear();
+      waitingRooms.clear();
+      locked.clear();
+      chats.clear();
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import type { Server as HttpServer } from 'http';
+import type { NextFunction, Request, Response } from 'express';
+import { logger } from '../logging/logger.js';
+
+// How long clients are told to wait before rejoining, unless configured
+const DEFAULT_RETRY_AFTER_MS = 5_000;
+
+// How long in-flight HTTP requests get to finish before closing anyway
+const DEFAULT_DRAIN_TIMEOUT_MS = 10_000;
+
+// Anything that can be told the server is going away
+export interface RestartNotifier {
+  beginShutdown(retryAfterMs: number): void;
+  // Ends the open meeting sessions and attendance once sockets are closed
+  endAllSessions(): Promise<void>;
+}
+
+export interface ShutdownTargets {
+  httpServer: HttpServer;
+  // Socket.IO server; closing it disconnects every socket
+  io: { close(callback?: (error?: Error) => void): void };
+  participants: RestartNotifier;
+  // Shared room state, released once every socket is gone
+  cluster?: { close(): Promise<void> };
+  exit?: (code: number) => void;
+}
+
+let draining = false;
+let inFlight = 0;
+let idleWaiters: Array<() => void> = [];
+
+const positiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const retryAfterMs = () =>
+  positiveNumber(process.env.SHUTDOWN_RETRY_AFTER_MS, DEFAULT_RETRY_AFTER_MS);
+
+export const isDraining = () => draining;
+
+/**
+ * Express middleware that tracks in-flight requests and, once shutdown has
+ * begun, turns new ones away with 503 and a Retry-After hint. The liveness
+ * probe keeps answering so the orchestrator does not kill the drain early.
+ */
+export function drainRequests(req: Request, res: Response, next: NextFunction) {
+  if (draining && req.path !== '/healthz') {
+    res.setHeader('Connection', 'close');
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs() / 1000)));
+    res.status(503).json({ error: 'Server is restarting' });
+    return;
+  }
+
+  inFlight += 1;
+  res.once('close', () => {
+    inFlight -= 1;
+
+    if (inFlight === 0) {
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  });
+
+  next();
+}
+
+// Resolves true once `work` settles, or false if the timeout hits first
+function settleWithin(work: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => resolve(false), Math.max(timeoutMs, 0));
+    const settled = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+    work.then(settled, settled);
+  });
+}
+
+// Resolves true once no requests are in flight, or false if the timeout hits first
+function waitForInFlightRequests(timeoutMs: number): Promise<boolean> {
+  if (inFlight === 0) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      idleWaiters = idleWaiters.filter((waiter) => waiter !== onIdle);
+      resolve(false);
+    }, timeoutMs);
+
+    const onIdle = () => {
+      clearTimeout(timer);
+      resolve(true);
+    };
+
+    idleWaiters.push(onIdle);
+  });
+}
+
+/**
+ * Builds the SIGTERM handler: stops taking new joins and HTTP requests, tells
+ * every participant to come back after `retryAfterMs`, waits for in-flight
+ * requests, closes all sockets, and saves the end of every open meeting
+ * session and attendance row before exiting. The request wait and the final
+ * writes share one SHUTDOWN_TIMEOUT_MS budget.
+ */
+export function createShutdown({
+  httpServer,
+  io,
+  participants,
+  cluster,
+  exit = process.exit,
+}: ShutdownTargets) {
+  return async (signal: string) => {
+    if (draining) {
+      return;
+    }
+
+    draining = true;
+    const retryAfter = retryAfterMs();
+    logger.info('Shutting down', { signal, inFlightRequests: inFlight, retryAfterMs: retryAfter });
+
+    participants.beginShutdown(retryAfter);
+
+    // No new connections; idle keep-alive connections are dropped straight away
+    httpServer.close();
+    httpServer.closeIdleConnections();
+
+    const deadline =
+      Date.now() + positiveNumber(process.env.SHUTDOWN_TIMEOUT_MS, DEFAULT_DRAIN_TIMEOUT_MS);
+    const drained = await waitForInFlightRequests(deadline - Date.now());
+
+    if (!drained) {
+      logger.warn('Closing with requests still in flight', { inFlightRequests: inFlight });
+    }
+
+    await new Promise<void>((resolve) => io.close(() => resolve()));
+
+    const recorded = await settleWithin(participants.endAllSessions(), deadline - Date.now());
+    if (!recorded) {
+      logger.warn('Closing before meeting history was saved');
+    }
+
+    await cluster?.close().catch((err) => {
+      logger.warn('Could not release shared room state', { err });
+    });
+    logger.info('Shutdown complete');
+    exit(0);
+  };
+}
@@ -0,0 +1,124 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Logger that adds these fields to every entry, e.g. a request or socket id
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const DEFAULT_LEVEL: LogLevel = 'info';
+
+// Field names whose values are never written out while redaction is on
+const SENSITIVE_KEY =
+  /token|secret|password|authorization|cookie|credential|sdp|candidate|email|api_?key/i;
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const BEARER = /Bearer\s+[A-Za-z0-9._~+/=-]+/g;
+
+// Deeper structures are cut off rather than walked
+const MAX_DEPTH = 6;
+
+const minimumLevel = (): number => {
+  const configured = process.env.LOG_LEVEL?.trim().toLowerCase();
+  return configured && configured in LEVELS
+    ? LEVELS[configured as LogLevel | 'silent']
+    : LEVELS[DEFAULT_LEVEL];
+};
+
+// Redaction is on unless LOG_REDACT=false, e.g. while debugging locally
+const redactionEnabled = () => process.env.LOG_REDACT !== 'false';
+
+/**
+ * Turns a log field into something JSON.stringify can write: errors become
+ * plain objects, and with redaction on, sensitive keys, e-mail addresses and
+ * bearer tokens are masked.
+ */
+function prepare(value: unknown, redact: boolean, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return redact
+      ? value.replace(BEARER, 'Bearer [REDACTED]').replace(EMAIL, '[REDACTED_EMAIL]')
+      : value;
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: prepare(value.message, redact, depth + 1),
+      stack: value.stack,
+    };
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return `[Buffer ${value.length} bytes]`;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => prepare(item, redact, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] =
+      redact && SENSITIVE_KEY.test(key)
+        ? '[REDACTED]'
+        : prepare(field, redact, depth + 1);
+  }
+  return result;
+}
+
+function write(level: LogLevel, base: LogFields, message: string, fields?: LogFields) {
+  if (LEVELS[level] < minimumLevel()) {
+    return;
+  }
+
+  const entry = prepare(
+    { time: new Date().toISOString(), level, msg: message, ...base, ...fields },
+    redactionEnabled()
+  );
+  const line = JSON.stringify(entry);
+
+  if (level === 'warn' || level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Creates a logger that writes one JSON object per line. The minimum level
+ * comes from LOG_LEVEL (debug, info, warn, error or silent; default info).
+ */
+export function createLogger(base: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', base, message, fields),
+    info: (message, fields) => write('info', base, message, fields),
+    warn: (message, fields) => write('warn', base, message, fields),
+    error: (message, fields) => write('error', base, message, fields),
+    child: (fields) => createLogger({ ...base, ...fields }),
+  };
+}
+
+export const logger = createLogger();
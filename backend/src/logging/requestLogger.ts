@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { logger, type Logger } from './logger.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    requestId: string;
+    // Request-scoped logger carrying the request id (and user id once known)
+    log: Logger;
+  }
+}
+
+// Ids from upstream proxies are reused only if they look like ids
+const INCOMING_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+// Probes and scrapes arrive every few seconds; they are only logged at debug
+const QUIET_PATHS = new Set(['/healthz', '/readyz', '/metrics']);
+
+/**
+ * Gives every request a correlation id, taken from X-Request-Id when the
+ * load balancer sets one, echoes it back in the response, and logs the
+ * request once it completes.
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.headers['x-request-id'];
+  const requestId =
+    typeof incoming === 'string' && INCOMING_ID.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+
+  req.requestId = requestId;
+  req.log = logger.child({ requestId });
+  res.setHeader('X-Request-Id', requestId);
+
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const fields = {
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e4) / 100,
+    };
+
+    if (QUIET_PATHS.has(req.path)) {
+      req.log.debug('Request completed', fields);
+    } else {
+      req.log.info('Request completed', fields);
+    }
+  });
+
+  next();
+}
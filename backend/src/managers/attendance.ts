@@ -0,0 +1,128 @@
+import {
+    addAttendance,
+    createMeetingSession,
+    endAttendance,
+    endMeetingSession,
+} from "../supabase_api/supabase_api.js";
+import { logger, type LogFields } from "../logging/logger.js";
+
+// Persists when each meeting room was in use and who attended. Writes run in
+// the background and chain on the rows they depend on, so the live meeting
+// never waits on the database and a failed write only loses history.
+export class attendanceTracker {
+    private openSessions: Map<string, Promise<number | null>>; // meeting code -> session row id
+    private attendance: Map<string, Promise<number | null>>; // socketId -> attendance row id
+    private pending: Set<Promise<number | null>>; // writes not yet settled
+
+    constructor() {
+        this.openSessions = new Map<string, Promise<number | null>>();
+        this.attendance = new Map<string, Promise<number | null>>();
+        this.pending = new Set<Promise<number | null>>();
+    }
+
+    // Opens a session when the room gets its first participant, then records the join
+    participantJoined(meetingCode: string, meetingId: number, socketId: string, userId: string | null, name: string) {
+        const now = new Date().toISOString();
+
+        let session = this.openSessions.get(meetingCode);
+        if (!session) {
+            session = this.persist("starting meeting session", { meetingId: meetingCode }, async () => {
+                const { data, error } = await createMeetingSession(meetingId, now);
+                if (error) throw error;
+                return data?.id ?? null;
+            });
+            this.openSessions.set(meetingCode, session);
+        }
+
+        const sessionRow = session;
+        this.attendance.set(socketId, this.persist("recording attendance", { meetingId: meetingCode, socketId, userId }, async () => {
+            const sessionId = await sessionRow;
+            if (sessionId === null) return null;
+
+            const { data, error } = await addAttendance(sessionId, userId, name, now);
+            if (error) throw error;
+            return data?.id ?? null;
+        }));
+    }
+
+    // A resumed participant keeps the attendance row they joined with
+    participantResumed(previousId: string, socketId: string) {
+        const row = this.attendance.get(previousId);
+        if (row) {
+            this.attendance.delete(previousId);
+            this.attendance.set(socketId, row);
+        }
+    }
+
+    // Records the leave, closing the session too once the room is empty
+    participantLeft(meetingCode: string, socketId: string, roomEmpty: boolean) {
+        const now = new Date().toISOString();
+        this.endAttendance(socketId, now, { meetingId: meetingCode, socketId });
+
+        if (roomEmpty) {
+            this.endSession(meetingCode, now);
+        }
+    }
+
+    // Ends every attendance row and session still open, as the server stops,
+    // and resolves once all outstanding writes have settled
+    async endAll() {
+        const now = new Date().toISOString();
+        for (const socketId of [...this.attendance.keys()]) {
+            this.endAttendance(socketId, now, { socketId });
+        }
+        for (const meetingCode of [...this.openSessions.keys()]) {
+            this.endSession(meetingCode, now);
+        }
+
+        while (this.pending.size > 0) {
+            await Promise.all(this.pending);
+        }
+    }
+
+    private endAttendance(socketId: string, now: string, fields: LogFields) {
+        const row = this.attendance.get(socketId);
+        if (!row) return;
+
+        this.attendance.delete(socketId);
+        this.persist("recording leave", fields, async () => {
+            const attendanceId = await row;
+            if (attendanceId === null) return null;
+
+            const error = await endAttendance(attendanceId, now);
+            if (error) throw new Error(error);
+            return attendanceId;
+        });
+    }
+
+    private endSession(meetingCode: string, now: string) {
+        const session = this.openSessions.get(meetingCode);
+        if (!session) return;
+
+        this.openSessions.delete(meetingCode);
+        this.persist("ending meeting session", { meetingId: meetingCode }, async () => {
+            const sessionId = await session;
+            if (sessionId === null) return null;
+
+            const error = await endMeetingSession(sessionId, now);
+            if (error) throw new Error(error);
+            return sessionId;
+        });
+    }
+
+    // Runs a write, logging instead of throwing, and tracks it until it settles
+    private persist(action: string, fields: LogFields, write: () => Promise<number | null>): Promise<number | null> {
+        const pending = (async () => {
+            try {
+                return await write();
+            } catch (error) {
+                logger.error(`Error ${action}`, { ...fields, err: error });
+                return null;
+            }
+        })();
+
+        this.pending.add(pending);
+        pending.finally(() => this.pending.delete(pending));
+        return pending;
+    }
+}
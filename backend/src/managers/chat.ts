@@ -0,0 +1,9 @@
+// Chat message as relayed to participants and kept in a meeting's history
+export interface ChatMessage {
+    id: string,
+    meetingId: string,
+    senderId: string, // socket id at the time of sending
+    senderName: string,
+    text: string,
+    timestamp: string, // ISO time the server accepted the message
+}
@@ -0,0 +1,191 @@
+import type { ClientEventName, ClientPayload, IceCandidate, SignalingSocket } from "./events.js";
+import type { Logger } from "../logging/logger.js";
+import { parseOverlayConfig } from "../overlay/overlayConfig.js";
+import type { socketRateLimiter } from "./rateLimiter.js";
+import { recordFloodDisconnect, recordSocketLimitHit } from "../telemetry/metrics.js";
+
+// Runtime checks for every client event in shared/socketEvents.ts. Each validator returns
+// the payload it was given, narrowed to the contract, or null if it is
+// malformed. Limits are generous; handlers still apply their own rules
+// (chat length, display names, overlay frame decoding).
+
+// Socket ids, meeting codes and reconnect tokens are all short opaque strings
+const MAX_ID_LENGTH = 128;
+const MAX_NAME_LENGTH = 200;
+const MAX_CHAT_LENGTH = 10_000;
+const MAX_SDP_LENGTH = 64 * 1024;
+const MAX_CANDIDATE_LENGTH = 2048;
+// One landmark frame, sealed or not, is well under this
+const MAX_FRAME_BYTES = 4096;
+const MAX_TARGET_IDS = 64;
+
+type Validator<E extends ClientEventName> = (raw: unknown) => ClientPayload<E> | null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isId = (value: unknown): value is string =>
+    typeof value === "string" && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+const isText = (value: unknown, maxLength: number): value is string =>
+    typeof value === "string" && value.length <= maxLength;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+    value === undefined || value === null || check(value);
+
+const isFrame = (value: unknown): value is ArrayBuffer | Uint8Array =>
+    (value instanceof Uint8Array || value instanceof ArrayBuffer) && value.byteLength <= MAX_FRAME_BYTES;
+
+const isIceCandidate = (value: unknown): value is IceCandidate =>
+    isRecord(value) &&
+    (value.candidate === undefined || isText(value.candidate, MAX_CANDIDATE_LENGTH)) &&
+    isOptional(value.sdpMid, mid => isText(mid, MAX_ID_LENGTH)) &&
+    isOptional(value.sdpMLineIndex, index => Number.isInteger(index) && (index as number) >= 0) &&
+    isOptional(value.usernameFragment, fragment => isText(fragment, MAX_ID_LENGTH));
+
+// Payloads that only name a meeting and one participant in it
+const targetPayload = (raw: unknown) =>
+    isRecord(raw) && isId(raw.meetingId) && isId(raw.targetId)
+        ? { meetingId: raw.meetingId, targetId: raw.targetId }
+        : null;
+
+const sdpPayload = (raw: unknown) =>
+    isRecord(raw) && isId(raw.roomId) && isId(raw.targetId) && isText(raw.sdp, MAX_SDP_LENGTH)
+        ? { roomId: raw.roomId, sdp: raw.sdp, targetId: raw.targetId }
+        : null;
+
+export const clientEventValidators: { [E in ClientEventName]: Validator<E> } = {
+    "join-meeting": (raw) => {
+        if (!isRecord(raw) || !isId(raw.meetingId) || !isText(raw.name, MAX_NAME_LENGTH) ||
+            !isOptional(raw.reconnectToken, isId)) {
+            return null;
+        }
+        return { meetingId: raw.meetingId, name: raw.name, reconnectToken: (raw.reconnectToken as string | undefined) ?? null };
+    },
+
+    "offer": sdpPayload,
+    "answer": sdpPayload,
+
+    "ice-candidate": (raw) =>
+        isRecord(raw) && isId(raw.roomId) && isId(raw.targetId) && isIceCandidate(raw.candidate)
+            ? { roomId: raw.roomId, candidate: raw.candidate, targetId: raw.targetId }
+            : null,
+
+    "overlay-data": (raw) => {
+        if (!isRecord(raw) || !isId(raw.meetingId) || !isFrame(raw.frame)) {
+            return null;
+        }
+        if (raw.targetIds === undefined || raw.targetIds === null) {
+            return { meetingId: raw.meetingId, frame: raw.frame };
+        }
+        if (!Array.isArray(raw.targetIds) || raw.targetIds.length > MAX_TARGET_IDS || !raw.targetIds.every(isId)) {
+            return null;
+        }
+        return { meetingId: raw.meetingId, frame: raw.frame, targetIds: raw.targetIds };
+    },
+
+    "overlay-config": (raw) => {
+        const config = parseOverlayConfig(raw);
+        return isRecord(raw) && isId(raw.meetingId) && config ? { meetingId: raw.meetingId, ...config } : null;
+    },
+
+    "media-state": (raw) =>
+        isRecord(raw) && isId(raw.meetingId) && typeof raw.audioEnabled === "boolean" &&
+        typeof raw.videoEnabled === "boolean" && typeof raw.overlayEnabled === "boolean"
+            ? {
+                meetingId: raw.meetingId,
+                audioEnabled: raw.audioEnabled,
+                videoEnabled: raw.videoEnabled,
+                overlayEnabled: raw.overlayEnabled,
+            }
+            : null,
+
+    "recording-state": (raw) =>
+        isRecord(raw) && isId(raw.meetingId) && typeof raw.recording === "boolean"
+            ? { meetingId: raw.meetingId, recording: raw.recording }
+            : null,
+
+    "chat-message": (raw) =>
+        isRecord(raw) && isId(raw.meetingId) && isText(raw.text, MAX_CHAT_LENGTH)
+            ? { meetingId: raw.meetingId, text: raw.text }
+            : null,
+
+    "remove-participant": targetPayload,
+    "request-mute": targetPayload,
+    "admit-participant": targetPayload,
+    "deny-participant": targetPayload,
+
+    "lock-meeting": (raw) =>
+        isRecord(raw) && isId(raw.meetingId) && typeof raw.locked === "boolean"
+            ? { meetingId: raw.meetingId, locked: raw.locked }
+            : null,
+
+    "end-meeting": (raw) =>
+        isRecord(raw) && isId(raw.meetingId) ? { meetingId: raw.meetingId } : null,
+};
+
+/**
+ * Registers a handler for a client event that only ever sees payloads that
+ * passed the socket's rate and size limits and validation. Dropped and
+ * malformed payloads, and any error the handler throws or rejects with, are
+ * answered with an `error` event naming the event instead of reaching (or
+ * crashing) the handler. A socket that keeps hitting its limits is
+ * disconnected.
+ */
+export function onClientEvent<E extends ClientEventName>(
+    socket: SignalingSocket,
+    log: Logger,
+    limiter: socketRateLimiter,
+    event: E,
+    handler: (payload: ClientPayload<E>) => unknown
+) {
+    const fail = (err: unknown) => {
+        log.error("Socket handler failed", { event, err });
+        socket.emit("error", { event, message: `Could not handle ${event}` });
+    };
+
+    const listener = (raw: unknown) => {
+        if (socket.disconnected) {
+            return;
+        }
+
+        const limited = limiter.check(event, raw);
+        if (limited) {
+            log.warn("Socket event limited", { event, reason: limited });
+            recordSocketLimitHit(event, limited);
+
+            if (limiter.exhausted) {
+                log.warn("Disconnecting flooding socket", { event });
+                recordFloodDisconnect();
+                socket.disconnect(true);
+                return;
+            }
+
+            socket.emit("error", {
+                event,
+                message: limited === "size" ? `${event} payload too large` : `Too many ${event} messages`,
+            });
+            return;
+        }
+
+        const payload = clientEventValidators[event](raw);
+
+        if (payload === null) {
+            log.warn("Rejected malformed payload", { event });
+            socket.emit("error", { event, message: `Malformed ${event} payload` });
+            return;
+        }
+
+        try {
+            const result = handler(payload);
+            if (result instanceof Promise) {
+                result.catch(fail);
+            }
+        } catch (err) {
+            fail(err);
+        }
+    };
+
+    // Socket.IO cannot resolve the listener type for a generic event name
+    socket.on(event, listener as never);
+}
@@ -0,0 +1,20 @@
+import type { DefaultEventsMap, Server, Socket } from "socket.io";
+import type { SocketIdentity } from "../auth/socketAuth.js";
+import type { ClientToServerEvents, ServerToClientEvents } from "@shared/socketEvents.js";
+
+// The Socket.IO event contract itself lives in shared/socketEvents.ts, used
+// by the frontend as well; these are the server's typed ends of it.
+export type {
+    BinaryFrame,
+    ClientEventName,
+    ClientPayload,
+    ClientToServerEvents,
+    IceCandidate,
+    ServerEventName,
+    ServerToClientEvents,
+} from "@shared/socketEvents.js";
+
+// A connected client socket, carrying the identity checked at the handshake
+export type SignalingSocket = Socket<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketIdentity>;
+
+export type SignalingServer = Server<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketIdentity>;
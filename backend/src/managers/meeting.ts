@@ -0,0 +1,33 @@
+// Scheduled meeting a room belongs to, as looked up when participants join
+export interface MeetingInfo {
+    id: number,
+    meetingCode: string,
+    title: string,
+    ownerId: string,
+    hostName: string,
+    meetingTime: string,
+    waitingRoom: boolean, // joiners other than the host wait for admission
+}
+
+// Reasons a join-meeting request can be rejected, sent with the join-error event
+export type JoinErrorCode =
+    | "MEETING_NOT_FOUND"
+    | "MEETING_NOT_STARTED"
+    | "MEETING_ENDED"
+    | "MEETING_FULL"
+    | "MEETING_LOCKED"
+    | "ADMISSION_DENIED"
+    | "GUEST_NOT_ALLOWED"
+    | "LOOKUP_FAILED"
+    | "SERVER_RESTARTING";
+
+export interface JoinError {
+    code: JoinErrorCode,
+    message: string,
+}
+
+// Joiner held in a meeting's waiting room, as listed to the host
+export interface WaitingParticipant {
+    socketId: string,
+    name: string,
+}
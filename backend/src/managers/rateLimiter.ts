@@ -0,0 +1,180 @@
+import type { ClientEventName } from "./events.js";
+import { logger } from "../logging/logger.js";
+
+// How many of one event a socket may send: a steady rate plus a burst allowance
+export interface EventBudget {
+    perSecond: number,
+    burst: number,
+}
+
+export interface RateLimits {
+    budgets: { [E in ClientEventName]: EventBudget },
+    // Largest payload accepted for any event, binary frames included
+    maxPayloadBytes: number,
+    // Rejected messages a socket may rack up (one is forgiven per second) before it is disconnected
+    maxStrikes: number,
+}
+
+// Well above what the client sends in normal use: landmarks at
+// VITE_LANDMARK_SEND_HZ (20 by default), candidates in bursts while ICE
+// gathers, and a handful of clicks for everything else
+export const DEFAULT_EVENT_BUDGETS: RateLimits["budgets"] = {
+    "join-meeting": { perSecond: 1, burst: 5 },
+    "offer": { perSecond: 10, burst: 20 },
+    "answer": { perSecond: 10, burst: 20 },
+    "ice-candidate": { perSecond: 50, burst: 100 },
+    "overlay-data": { perSecond: 40, burst: 80 },
+    "overlay-config": { perSecond: 10, burst: 20 },
+    "media-state": { perSecond: 5, burst: 10 },
+    "recording-state": { perSecond: 2, burst: 5 },
+    "chat-message": { perSecond: 5, burst: 10 },
+    "remove-participant": { perSecond: 5, burst: 10 },
+    "lock-meeting": { perSecond: 5, burst: 10 },
+    "request-mute": { perSecond: 5, burst: 10 },
+    "end-meeting": { perSecond: 1, burst: 5 },
+    "admit-participant": { perSecond: 5, burst: 10 },
+    "deny-participant": { perSecond: 5, burst: 10 },
+};
+
+// Comfortably fits an SDP offer with many candidates
+const DEFAULT_MAX_PAYLOAD_BYTES = 128 * 1024;
+const DEFAULT_MAX_STRIKES = 20;
+// Nesting beyond this is not something the client ever sends
+const MAX_PAYLOAD_DEPTH = 8;
+
+/**
+ * Reads SOCKET_RATE_LIMITS ("event=perSecond:burst,..."), SOCKET_MAX_PAYLOAD_BYTES
+ * and SOCKET_MAX_STRIKES, falling back to the defaults above. Unknown events
+ * and malformed entries are skipped with a warning.
+ */
+export function loadRateLimits(env: NodeJS.ProcessEnv = process.env): RateLimits {
+    const budgets = { ...DEFAULT_EVENT_BUDGETS };
+
+    for (const entry of (env.SOCKET_RATE_LIMITS ?? "").split(",").map(e => e.trim()).filter(Boolean)) {
+        const [event = "", rate = ""] = entry.split("=");
+        const [perSecond = NaN, burst = NaN] = rate.split(":").map(Number);
+
+        if (!Object.hasOwn(budgets, event) || !(perSecond > 0) || !(burst >= 1)) {
+            logger.warn("Ignoring invalid SOCKET_RATE_LIMITS entry", { entry });
+            continue;
+        }
+        budgets[event as ClientEventName] = { perSecond, burst };
+    }
+
+    return {
+        budgets,
+        maxPayloadBytes: Number(env.SOCKET_MAX_PAYLOAD_BYTES) || DEFAULT_MAX_PAYLOAD_BYTES,
+        maxStrikes: Number(env.SOCKET_MAX_STRIKES) || DEFAULT_MAX_STRIKES,
+    };
+}
+
+/**
+ * Largest message the Socket.IO transport should buffer, so anything bigger
+ * than the largest accepted payload is refused before it is decoded. The
+ * headroom covers what payloadSize does not count: the event name, JSON
+ * quoting and the escaped line breaks in an SDP.
+ */
+export function transportBufferBytes(limits: RateLimits): number {
+    return limits.maxPayloadBytes + Math.ceil(limits.maxPayloadBytes / 16) + 1024;
+}
+
+// Holds up to `capacity` tokens, refilled continuously at `refillPerSecond`
+export class tokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+    private capacity: number;
+    private refillPerSecond: number;
+
+    constructor(capacity: number, refillPerSecond: number, now = Date.now()) {
+        this.capacity = capacity;
+        this.refillPerSecond = refillPerSecond;
+        this.tokens = capacity;
+        this.updatedAt = now;
+    }
+
+    // Spends a token if one is available
+    take(now = Date.now()): boolean {
+        const elapsedSeconds = Math.max(0, now - this.updatedAt) / 1000;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+        this.updatedAt = now;
+
+        if (this.tokens < 1) {
+            return false;
+        }
+        this.tokens--;
+        return true;
+    }
+}
+
+/**
+ * Rough size of a decoded payload: string lengths, binary byte lengths and
+ * a few bytes per number. Stops counting once past `limit`, so a huge
+ * payload costs no more to measure than a small one.
+ */
+export function payloadSize(value: unknown, limit: number, depth = 0): number {
+    if (typeof value === "string") {
+        return value.length;
+    }
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        return value.byteLength;
+    }
+    if (typeof value !== "object" || value === null) {
+        return 8;
+    }
+    if (depth >= MAX_PAYLOAD_DEPTH) {
+        return Infinity;
+    }
+
+    let size = 0;
+    for (const [key, item] of Object.entries(value)) {
+        size += key.length + payloadSize(item, limit - size, depth + 1);
+        if (size > limit) {
+            break;
+        }
+    }
+    return size;
+}
+
+export type LimitReason = "rate" | "size";
+
+// Per-socket limits, created with the socket's handlers and dropped with it
+export class socketRateLimiter {
+    private limits: RateLimits;
+    private buckets: Map<ClientEventName, tokenBucket>;
+    private strikes: tokenBucket;
+    // Ran out of strikes: kept sending after being told to stop
+    exhausted: boolean;
+
+    constructor(limits: RateLimits, now = Date.now()) {
+        this.limits = limits;
+        this.buckets = new Map<ClientEventName, tokenBucket>();
+        this.strikes = new tokenBucket(limits.maxStrikes, 1, now);
+        this.exhausted = false;
+    }
+
+    // Why this message should be dropped, or null if it is within limits
+    check(event: ClientEventName, payload: unknown, now = Date.now()): LimitReason | null {
+        let reason: LimitReason | null = null;
+
+        if (payloadSize(payload, this.limits.maxPayloadBytes) > this.limits.maxPayloadBytes) {
+            reason = "size";
+        } else if (!this.bucketFor(event, now).take(now)) {
+            reason = "rate";
+        }
+
+        if (reason && !this.strikes.take(now)) {
+            this.exhausted = true;
+        }
+        return reason;
+    }
+
+    private bucketFor(event: ClientEventName, now: number) {
+        let bucket = this.buckets.get(event);
+        if (!bucket) {
+            const { burst, perSecond } = this.limits.budgets[event];
+            bucket = new tokenBucket(burst, perSecond, now);
+            this.buckets.set(event, bucket);
+        }
+        return bucket;
+    }
+}
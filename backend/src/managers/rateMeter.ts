@@ -0,0 +1,48 @@
+// Counts events and reports their average rate over a sliding window of whole seconds
+export class rateMeter {
+    private buckets: number[];
+    private bucketSeconds: number[];
+    private total: number;
+    private windowSeconds: number;
+
+    constructor(windowSeconds = 10) {
+        this.windowSeconds = windowSeconds;
+        this.buckets = new Array<number>(windowSeconds).fill(0);
+        this.bucketSeconds = new Array<number>(windowSeconds).fill(-1);
+        this.total = 0;
+    }
+
+    mark(now = Date.now()) {
+        const second = Math.floor(now / 1000);
+        const index = second % this.windowSeconds;
+
+        // Reuse the slot once it belongs to a second that has left the window
+        if (this.bucketSeconds[index] !== second) {
+            this.bucketSeconds[index] = second;
+            this.buckets[index] = 0;
+        }
+
+        this.buckets[index]!++;
+        this.total++;
+    }
+
+    // Events since creation
+    get count(): number {
+        return this.total;
+    }
+
+    // Average events per second over the last complete window, excluding the current second
+    perSecond(now = Date.now()): number {
+        const current = Math.floor(now / 1000);
+        let sum = 0;
+
+        for (let i = 0; i < this.windowSeconds; i++) {
+            const second = this.bucketSeconds[i]!;
+            if (second < current && second >= current - this.windowSeconds) {
+                sum += this.buckets[i]!;
+            }
+        }
+
+        return sum / this.windowSeconds;
+    }
+}
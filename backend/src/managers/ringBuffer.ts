@@ -0,0 +1,38 @@
+// Fixed-size buffer that overwrites its oldest entry once full
+export class ringBuffer<T> {
+    private items: (T | undefined)[];
+    private capacity: number;
+    private start: number;
+    private count: number;
+
+    constructor(capacity: number) {
+        this.capacity = capacity;
+        this.items = new Array<T | undefined>(capacity);
+        this.start = 0;
+        this.count = 0;
+    }
+
+    push(item: T) {
+        const end = (this.start + this.count) % this.capacity;
+        this.items[end] = item;
+
+        if (this.count < this.capacity) {
+            this.count++;
+        } else {
+            this.start = (this.start + 1) % this.capacity;
+        }
+    }
+
+    // Entries from oldest to newest
+    toArray(): T[] {
+        const result: T[] = [];
+        for (let i = 0; i < this.count; i++) {
+            result.push(this.items[(this.start + i) % this.capacity] as T);
+        }
+        return result;
+    }
+
+    get size(): number {
+        return this.count;
+    }
+}
@@ -1,6 +1,15 @@
 import type { User } from "./user.js";
 
+// created:  one participant, waiting for someone to connect to
+// active:   two or more participants in the mesh
+// draining: every participant has dropped and is inside their reconnect window
+// closed:   emptied and removed; a later join always gets a fresh room
+export type RoomState = "created" | "active" | "draining" | "closed";
+
 export interface Room{
-    user1: User,
-    user2: User,
-}
\ No newline at end of file
+    meetingId: string,
+    participants: Map<string, User>, // socketId -> user
+    held: Map<string, Set<string>>, // dropped socketId -> peers that joined while it was away
+    state: RoomState,
+    stateChangedAt: number, // when the room entered its current state
+}
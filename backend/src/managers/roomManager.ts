@@ -1,88 +1,318 @@
 import type { User } from "./user.js";
-import type { Room } from "./room.js";
+import type { Room, RoomState } from "./room.js";
+import { logger, type Logger } from "../logging/logger.js";
+import { createMemoryRoomStateStore, type RoomStateStore } from "../cluster/roomStateStore.js";
+import type { ClusterLink } from "../cluster/cluster.js";
+import type { IceCandidate, ServerToClientEvents } from "./events.js";
 
 export class roomManager {
-    private rooms: Map<string, Room>;
+    private rooms: Map<string, Room>; // rooms holding this instance's sockets
+    private store: RoomStateStore; // membership across every instance
+    private deliver: ClusterLink["deliver"] | null; // reaches sockets on other instances
 
-    constructor() {
+    constructor(store: RoomStateStore = createMemoryRoomStateStore()) {
         this.rooms = new Map<string, Room>();
+        this.store = store;
+        this.deliver = null;
     }
 
-    createRoom(user1: User, user2: User, meetingId: string) {
+    // Shares membership with the other backend instances
+    useCluster(cluster: ClusterLink) {
+        this.store = cluster.store;
+        this.deliver = cluster.deliver;
+    }
+
+    addUser(user: User, meetingId: string) {
         const roomId = meetingId;
-        
-        // Create a room with current users
-        this.rooms.set(roomId, {
-            user1,
-            user2,
-        });
-    
-        console.log('🏠 Room created:', roomId);
-        
+        const room = this.rooms.get(roomId) ?? this.createRoom(meetingId);
+
+        // Dropped peers have no socket to answer on; they are connected up when they resume
+        const existingPeers: string[] = [];
+        for (const peerId of room.participants.keys()) {
+            const missed = room.held.get(peerId);
+            if (missed) {
+                missed.add(user.socket.id);
+            } else {
+                existingPeers.push(peerId);
+            }
+        }
+
+        room.participants.set(user.socket.id, user);
+        this.updateState(room);
+
         // Add a small delay to ensure clients are ready
         setTimeout(() => {
-            console.log('📤 Triggering offer creation');
-            user1.socket.emit("send-offer", { roomId });
+            // The newcomer opens one peer connection per existing participant
+            for (const targetId of existingPeers) {
+                if (!room.participants.has(targetId)) continue;
+                user.log.debug("Requesting offer", { meetingId, targetId });
+                user.socket.emit("send-offer", { roomId, targetId });
+            }
         }, 500); // 500ms delay
+
+        // Participants connected to other instances are paired the same way
+        this.withStore(meetingId, this.store.addParticipant(meetingId, user.socket.id), others => {
+            const remotePeers = this.remoteOnly(meetingId, others);
+
+            if (remotePeers.length === 0) {
+                return;
+            }
+
+            setTimeout(() => {
+                for (const targetId of remotePeers) {
+                    user.log.debug("Requesting offer", { meetingId, targetId, remote: true });
+                    user.socket.emit("send-offer", { roomId, targetId });
+                    this.deliver?.(targetId, "partner-connected", { meetingId });
+                }
+                user.socket.emit("partner-connected", { meetingId });
+            }, 500);
+        });
     }
 
-    onOffer(roomId: string, sdp: string, sendingSocketId: string) {
-        console.log('📄 Processing offer for room:', roomId);
-        const room = this.rooms.get(roomId);
-        
-        if (!room) {
-            console.log('❌ Room not found:', roomId);
+    // Participants in the meeting on every instance, used for the capacity check
+    async meetingSize(meetingId: string): Promise<number> {
+        const local = this.rooms.get(meetingId)?.participants.size ?? 0;
+
+        try {
+            return Math.max(local, (await this.store.participants(meetingId)).length);
+        } catch (err) {
+            logger.error("Room state store failed", { meetingId, err });
+            return local;
+        }
+    }
+
+    // Store updates run in the background; a failure only costs pairing across instances
+    private withStore<T>(meetingId: string, pending: Promise<T>, then: (result: T) => void) {
+        pending.then(then).catch(err => {
+            logger.error("Room state store failed", { meetingId, err });
+        });
+    }
+
+    // The participants that are not held by this instance
+    private remoteOnly(meetingId: string, socketIds: string[]): string[] {
+        const room = this.rooms.get(meetingId);
+        return socketIds.filter(id => !room?.participants.has(id));
+    }
+
+    // Number of peers in each room's mesh
+    participantCounts(): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const [meetingId, room] of this.rooms) {
+            counts.set(meetingId, room.participants.size);
+        }
+        return counts;
+    }
+
+    // Rooms that are gone report "closed"
+    getRoomState(meetingId: string): RoomState {
+        return this.rooms.get(meetingId)?.state ?? "closed";
+    }
+
+    // Rooms that have sat draining for longer than the TTL
+    expiredRooms(now: number, idleTtlMs: number): string[] {
+        return [...this.rooms.values()]
+            .filter(room => room.state === "draining" && now - room.stateChangedAt >= idleTtlMs)
+            .map(room => room.meetingId);
+    }
+
+    private createRoom(meetingId: string): Room {
+        const room: Room = {
+            meetingId,
+            participants: new Map<string, User>(),
+            held: new Map<string, Set<string>>(),
+            state: "created",
+            stateChangedAt: Date.now(),
+        };
+        this.rooms.set(meetingId, room);
+        logger.info("Room created", { meetingId });
+        return room;
+    }
+
+    // Moves the room to whichever state its participants now put it in
+    private updateState(room: Room) {
+        const connected = room.participants.size - room.held.size;
+        const next: RoomState =
+            room.participants.size === 0 ? "closed" :
+            connected === 0 ? "draining" :
+            room.participants.size >= 2 ? "active" : "created";
+
+        if (next === room.state) {
             return;
         }
-        
-        // Determine which user is receiving (the one who didn't send)
-        const receivingUser = room.user1.socket.id === sendingSocketId 
-            ? room.user2 
-            : room.user1;
-        
-        console.log('📤 Forwarding offer to user:', receivingUser.socket.id);
-        receivingUser.socket.emit("offer", {
-            sdp,
-            roomId
+
+        logger.debug("Room state changed", { meetingId: room.meetingId, from: room.state, to: next });
+        room.state = next;
+        room.stateChangedAt = Date.now();
+
+        if (next === "closed") {
+            this.rooms.delete(room.meetingId);
+            logger.info("Room removed", { meetingId: room.meetingId });
+        }
+    }
+
+    removeUser(socketId: string, meetingId: string) {
+        const room = this.rooms.get(meetingId);
+
+        if (!room || !room.participants.delete(socketId)) {
+            return;
+        }
+
+        room.held.delete(socketId);
+        for (const missed of room.held.values()) {
+            missed.delete(socketId);
+        }
+
+        // Let remaining peers tear down their connection to this socket
+        for (const participant of room.participants.values()) {
+            participant.socket.emit("user-disconnected", { socketId });
+        }
+
+        this.withStore(meetingId, this.store.removeParticipant(meetingId, socketId), remaining => {
+            for (const peerId of this.remoteOnly(meetingId, remaining)) {
+                this.deliver?.(peerId, "user-disconnected", { socketId });
+            }
         });
+
+        this.updateState(room);
     }
 
-    onAnswer(roomId: string, sdp: string, sendingSocketId: string) {
-        console.log('📄 Processing answer for room:', roomId);
-        const room = this.rooms.get(roomId);
-        
-        if (!room) {
-            console.log('❌ Room not found:', roomId);
+    // Keeps a dropped participant's place while they are inside their reconnect window
+    holdUser(socketId: string, meetingId: string) {
+        const room = this.rooms.get(meetingId);
+
+        if (!room || !room.participants.has(socketId) || room.held.has(socketId)) {
+            return;
+        }
+
+        room.held.set(socketId, new Set<string>());
+        this.updateState(room);
+    }
+
+    // Moves a participant who reconnected onto their new socket, keeping their place in the mesh
+    replaceUser(meetingId: string, previousSocketId: string, user: User) {
+        const room = this.rooms.get(meetingId);
+
+        if (!room || !room.participants.delete(previousSocketId)) {
             return;
         }
-        
-        // Determine which user is receiving (the one who didn't send)
-        const receivingUser = room.user1.socket.id === sendingSocketId 
-            ? room.user2 
-            : room.user1;
-        
-        console.log('📤 Forwarding answer to user:', receivingUser.socket.id);
-        receivingUser.socket.emit("answer", {
+
+        const missed = room.held.get(previousSocketId) ?? new Set<string>();
+        room.held.delete(previousSocketId);
+        for (const others of room.held.values()) {
+            if (others.delete(previousSocketId)) others.add(user.socket.id);
+        }
+
+        room.participants.set(user.socket.id, user);
+        user.log.debug("Peer resumed in room", { meetingId, previousId: previousSocketId });
+
+        // Anyone who joined while this participant was away connects to them now
+        for (const peerId of missed) {
+            const peer = room.participants.get(peerId);
+            const peerMissed = room.held.get(peerId);
+            if (!peer) continue;
+            if (peerMissed) {
+                // Both sides were away; whoever resumes last makes the connection
+                peerMissed.add(user.socket.id);
+                continue;
+            }
+            peer.log.debug("Requesting offer", { meetingId, targetId: user.socket.id });
+            peer.socket.emit("send-offer", { roomId: meetingId, targetId: user.socket.id });
+        }
+
+        const replaced = this.store.replaceParticipant(meetingId, previousSocketId, user.socket.id);
+        this.withStore(meetingId, replaced, others => {
+            for (const peerId of this.remoteOnly(meetingId, others)) {
+                this.deliver?.(peerId, "peer-reconnected", { previousId: previousSocketId, socketId: user.socket.id });
+            }
+        });
+
+        this.updateState(room);
+    }
+
+    onOffer(roomId: string, sdp: string, sendingSocketId: string, targetSocketId: string) {
+        this.relay(roomId, sendingSocketId, targetSocketId, "Forwarding offer", "offer", {
+            sdp,
+            roomId,
+            senderId: sendingSocketId,
+        });
+    }
+
+    onAnswer(roomId: string, sdp: string, sendingSocketId: string, targetSocketId: string) {
+        this.relay(roomId, sendingSocketId, targetSocketId, "Forwarding answer", "answer", {
             sdp,
-            roomId
+            roomId,
+            senderId: sendingSocketId,
+        });
+    }
+
+    onIceCandidate(roomId: string, sendingSocketId: string, targetSocketId: string, candidate: IceCandidate) {
+        this.relay(roomId, sendingSocketId, targetSocketId, "Forwarding ICE candidate", "add-ice-candidate", {
+            candidate,
+            senderId: sendingSocketId,
         });
     }
 
-    onIceCandidate(roomId: string, sendingSocketId: string, candidate: any, type: "sender" | "receiver") {
-        console.log('🧊 Processing ICE candidate for room:', roomId);
+    // Hands a signaling message to its target, here or on another instance
+    private relay<E extends "offer" | "answer" | "add-ice-candidate">(
+        roomId: string,
+        sendingSocketId: string,
+        targetSocketId: string,
+        description: string,
+        event: E,
+        ...args: Parameters<ServerToClientEvents[E]>
+    ) {
+        const receivingUser = this.getPeer(roomId, sendingSocketId, targetSocketId);
+        const log = this.senderLog(roomId, sendingSocketId);
+
+        if (receivingUser) {
+            log.debug(description, { meetingId: roomId, targetId: targetSocketId });
+            receivingUser.socket.emit(event, ...args);
+            return;
+        }
+
+        const deliver = this.deliver;
+        if (!deliver || !this.rooms.get(roomId)?.participants.has(sendingSocketId)) {
+            return;
+        }
+
+        this.withStore(roomId, this.store.participants(roomId), participants => {
+            if (!participants.includes(targetSocketId)) {
+                log.debug("Dropping signal for peer not in meeting", { meetingId: roomId, targetId: targetSocketId });
+                return;
+            }
+
+            log.debug(description, { meetingId: roomId, targetId: targetSocketId, remote: true });
+            deliver(targetSocketId, event, ...args);
+        });
+    }
+
+    // Signaling is logged at debug level under the sender's correlation id,
+    // and never with the SDP or candidate itself
+    private senderLog(roomId: string, sendingSocketId: string): Logger {
+        return this.rooms.get(roomId)?.participants.get(sendingSocketId)?.log ?? logger;
+    }
+
+    // Looks up the participant a signaling message is addressed to,
+    // dropping messages from sockets that are not members of the room
+    private getPeer(roomId: string, sendingSocketId: string, targetSocketId: string): User | undefined {
         const room = this.rooms.get(roomId);
-        
+
         if (!room) {
-            console.log('❌ Room not found:', roomId);
-            return;
+            logger.debug("Dropping signal for unknown room", { meetingId: roomId, socketId: sendingSocketId });
+            return undefined;
+        }
+
+        if (!room.participants.has(sendingSocketId)) {
+            logger.warn("Dropping signal from non-member", { meetingId: roomId, socketId: sendingSocketId });
+            return undefined;
         }
 
-        // Determine which user is receiving (the one who didn't send)
-        const receivingUser = room.user1.socket.id === sendingSocketId 
-            ? room.user2 
-            : room.user1;
+        const peer = room.participants.get(targetSocketId);
+
+        if (!peer) {
+            this.senderLog(roomId, sendingSocketId).debug("Peer not in local room", { meetingId: roomId, targetId: targetSocketId });
+        }
 
-        console.log('📤 Forwarding ICE candidate to user:', receivingUser.socket.id);
-        receivingUser.socket.emit("add-ice-candidate", { candidate, type });
+        return peer;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+// How a participant is shown in the meeting roster
+export type ParticipantRole = "host" | "participant" | "guest";
+
+// Media a participant is currently sending, as reported by their client
+export interface MediaState {
+    audioEnabled: boolean,
+    videoEnabled: boolean,
+    overlayEnabled: boolean,
+}
+
+export interface RosterEntry extends MediaState {
+    socketId: string,
+    name: string,
+    role: ParticipantRole,
+    reconnecting: boolean, // socket dropped, slot held in the grace window
+    recording: boolean, // recording the meeting locally; shown to everyone
+}
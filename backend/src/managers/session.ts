@@ -0,0 +1,10 @@
+// Resumable slot handed to an admitted participant. When their socket drops
+// the slot is held for a grace period so a reconnect can take it back.
+export interface ParticipantSession {
+    token: string,
+    meetingId: string,
+    socketId: string,
+    userId: string | null,
+    guestMeetingId: string | null,
+    graceTimer: ReturnType<typeof setTimeout> | null, // set while awaiting a reconnect
+}
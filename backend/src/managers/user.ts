@@ -1,6 +1,13 @@
-import {Socket} from "socket.io";
+import type { SignalingSocket } from "./events.js";
+import type { Logger } from "../logging/logger.js";
+
+// Longest display name shown in the roster, for signed-in users and guests alike
+export const MAX_DISPLAY_NAME_LENGTH = 60;
 
 export interface User {
-    socket: Socket;
+    socket: SignalingSocket;
     name: string;
-}
\ No newline at end of file
+    userId: string | null; // null for guests
+    guestMeetingId: string | null; // the only meeting a guest token allows
+    log: Logger; // tagged with this socket's correlation id and user id
+}
@@ -1,161 +1,1128 @@
-import { Socket } from "socket.io";
+import crypto from "crypto";
 import { roomManager } from "./roomManager.js";
-import type { User } from "./user.js";
+import { MAX_DISPLAY_NAME_LENGTH, type User } from "./user.js";
+import type { RoomState } from "./room.js";
+import type { BinaryFrame, ClientEventName, ClientPayload, ServerEventName, ServerToClientEvents, SignalingSocket } from "./events.js";
+import { onClientEvent } from "./eventValidation.js";
+import type { SocketIdentity } from "../auth/socketAuth.js";
+import type { ParticipantSession } from "./session.js";
+import type { ChatMessage } from "./chat.js";
+import type { MediaState, ParticipantRole, RosterEntry } from "./roster.js";
+import { attendanceTracker } from "./attendance.js";
+import { rateMeter } from "./rateMeter.js";
+import { loadRateLimits, socketRateLimiter, type RateLimits } from "./rateLimiter.js";
+import { decodeLandmarkFrame, isEncryptedLandmarkFrame } from "../../../shared/landmarkCodec.js";
+import { parseOverlayConfig, type OverlayConfig } from "../overlay/overlayConfig.js";
+import type { JoinError, JoinErrorCode, MeetingInfo, WaitingParticipant } from "./meeting.js";
+import type { RoomStats } from "../telemetry/metrics.js";
+import type { BroadcastTarget, ClusterCommand, ClusterLink } from "../cluster/cluster.js";
+import { createMemoryRoomStateStore, type RoomStateStore } from "../cluster/roomStateStore.js";
+import { getMeetingByCode, getUserData } from "../supabase_api/supabase_api.js";
+import { logger, type Logger } from "../logging/logger.js";
+
+// Default cap for mesh meetings; every participant uploads one stream per peer
+const DEFAULT_MAX_PARTICIPANTS = 6;
+
+// How long a dropped participant's slot is held for them to reconnect
+const DEFAULT_RECONNECT_GRACE_SECONDS = 30;
+
+// Recent chat replayed to late joiners, and the longest message accepted
+const CHAT_HISTORY_SIZE = 100;
+const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// How long a room may sit with every participant dropped before the sweeper
+// releases it, and how often the sweeper runs
+const DEFAULT_ROOM_IDLE_TTL_SECONDS = 300;
+const DEFAULT_ROOM_SWEEP_INTERVAL_SECONDS = 60;
+
+// Key for the session held by one socket in one meeting
+const slotKey = (socketId: string, meetingId: string) => `${meetingId}:${socketId}`;
+
+// Socket.IO rooms joined by every admitted participant of a meeting, and by its hosts
+const meetingRoom = (meetingId: string) => `meeting:${meetingId}`;
+const hostRoom = (meetingId: string) => `meeting:${meetingId}:hosts`;
+
+// Optional join window around meeting_time, disabled unless configured
+const optionalMinutes = (value: string | undefined): number | null =>
+    value !== undefined && value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : null;
 
 export class userManager {
-    private users: User[];
+    private users: Map<string, User>; // socketId -> connected user
     private roomManager: roomManager;
-    private meetingRooms: Map<string, string[]>; // meetingId -> [socketId1, socketId2, ...]
+    private attendance: attendanceTracker;
+    private store: RoomStateStore; // roster, chat, lock and waiting room, shared by every instance
+    private cluster: ClusterLink | null; // reaches sockets and instances beyond this one
+    private meetingRooms: Map<string, string[]>; // meetingId -> [socketId1, socketId2, ...] held here
+    private meetingDetails: Map<string, MeetingInfo>; // meetingId -> scheduled meeting
+    private waitingRooms: Map<string, string[]>; // meetingId -> sockets held here awaiting admission
+    private memberships: Map<string, Set<string>>; // socketId -> meetings it is in or waiting for
+    private sessions: Map<string, ParticipantSession>; // reconnect token -> session
+    private sessionSlots: Map<string, ParticipantSession>; // slotKey(socketId, meetingId) -> session
+    private roster: Map<string, RosterEntry>; // socketId -> roster entry of a participant held here
+    private overlayConfigs: Map<string, OverlayConfig>; // socketId -> latest overlay config
+    private overlayDataRate: rateMeter; // overlay frames relayed through the server
+    private rateLimits: RateLimits; // per-socket event budgets, shared by every socket's limiter
+    private reconnectGraceMs: number;
+    private roomIdleTtlMs: number;
+    private sweeper: ReturnType<typeof setInterval> | null;
+    private maxParticipants: number;
+    private joinEarlyMinutes: number | null;
+    private joinLateMinutes: number | null;
+    private restartRetryAfterMs: number | null; // set once the server starts shutting down
 
-    constructor() {
-        this.users = [];
-        this.roomManager = new roomManager();
+    constructor(maxParticipants = Number(process.env.MAX_MEETING_PARTICIPANTS) || DEFAULT_MAX_PARTICIPANTS) {
+        this.users = new Map<string, User>();
+        this.store = createMemoryRoomStateStore();
+        this.cluster = null;
+        this.roomManager = new roomManager(this.store);
+        this.attendance = new attendanceTracker();
         this.meetingRooms = new Map<string, string[]>();
+        this.meetingDetails = new Map<string, MeetingInfo>();
+        this.waitingRooms = new Map<string, string[]>();
+        this.memberships = new Map<string, Set<string>>();
+        this.sessions = new Map<string, ParticipantSession>();
+        this.sessionSlots = new Map<string, ParticipantSession>();
+        this.roster = new Map<string, RosterEntry>();
+        this.overlayConfigs = new Map<string, OverlayConfig>();
+        this.overlayDataRate = new rateMeter();
+        this.rateLimits = loadRateLimits();
+        this.reconnectGraceMs =
+            (Number(process.env.RECONNECT_GRACE_SECONDS) || DEFAULT_RECONNECT_GRACE_SECONDS) * 1000;
+        this.roomIdleTtlMs =
+            (Number(process.env.ROOM_IDLE_TTL_SECONDS) || DEFAULT_ROOM_IDLE_TTL_SECONDS) * 1000;
+        this.sweeper = null;
+        this.maxParticipants = maxParticipants;
+        this.joinEarlyMinutes = optionalMinutes(process.env.JOIN_WINDOW_EARLY_MINUTES);
+        this.joinLateMinutes = optionalMinutes(process.env.JOIN_WINDOW_LATE_MINUTES);
+        this.restartRetryAfterMs = null;
+    }
+
+    // Snapshot of live state for the /metrics endpoint
+    getStats(): RoomStats {
+        const waitingByMeeting = new Map<string, number>();
+        for (const [meetingId, waiting] of this.waitingRooms) {
+            waitingByMeeting.set(meetingId, waiting.length);
+        }
+
+        return {
+            connectedSockets: this.users.size,
+            participantsByMeeting: this.roomManager.participantCounts(),
+            waitingByMeeting,
+            overlayDataMessagesTotal: this.overlayDataRate.count,
+            overlayDataMessagesPerSecond: this.overlayDataRate.perSecond(),
+        };
+    }
+
+    // Called on SIGTERM: turns away new joins and tells everyone connected when to come back
+    beginShutdown(retryAfterMs: number) {
+        this.restartRetryAfterMs = retryAfterMs;
+        logger.info("Notifying sockets of restart", { sockets: this.users.size, retryAfterMs });
+
+        for (const user of this.users.values()) {
+            user.socket.emit("server-restarting", { retryAfterMs });
+        }
+    }
+
+    // Closes out the attendance history of everyone still here; resolves
+    // once it is saved, so shutdown can wait before exiting
+    endAllSessions() {
+        return this.attendance.endAll();
+    }
+
+    // Shares meetings with the other backend instances, and runs the host
+    // commands they pass on for sockets held here
+    useCluster(cluster: ClusterLink) {
+        this.roomManager.useCluster(cluster);
+        this.store = cluster.store;
+        this.cluster = cluster;
+        cluster.onCommand(command => this.applyCommand(command));
+    }
+
+    // Runs sweep() every ROOM_SWEEP_INTERVAL_SECONDS until stopSweeper()
+    startSweeper(intervalMs = (Number(process.env.ROOM_SWEEP_INTERVAL_SECONDS) || DEFAULT_ROOM_SWEEP_INTERVAL_SECONDS) * 1000) {
+        this.stopSweeper();
+        this.sweeper = setInterval(() => this.sweep(), intervalMs);
+        // Never keeps the process alive on its own
+        this.sweeper.unref();
+    }
+
+    stopSweeper() {
+        if (this.sweeper) {
+            clearInterval(this.sweeper);
+            this.sweeper = null;
+        }
     }
 
-    addUser(name: string, socket: Socket) {
-        this.users.push({ name, socket });
+    /**
+     * Safety net behind the disconnect handler and the reconnect timers:
+     * releases rooms left draining past ROOM_IDLE_TTL_SECONDS, drops sockets
+     * that went away without a disconnect event, and clears per-meeting and
+     * per-socket state nobody refers to any more. Returns the meetings closed.
+     */
+    sweep(now = Date.now()): string[] {
+        const expired = this.roomManager.expiredRooms(now, this.roomIdleTtlMs);
+
+        for (const meetingId of expired) {
+            logger.info("Closing idle room", { meetingId });
+            for (const participantId of [...this.meetingRooms.get(meetingId) ?? []]) {
+                this.leaveMeeting(participantId, meetingId);
+            }
+        }
+
+        for (const [socketId, user] of this.users) {
+            if (user.socket.disconnected) {
+                this.removeUser(socketId);
+            }
+        }
+
+        const meetingIds = new Set([
+            ...this.meetingRooms.keys(),
+            ...this.meetingDetails.keys(),
+            ...this.waitingRooms.keys(),
+        ]);
+        for (const meetingId of meetingIds) {
+            this.cleanUpMeeting(meetingId);
+        }
+
+        for (const socketId of [...this.roster.keys(), ...this.overlayConfigs.keys()]) {
+            if (!this.memberships.has(socketId)) {
+                this.roster.delete(socketId);
+                this.overlayConfigs.delete(socketId);
+            }
+        }
+
+        logger.debug("Sweep complete", { closedRooms: expired.length, ...this.retainedEntries() });
+        return expired;
+    }
+
+    // Size of every map the manager keeps, for the sweeper's log and leak checks
+    retainedEntries(): Record<string, number> {
+        return {
+            users: this.users.size,
+            rooms: this.roomManager.participantCounts().size,
+            meetings: this.meetingRooms.size,
+            meetingDetails: this.meetingDetails.size,
+            waitingRooms: this.waitingRooms.size,
+            memberships: this.memberships.size,
+            sessions: this.sessions.size,
+            sessionSlots: this.sessionSlots.size,
+            roster: this.roster.size,
+            overlayConfigs: this.overlayConfigs.size,
+        };
+    }
+
+    // Lifecycle state of a meeting's WebRTC room
+    getRoomState(meetingId: string): RoomState {
+        return this.roomManager.getRoomState(meetingId);
+    }
+
+    addUser(socket: SignalingSocket, identity: SocketIdentity) {
+        const user: User = {
+            socket,
+            name: identity.displayName,
+            userId: identity.userId,
+            guestMeetingId: identity.guestMeetingId,
+            log: logger.child({
+                correlationId: crypto.randomUUID(),
+                socketId: socket.id,
+                userId: identity.userId,
+            }),
+        };
+        this.users.set(socket.id, user);
+        user.log.info("Socket connected", { guest: identity.userId === null });
         this.initHandlers(socket);
         return;
     }
 
-    initHandlers(socket: Socket) {
-        socket.on("join-meeting", ({ meetingId, name }: { meetingId: string, name: string }) => {
-            this.handleJoinMeeting(socket, meetingId, name);
+    // Logger carrying the socket's correlation id, or a bare one once it has gone
+    private logFor(socketId: string): Logger {
+        return this.users.get(socketId)?.log ?? logger.child({ socketId });
+    }
+
+    // Every inbound event goes through onClientEvent, so handlers only see
+    // payloads that match the contract in shared/socketEvents.ts
+    initHandlers(socket: SignalingSocket) {
+        const limiter = new socketRateLimiter(this.rateLimits);
+        const on = <E extends ClientEventName>(event: E, handler: (payload: ClientPayload<E>) => unknown) =>
+            onClientEvent(socket, this.logFor(socket.id), limiter, event, handler);
+
+        on("join-meeting", ({ meetingId, name, reconnectToken }) =>
+            this.handleJoinMeeting(socket, meetingId, name, reconnectToken ?? null));
+
+        // WebRTC signaling handlers, addressed to a single peer by socket id
+        on("offer", ({ roomId, sdp, targetId }) => {
+            this.roomManager.onOffer(roomId, sdp, socket.id, targetId);
         });
 
-        // WebRTC signaling handlers
-        socket.on("offer", ({ roomId, sdp }: { roomId: string, sdp: string }) => {
-            console.log('📨 Received offer from client:', socket.id);
-            this.roomManager.onOffer(roomId, sdp, socket.id);
+        on("answer", ({ roomId, sdp, targetId }) => {
+            this.roomManager.onAnswer(roomId, sdp, socket.id, targetId);
         });
 
-        socket.on("answer", ({ roomId, sdp }: { roomId: string, sdp: string }) => {
-            console.log('📨 Received answer from client:', socket.id);
-            this.roomManager.onAnswer(roomId, sdp, socket.id);
+        on("ice-candidate", ({ roomId, candidate, targetId }) => {
+            this.roomManager.onIceCandidate(roomId, socket.id, targetId, candidate);
         });
 
-        socket.on("ice-candidate", ({ roomId, candidate, type }: { 
-            roomId: string, 
-            candidate: any, 
-            type: "sender" | "receiver" 
-        }) => {
-            console.log('🧊 Received ICE candidate from client:', socket.id);
-            this.roomManager.onIceCandidate(roomId, socket.id, candidate, type);
+        // Overlay data handler
+        // Clients stream landmarks over WebRTC data channels; this relay only
+        // covers peers whose channel has not opened yet, listed in targetIds
+        on("overlay-data", ({ meetingId, frame, targetIds }) => {
+            this.handleOverlayData(socket, meetingId, frame, targetIds ?? null);
         });
 
-        // Overlay data handler - NOW WITH OPACITY SUPPORT
-        socket.on("overlay-data", ({ meetingId, landmarks, overlayUrl, opacity }: { 
-            meetingId: string, 
-            landmarks: any,
-            overlayUrl: string | null,
-            opacity: number | null  // ADDED: opacity parameter
-        }) => {
-            this.handleOverlayData(socket, meetingId, landmarks, overlayUrl, opacity);  // ADDED: opacity parameter
+        // How to draw this participant's overlay, sent only when it changes
+        on("overlay-config", ({ meetingId, ...config }) => {
+            this.handleOverlayConfig(socket, meetingId, config);
+        });
+
+        on("media-state", ({ meetingId, ...media }) => {
+            this.handleMediaState(socket, meetingId, media);
+        });
+
+        on("recording-state", ({ meetingId, recording }) => {
+            this.handleRecordingState(socket, meetingId, recording);
+        });
+
+        on("chat-message", ({ meetingId, text }) => {
+            this.handleChatMessage(socket, meetingId, text);
+        });
+
+        // Host moderation commands, ignored unless sent by the meeting owner
+        on("remove-participant", ({ meetingId, targetId }) => {
+            this.handleRemoveParticipant(socket, meetingId, targetId);
+        });
+
+        on("lock-meeting", ({ meetingId, locked }) => {
+            this.handleLockMeeting(socket, meetingId, locked);
+        });
+
+        on("request-mute", ({ meetingId, targetId }) => {
+            this.handleRequestMute(socket, meetingId, targetId);
+        });
+
+        on("end-meeting", ({ meetingId }) => {
+            this.handleEndMeeting(socket, meetingId);
+        });
+
+        on("admit-participant", ({ meetingId, targetId }) => {
+            this.handleAdmitParticipant(socket, meetingId, targetId);
+        });
+
+        on("deny-participant", ({ meetingId, targetId }) => {
+            this.handleDenyParticipant(socket, meetingId, targetId);
         });
     }
 
-    // UPDATED: handleOverlayData now includes opacity parameter
     handleOverlayData(
-        socket: Socket, 
+        socket: SignalingSocket, 
         meetingId: string, 
-        landmarks: any, 
-        overlayUrl: string | null, 
-        opacity: number | null  // ADDED: opacity parameter
+        frame: BinaryFrame, 
+        targetIds: string[] | null = null
     ) {
         const participants = this.meetingRooms.get(meetingId);
         
-        if (!participants || participants.length < 2) {
+        if (!participants || participants.length < 2 || !participants.includes(socket.id)) {
             return; // No one to send to
         }
+
+        // Relay only well-formed frames; the payload itself is passed through untouched.
+        // End-to-end encrypted frames can only be checked for their size
+        if (!decodeLandmarkFrame(frame) && !isEncryptedLandmarkFrame(frame)) {
+            return;
+        }
+
+        this.overlayDataRate.mark();
         
-        // Find the other participant (not the sender)
-        const otherSocketId = participants.find(id => id !== socket.id);
-        
-        if (otherSocketId) {
-            const otherUser = this.users.find(u => u.socket.id === otherSocketId);
+        // Forward the frame to every other participant,
+        // tagged with the sender so each receiver draws on the right tile
+        for (const otherSocketId of participants) {
+            if (otherSocketId === socket.id) continue;
+            if (Array.isArray(targetIds) && !targetIds.includes(otherSocketId)) continue;
+
+            const otherUser = this.users.get(otherSocketId);
             
             if (otherUser) {
-                // Forward overlay data, URL, AND opacity to the other participant
                 otherUser.socket.emit("overlay-data", { 
-                    landmarks,
-                    overlayUrl,
-                    opacity  // ADDED: forward opacity to remote user
+                    socketId: socket.id,
+                    frame
                 });
             }
         }
     }
 
-    handleJoinMeeting(socket: Socket, meetingId: string, name: string) {
-        console.log(`👤 User ${socket.id} (${name}) joining meeting ${meetingId}`);
-        
-        // Get or create participants list for this meeting
-        if (!this.meetingRooms.has(meetingId)) {
-            this.meetingRooms.set(meetingId, []);
+    handleOverlayConfig(socket: SignalingSocket, meetingId: string, raw: unknown) {
+        const participants = this.meetingRooms.get(meetingId);
+
+        if (!participants || !participants.includes(socket.id)) {
+            return;
+        }
+
+        const config = parseOverlayConfig(raw);
+        if (!config) {
+            return;
+        }
+
+        this.overlayConfigs.set(socket.id, config);
+        this.withStore(meetingId, this.store.setOverlayConfig(meetingId, socket.id, config));
+
+        this.broadcast({ room: meetingRoom(meetingId), except: socket.id }, "overlay-config", {
+            socketId: socket.id,
+            ...config,
+        });
+    }
+
+    // Replays everyone else's overlay config to a participant who just joined or resumed
+    private sendOverlayConfigs(user: User, meetingId: string) {
+        this.withStore(meetingId, this.store.overlayConfigs(meetingId), configs => {
+            for (const [socketId, config] of configs) {
+                if (socketId === user.socket.id) continue;
+                user.socket.emit("overlay-config", { socketId, ...config });
+            }
+        });
+    }
+
+    handleMediaState(socket: SignalingSocket, meetingId: string, media: MediaState) {
+        const entry = this.roster.get(socket.id);
+
+        if (!entry || !this.meetingRooms.get(meetingId)?.includes(socket.id)) {
+            return;
+        }
+
+        entry.audioEnabled = media.audioEnabled === true;
+        entry.videoEnabled = media.videoEnabled === true;
+        entry.overlayEnabled = media.overlayEnabled === true;
+        this.updateRoster(meetingId, entry);
+    }
+
+    // Recording happens in the recorder's browser; the server only makes sure
+    // everyone in the meeting can see that it is happening
+    handleRecordingState(socket: SignalingSocket, meetingId: string, recording: boolean) {
+        const entry = this.roster.get(socket.id);
+
+        if (!entry || !this.meetingRooms.get(meetingId)?.includes(socket.id)) {
+            return;
+        }
+
+        entry.recording = recording === true;
+        this.logFor(socket.id).info(entry.recording ? "Recording started" : "Recording stopped", { meetingId });
+        this.updateRoster(meetingId, entry);
+    }
+
+    // Shares a participant's changed roster entry, then sends out the new roster
+    private updateRoster(meetingId: string, entry: RosterEntry) {
+        this.broadcastRoster(meetingId, this.store.setRosterEntry(meetingId, entry));
+    }
+
+    // Once `update` is stored, sends the full roster, from every instance, to
+    // everyone in the meeting; called on every change
+    private broadcastRoster(meetingId: string, update: Promise<void>) {
+        this.withStore(meetingId, update.then(() => this.store.roster(meetingId)), participants => {
+            this.emitToMeeting(meetingId, "roster", { meetingId, participants });
+        });
+    }
+
+    private roleOf(user: User, meeting: MeetingInfo): ParticipantRole {
+        if (this.isOwner(user, meeting)) {
+            return "host";
+        }
+        return user.userId === null ? "guest" : "participant";
+    }
+
+    handleChatMessage(socket: SignalingSocket, meetingId: string, text: string) {
+        const user = this.users.get(socket.id);
+
+        if (!user || !this.meetingRooms.get(meetingId)?.includes(socket.id) || typeof text !== "string") {
+            return;
+        }
+
+        const trimmed = text.trim();
+
+        if (trimmed === "" || trimmed.length > MAX_CHAT_MESSAGE_LENGTH) {
+            return;
+        }
+
+        const message: ChatMessage = {
+            id: crypto.randomUUID(),
+            meetingId,
+            senderId: socket.id,
+            senderName: user.name,
+            text: trimmed,
+            timestamp: new Date().toISOString(),
+        };
+
+        this.withStore(meetingId, this.store.appendChat(meetingId, message, CHAT_HISTORY_SIZE));
+
+        // Echo to the sender as well so everyone renders the server-assigned id and time
+        this.emitToMeeting(meetingId, "chat-message", message);
+    }
+
+    private sendChatHistory(user: User, meetingId: string) {
+        this.withStore(meetingId, this.store.chatHistory(meetingId), messages => {
+            if (messages.length > 0) {
+                user.socket.emit("chat-history", { meetingId, messages });
+            }
+        });
+    }
+
+    async handleJoinMeeting(socket: SignalingSocket, meetingId: string, name: string, reconnectToken: string | null = null) {
+        const initialUser = this.users.get(socket.id);
+
+        if (!initialUser) {
+            return;
         }
+
+        initialUser.log.info("Joining meeting", { meetingId, resuming: reconnectToken !== null });
+
+        if (this.restartRetryAfterMs !== null) {
+            socket.emit("server-restarting", { retryAfterMs: this.restartRetryAfterMs });
+            this.emitJoinError(socket, "SERVER_RESTARTING", "The server is restarting, please rejoin in a moment");
+            return;
+        }
+
+        // Guest tokens are scoped to the meeting they were issued for
+        if (initialUser.guestMeetingId !== null && initialUser.guestMeetingId !== meetingId) {
+            this.emitJoinError(socket, "GUEST_NOT_ALLOWED", "Guest access is not valid for this meeting");
+            return;
+        }
+
+        // A reconnecting participant takes their held slot back without rejoining
+        if (reconnectToken !== null && this.resumeSession(initialUser, meetingId, reconnectToken)) {
+            return;
+        }
+
+        const meeting = await this.lookupMeeting(socket, meetingId);
+
+        if (!meeting || !this.isWithinJoinWindow(socket, meeting)) {
+            return;
+        }
+
+        // Capacity counts participants connected to other instances as well
+        const meetingSize = await this.roomManager.meetingSize(meetingId);
+
+        // The host may have locked the meeting from any instance
+        let locked: boolean;
+        try {
+            locked = await this.store.isLocked(meetingId);
+        } catch (err) {
+            logger.error("Room state store failed", { meetingId, err });
+            this.emitJoinError(socket, "LOOKUP_FAILED", "Could not look up this meeting, please try again");
+            return;
+        }
+
+        // The socket may have disconnected while the meeting was being looked up
+        const user = this.users.get(socket.id);
+
+        if (!user) {
+            return;
+        }
+
+        // Signed-in users may pick a display name when joining; guests keep the name on their token
+        if (user.userId !== null && typeof name === "string" && name.trim() !== "") {
+            user.name = name.trim();
+        }
+        // Guest names are capped when their token is issued; this also covers older tokens
+        user.name = user.name.slice(0, MAX_DISPLAY_NAME_LENGTH);
         
-        const participants = this.meetingRooms.get(meetingId)!;
+        // The list itself is only created on admission, so rejected joins leave nothing behind
+        const participants = this.meetingRooms.get(meetingId) ?? [];
         
-        // Check if meeting already has 2 people
-        if (participants.length >= 2) {
-            socket.emit("error", { message: "Meeting is full (maximum 2 participants)" });
+        if (participants.includes(socket.id) || this.waitingRooms.get(meetingId)?.includes(socket.id)) {
+            return;
+        }
+
+        // Locked meetings only let the host back in
+        if (locked && !this.isOwner(user, meeting)) {
+            this.emitJoinError(socket, "MEETING_LOCKED", "The host has locked this meeting");
+            return;
+        }
+
+        // Check if meeting is already at capacity
+        if (Math.max(participants.length, meetingSize) >= this.maxParticipants) {
+            this.emitJoinError(socket, "MEETING_FULL", `Meeting is full (maximum ${this.maxParticipants} participants)`);
             return;
         }
         
+        this.meetingDetails.set(meetingId, meeting);
+
+        // Hold everyone but the host until the host lets them in
+        if (meeting.waitingRoom && !this.isOwner(user, meeting)) {
+            this.enterWaitingRoom(user, meetingId, meeting);
+            return;
+        }
+
+        this.admitToMeeting(user, meetingId, meeting);
+    }
+
+    private admitToMeeting(user: User, meetingId: string, meeting: MeetingInfo) {
+        const socket = user.socket;
+        const participants = this.meetingRooms.get(meetingId) ?? [];
+        this.meetingRooms.set(meetingId, participants);
+
         // Add this user to the meeting
         participants.push(socket.id);
+        this.addMembership(socket.id, meetingId);
+        this.joinRooms(user, meetingId, meeting);
+        this.attendance.participantJoined(meetingId, meeting.id, socket.id, user.userId, user.name);
+        const entry: RosterEntry = {
+            socketId: socket.id,
+            name: user.name,
+            role: this.roleOf(user, meeting),
+            audioEnabled: true,
+            videoEnabled: true,
+            overlayEnabled: true,
+            reconnecting: false,
+            recording: false,
+        };
+        this.roster.set(socket.id, entry);
+        this.updateRoster(meetingId, entry);
+
+        this.emitMeetingInfo(user, meetingId, meeting);
+        this.startSession(user, meetingId);
+        this.sendChatHistory(user, meetingId);
+        this.sendOverlayConfigs(user, meetingId);
+
+        // Hosts arriving after their guests see who is already waiting
+        if (this.isOwner(user, meeting)) {
+            this.notifyHostsOfWaitingRoom(meetingId);
+        }
         
+        // Join the WebRTC mesh - this triggers the signaling process with every existing peer
+        this.roomManager.addUser(user, meetingId);
+
         // If this is the first person, put them in waiting
         if (participants.length === 1) {
-            console.log(`⏳ User ${socket.id} waiting in meeting ${meetingId}`);
+            user.log.info("Waiting for peers", { meetingId });
             socket.emit("waiting");
             return;
         }
         
-        // If this is the second person, connect them via WebRTC
-        if (participants.length === 2) {
-            const user1SocketId = participants[0];
-            const user2SocketId = participants[1];
-            
-            const user1 = this.users.find(u => u.socket.id === user1SocketId);
-            const user2 = this.users.find(u => u.socket.id === user2SocketId);
-            
-            if (user1 && user2) {
-                console.log(`✅ Creating WebRTC room for meeting ${meetingId}`);
-                
-                // Notify both users they're connected
-                user1.socket.emit("partner-connected", { meetingId });
-                user2.socket.emit("partner-connected", { meetingId });
-                
-                // Create WebRTC room - this triggers the signaling process
-                this.roomManager.createRoom(user1, user2, meetingId);
+        user.log.info("Connecting to peers", { meetingId, peers: participants.length - 1 });
+
+        // Notify the newcomer and anyone still in the lobby that the meeting is live
+        for (const participantId of participants) {
+            const participant = this.users.get(participantId);
+            participant?.socket.emit("partner-connected", { meetingId });
+        }
+    }
+
+    // Meeting-wide events reach participants through these rooms, on any instance
+    private joinRooms(user: User, meetingId: string, meeting: MeetingInfo) {
+        user.socket.join(meetingRoom(meetingId));
+
+        if (this.isOwner(user, meeting)) {
+            user.socket.join(hostRoom(meetingId));
+        }
+    }
+
+    private startSession(user: User, meetingId: string) {
+        const token = crypto.randomBytes(24).toString("base64url");
+
+        const session: ParticipantSession = {
+            token,
+            meetingId,
+            socketId: user.socket.id,
+            userId: user.userId,
+            guestMeetingId: user.guestMeetingId,
+            graceTimer: null,
+        };
+        this.sessions.set(token, session);
+        this.sessionSlots.set(slotKey(user.socket.id, meetingId), session);
+
+        user.socket.emit("reconnect-token", { meetingId, token });
+    }
+
+    private findSession(socketId: string, meetingId: string): ParticipantSession | undefined {
+        return this.sessionSlots.get(slotKey(socketId, meetingId));
+    }
+
+    // Holds a dropped participant's slot, removing them if they do not come back in time
+    private holdSession(session: ParticipantSession) {
+        logger.info("Holding reconnect slot", { socketId: session.socketId, meetingId: session.meetingId, userId: session.userId });
+        this.emitToMeeting(session.meetingId, "participant-reconnecting", { socketId: session.socketId });
+
+        this.roomManager.holdUser(session.socketId, session.meetingId);
+
+        const entry = this.roster.get(session.socketId);
+        if (entry) {
+            entry.reconnecting = true;
+            this.updateRoster(session.meetingId, entry);
+        }
+
+        session.graceTimer = setTimeout(() => {
+            logger.info("Reconnect grace expired", { socketId: session.socketId, meetingId: session.meetingId, userId: session.userId });
+            this.leaveMeeting(session.socketId, session.meetingId);
+        }, this.reconnectGraceMs);
+    }
+
+    private resumeSession(user: User, meetingId: string, token: string): boolean {
+        const session = this.sessions.get(token);
+        const meeting = this.meetingDetails.get(meetingId);
+        const participants = this.meetingRooms.get(meetingId);
+        const index = participants?.indexOf(session?.socketId ?? "") ?? -1;
+
+        // The token must belong to this meeting, this identity, and a slot still held
+        if (
+            !session || !meeting || !participants || index === -1 ||
+            session.meetingId !== meetingId ||
+            session.userId !== user.userId ||
+            session.guestMeetingId !== user.guestMeetingId
+        ) {
+            return false;
+        }
+
+        const previousId = session.socketId;
+
+        if (session.graceTimer) {
+            clearTimeout(session.graceTimer);
+            session.graceTimer = null;
+        }
+
+        participants[index] = user.socket.id;
+        this.dropMembership(previousId, meetingId);
+        this.addMembership(user.socket.id, meetingId);
+        this.sessionSlots.delete(slotKey(previousId, meetingId));
+        this.sessionSlots.set(slotKey(user.socket.id, meetingId), session);
+        session.socketId = user.socket.id;
+        this.joinRooms(user, meetingId, meeting);
+        this.roomManager.replaceUser(meetingId, previousId, user);
+        this.attendance.participantResumed(previousId, user.socket.id);
+
+        const previousEntry = this.roster.get(previousId);
+        const entry = previousEntry && { ...previousEntry, socketId: user.socket.id, reconnecting: false };
+        this.roster.delete(previousId);
+        if (entry) {
+            this.roster.set(user.socket.id, entry);
+        }
+
+        const overlayConfig = this.overlayConfigs.get(previousId);
+        this.overlayConfigs.delete(previousId);
+        if (overlayConfig) {
+            this.overlayConfigs.set(user.socket.id, overlayConfig);
+        }
+
+        // The shared copies move onto the new socket too
+        const moved = this.store.forgetParticipant(meetingId, previousId).then(async () => {
+            if (entry) await this.store.setRosterEntry(meetingId, entry);
+            if (overlayConfig) await this.store.setOverlayConfig(meetingId, user.socket.id, overlayConfig);
+        });
+
+        user.log.info("Session resumed", { meetingId, previousId });
+
+        this.emitMeetingInfo(user, meetingId, meeting);
+        user.socket.emit("session-resumed", { meetingId, previousId });
+        // Catch up on anything said while the socket was down
+        this.sendChatHistory(user, meetingId);
+        this.sendOverlayConfigs(user, meetingId);
+
+        for (const participantId of participants) {
+            if (participantId === user.socket.id) continue;
+            const participant = this.users.get(participantId);
+            participant?.socket.emit("peer-reconnected", { previousId, socketId: user.socket.id });
+        }
+
+        if (this.isOwner(user, meeting)) {
+            this.notifyHostsOfWaitingRoom(meetingId);
+        }
+
+        this.broadcastRoster(meetingId, moved);
+        user.socket.emit(participants.length === 1 ? "waiting" : "partner-connected", { meetingId });
+        return true;
+    }
+
+    private enterWaitingRoom(user: User, meetingId: string, meeting: MeetingInfo) {
+        const waiting = this.waitingRooms.get(meetingId) ?? [];
+        this.waitingRooms.set(meetingId, waiting);
+        waiting.push(user.socket.id);
+        this.addMembership(user.socket.id, meetingId);
+
+        user.log.info("Waiting for admission", { meetingId });
+        this.emitMeetingInfo(user, meetingId, meeting);
+        user.socket.emit("waiting-room", { meetingId });
+
+        const queued = this.store.addWaiting(meetingId, { socketId: user.socket.id, name: user.name });
+        this.notifyHostsOfWaitingRoom(meetingId, queued);
+    }
+
+    // Sent once the lock state is read, since another instance may have changed it
+    private emitMeetingInfo(user: User, meetingId: string, meeting: MeetingInfo) {
+        this.withStore(meetingId, this.store.isLocked(meetingId), locked => {
+            user.socket.emit("meeting-info", {
+                meetingId,
+                title: meeting.title,
+                hostName: meeting.hostName,
+                meetingTime: meeting.meetingTime,
+                isHost: this.isOwner(user, meeting),
+                locked,
+                waitingRoom: meeting.waitingRoom,
+            });
+        });
+    }
+
+    handleAdmitParticipant(socket: SignalingSocket, meetingId: string, targetId: string) {
+        if (!this.isHost(socket, meetingId)) {
+            return;
+        }
+
+        this.logFor(socket.id).info("Host admitted participant", { meetingId, targetId });
+        this.runCommand({ type: "admit", meetingId, socketId: targetId });
+    }
+
+    handleDenyParticipant(socket: SignalingSocket, meetingId: string, targetId: string) {
+        if (!this.isHost(socket, meetingId)) {
+            return;
+        }
+
+        this.logFor(socket.id).info("Host denied participant", { meetingId, targetId });
+        this.runCommand({ type: "deny", meetingId, socketId: targetId });
+    }
+
+    // Sends every host in the meeting the waiting room queue, across all
+    // instances, once `update` is stored
+    private notifyHostsOfWaitingRoom(meetingId: string, update: Promise<unknown> = Promise.resolve()) {
+        this.withStore(meetingId, update.then(() => this.store.waiting(meetingId)), waiting => {
+            this.broadcast({ room: hostRoom(meetingId) }, "waiting-room-updated", { meetingId, waiting });
+        });
+    }
+
+    handleRemoveParticipant(socket: SignalingSocket, meetingId: string, targetId: string) {
+        if (!this.isHost(socket, meetingId) || targetId === socket.id) {
+            return;
+        }
+
+        this.logFor(socket.id).info("Host removed participant", { meetingId, targetId });
+        this.runCommand({ type: "remove", meetingId, socketId: targetId });
+    }
+
+    handleLockMeeting(socket: SignalingSocket, meetingId: string, locked: boolean) {
+        if (!this.isHost(socket, meetingId)) {
+            return;
+        }
+
+        this.logFor(socket.id).info(locked ? "Host locked meeting" : "Host unlocked meeting", { meetingId });
+        this.withStore(meetingId, this.store.setLocked(meetingId, locked), () => {
+            this.emitToMeeting(meetingId, "meeting-lock-changed", { meetingId, locked });
+        });
+    }
+
+    handleRequestMute(socket: SignalingSocket, meetingId: string, targetId: string) {
+        if (!this.isHost(socket, meetingId)) {
+            return;
+        }
+
+        this.logFor(socket.id).info("Host requested mute", { meetingId, targetId });
+        this.runCommand({ type: "mute", meetingId, socketId: targetId });
+    }
+
+    handleEndMeeting(socket: SignalingSocket, meetingId: string) {
+        if (!this.isHost(socket, meetingId)) {
+            return;
+        }
+
+        this.logFor(socket.id).info("Host ended meeting", { meetingId });
+        this.runCommand({ type: "end", meetingId });
+    }
+
+    // Host commands run here and on every other instance; only the instance
+    // holding the target socket finds anything to do
+    private runCommand(command: ClusterCommand) {
+        this.applyCommand(command);
+        this.cluster?.publish(command);
+    }
+
+    private applyCommand(command: ClusterCommand) {
+        switch (command.type) {
+            case "admit":
+                this.admitFromWaitingRoom(command.meetingId, command.socketId);
+                return;
+            case "deny":
+                this.denyFromWaitingRoom(command.meetingId, command.socketId);
+                return;
+            case "remove":
+                this.removeFromMeeting(command.meetingId, command.socketId);
+                return;
+            case "mute":
+                this.requestMute(command.meetingId, command.socketId);
+                return;
+            case "end":
+                this.endMeeting(command.meetingId);
+                return;
+        }
+    }
+
+    private async admitFromWaitingRoom(meetingId: string, socketId: string) {
+        const meeting = this.meetingDetails.get(meetingId);
+
+        if (!meeting || !this.leaveWaitingRoom(socketId, meetingId)) {
+            return;
+        }
+
+        // Capacity may have been reached while they were waiting
+        const meetingSize = await this.roomManager.meetingSize(meetingId);
+        const target = this.users.get(socketId);
+
+        if (!target) {
+            return;
+        }
+
+        if (Math.max(this.meetingRooms.get(meetingId)?.length ?? 0, meetingSize) >= this.maxParticipants) {
+            this.emitJoinError(target.socket, "MEETING_FULL", `Meeting is full (maximum ${this.maxParticipants} participants)`);
+            return;
+        }
+
+        // Leaving the waiting room may have dropped the details, if nobody else is held here
+        this.meetingDetails.set(meetingId, meeting);
+        this.admitToMeeting(target, meetingId, meeting);
+    }
+
+    private denyFromWaitingRoom(meetingId: string, socketId: string) {
+        if (!this.leaveWaitingRoom(socketId, meetingId)) {
+            return;
+        }
+
+        const target = this.users.get(socketId);
+        if (target) {
+            this.emitJoinError(target.socket, "ADMISSION_DENIED", "The host did not let you into this meeting");
+        }
+    }
+
+    private removeFromMeeting(meetingId: string, socketId: string) {
+        // The target may be disconnected and inside their reconnect grace window
+        if (!this.leaveMeeting(socketId, meetingId)) {
+            return;
+        }
+
+        this.users.get(socketId)?.socket.emit("removed-from-meeting", { meetingId });
+    }
+
+    private requestMute(meetingId: string, socketId: string) {
+        if (this.meetingRooms.get(meetingId)?.includes(socketId)) {
+            this.users.get(socketId)?.socket.emit("mute-requested", { meetingId });
+        }
+    }
+
+    // Sends everyone held here out of the meeting, admitted or still waiting
+    private endMeeting(meetingId: string) {
+        for (const participantId of this.meetingRooms.get(meetingId) ?? []) {
+            this.users.get(participantId)?.socket.emit("meeting-ended", { meetingId });
+        }
+
+        // Nobody is left to admit whoever is still waiting
+        for (const waitingId of [...this.waitingRooms.get(meetingId) ?? []]) {
+            this.users.get(waitingId)?.socket.emit("meeting-ended", { meetingId });
+            this.leaveWaitingRoom(waitingId, meetingId);
+        }
+
+        for (const participantId of [...this.meetingRooms.get(meetingId) ?? []]) {
+            this.leaveMeeting(participantId, meetingId);
+        }
+    }
+
+    // The host is the signed-in account that owns the meeting row; guests never are
+    private isOwner(user: User, meeting: MeetingInfo): boolean {
+        return user.userId !== null && user.userId === meeting.ownerId;
+    }
+
+    private isHost(socket: SignalingSocket, meetingId: string): boolean {
+        const user = this.users.get(socket.id);
+        const meeting = this.meetingDetails.get(meetingId);
+
+        if (!user || !meeting || !this.meetingRooms.get(meetingId)?.includes(socket.id) || !this.isOwner(user, meeting)) {
+            this.logFor(socket.id).warn("Ignoring host command from non-host", { meetingId });
+            return false;
+        }
+
+        return true;
+    }
+
+    private emitToMeeting<E extends ServerEventName>(meetingId: string, event: E, ...args: Parameters<ServerToClientEvents[E]>) {
+        this.broadcast({ room: meetingRoom(meetingId) }, event, ...args);
+    }
+
+    // Emits to a Socket.IO room: across the cluster when there is one, or
+    // else straight to the sockets held here
+    private broadcast<E extends ServerEventName>(target: BroadcastTarget, event: E, ...args: Parameters<ServerToClientEvents[E]>) {
+        if (this.cluster) {
+            this.cluster.broadcast(target, event, ...args);
+            return;
+        }
+
+        for (const user of this.users.values()) {
+            if (user.socket.rooms.has(target.room) && user.socket.id !== target.except) {
+                user.socket.emit(event, ...args);
             }
         }
     }
 
+    // Shared state is read and written in the background; a store failure
+    // only costs what other instances and later joiners see of the meeting
+    private withStore<T>(meetingId: string, pending: Promise<T>, then: (result: T) => void = () => {}) {
+        pending.then(then).catch(err => {
+            logger.error("Room state store failed", { meetingId, err });
+        });
+    }
+
+    // Resolves a meeting code to its scheduled meeting, rejecting unknown codes
+    private async lookupMeeting(socket: SignalingSocket, meetingCode: string): Promise<MeetingInfo | null> {
+        const result = await getMeetingByCode(meetingCode);
+
+        if (result.error) {
+            this.emitJoinError(socket, "LOOKUP_FAILED", "Could not look up this meeting, please try again");
+            return null;
+        }
+
+        if (!result.data) {
+            this.emitJoinError(socket, "MEETING_NOT_FOUND", "No meeting exists with this code");
+            return null;
+        }
+
+        const host = await getUserData(result.data.owner_id);
+
+        return {
+            id: result.data.id,
+            meetingCode: result.data.meeting_code,
+            title: result.data.meeting_title,
+            ownerId: result.data.owner_id,
+            hostName: host.data?.[0]?.full_name_enc ?? "Unknown Host",
+            meetingTime: result.data.meeting_time,
+            waitingRoom: result.data.waiting_room === true,
+        };
+    }
+
+    private isWithinJoinWindow(socket: SignalingSocket, meeting: MeetingInfo, now = Date.now()): boolean {
+        const start = new Date(meeting.meetingTime).getTime();
+
+        if (isNaN(start)) {
+            return true;
+        }
+
+        if (this.joinEarlyMinutes !== null && now < start - this.joinEarlyMinutes * 60_000) {
+            this.emitJoinError(socket, "MEETING_NOT_STARTED",
+                `This meeting opens ${this.joinEarlyMinutes} minutes before its scheduled time`);
+            return false;
+        }
+
+        if (this.joinLateMinutes !== null && now > start + this.joinLateMinutes * 60_000) {
+            this.emitJoinError(socket, "MEETING_ENDED", "This meeting has ended");
+            return false;
+        }
+
+        return true;
+    }
+
+    private emitJoinError(socket: SignalingSocket, code: JoinErrorCode, message: string) {
+        const error: JoinError = { code, message };
+        this.logFor(socket.id).info("Join rejected", { code });
+        socket.emit("join-error", error);
+    }
+
     removeUser(socketId: string) {
-        this.users = this.users.filter(x => x.socket.id !== socketId);
-        
-        // Remove from all meetings
-        for (const [meetingId, participants] of this.meetingRooms.entries()) {
-            const index = participants.indexOf(socketId);
-            if (index !== -1) {
-                participants.splice(index, 1);
-                
-                // Notify other participant if there is one
-                if (participants.length > 0) {
-                    const otherSocketId = participants[0];
-                    const otherUser = this.users.find(u => u.socket.id === otherSocketId);
-                    if (otherUser) {
-                        otherUser.socket.emit("user-disconnected");
-                    }
-                }
-                
-                // Clean up empty meetings
-                if (participants.length === 0) {
-                    this.meetingRooms.delete(meetingId);
-                }
+        this.logFor(socketId).info("Socket disconnected");
+        this.users.delete(socketId);
+
+        for (const meetingId of [...this.memberships.get(socketId) ?? []]) {
+            // Waiting room places are not held
+            if (this.leaveWaitingRoom(socketId, meetingId)) {
+                continue;
+            }
+
+            // Hold meeting slots open for a reconnect, and leave meetings without one
+            const session = this.findSession(socketId, meetingId);
+
+            if (session && this.reconnectGraceMs > 0) {
+                if (!session.graceTimer) this.holdSession(session);
+            } else {
+                this.leaveMeeting(socketId, meetingId);
             }
         }
     }
+
+    private addMembership(socketId: string, meetingId: string) {
+        const meetings = this.memberships.get(socketId) ?? new Set<string>();
+        this.memberships.set(socketId, meetings);
+        meetings.add(meetingId);
+    }
+
+    private dropMembership(socketId: string, meetingId: string) {
+        const meetings = this.memberships.get(socketId);
+
+        if (meetings?.delete(meetingId) && meetings.size === 0) {
+            this.memberships.delete(socketId);
+        }
+    }
+
+    // Takes a socket out of a waiting room, returning false if it was not waiting
+    private leaveWaitingRoom(socketId: string, meetingId: string): boolean {
+        const waiting = this.waitingRooms.get(meetingId);
+        const index = waiting?.indexOf(socketId) ?? -1;
+
+        if (!waiting || index === -1) {
+            return false;
+        }
+
+        waiting.splice(index, 1);
+        this.dropMembership(socketId, meetingId);
+
+        if (waiting.length === 0) {
+            this.waitingRooms.delete(meetingId);
+        }
+
+        this.notifyHostsOfWaitingRoom(meetingId, this.store.removeWaiting(meetingId, socketId));
+        this.cleanUpMeeting(meetingId);
+        return true;
+    }
+
+    // Drops per-meeting state once nobody is in the meeting or waiting for it
+    private cleanUpMeeting(meetingId: string) {
+        if ((this.meetingRooms.get(meetingId)?.length ?? 0) > 0 || this.waitingRooms.has(meetingId)) {
+            return;
+        }
+
+        this.meetingRooms.delete(meetingId);
+        this.meetingDetails.delete(meetingId);
+
+        // The shared state goes once no instance has anyone in the meeting or waiting for it
+        const inUse = Promise.all([this.store.participants(meetingId), this.store.waiting(meetingId)]);
+        this.withStore(meetingId, inUse, ([participants, waiting]) => {
+            if (participants.length === 0 && waiting.length === 0) {
+                this.withStore(meetingId, this.store.clearMeeting(meetingId));
+            }
+        });
+    }
+
+    // Takes a socket out of one meeting, returning false if it was not in it
+    private leaveMeeting(socketId: string, meetingId: string): boolean {
+        const participants = this.meetingRooms.get(meetingId);
+        const index = participants?.indexOf(socketId) ?? -1;
+
+        if (!participants || index === -1) {
+            return false;
+        }
+
+        participants.splice(index, 1);
+        this.dropMembership(socketId, meetingId);
+        this.attendance.participantLeft(meetingId, socketId, participants.length === 0);
+
+        const session = this.findSession(socketId, meetingId);
+        if (session) {
+            if (session.graceTimer) {
+                clearTimeout(session.graceTimer);
+            }
+            this.sessions.delete(session.token);
+            this.sessionSlots.delete(slotKey(socketId, meetingId));
+        }
+
+        const socket = this.users.get(socketId)?.socket;
+        socket?.leave(meetingRoom(meetingId));
+        socket?.leave(hostRoom(meetingId));
+
+        // Notify remaining participants so they drop this peer
+        this.roomManager.removeUser(socketId, meetingId);
+        this.roster.delete(socketId);
+        this.overlayConfigs.delete(socketId);
+        this.broadcastRoster(meetingId, this.store.forgetParticipant(meetingId, socketId));
+
+        // Clean up empty meetings
+        this.cleanUpMeeting(meetingId);
+
+        return true;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+// How a participant's overlay should be drawn over their video by everyone else.
+// Sent on change through the reliable overlay-config event; per-frame
+// landmarks only carry positions (see shared/landmarkCodec.ts).
+
+export const BLEND_MODES = ["normal", "multiply", "screen", "overlay"] as const;
+export type BlendMode = typeof BLEND_MODES[number];
+
+const MAX_OVERLAY_URL_LENGTH = 2048;
+
+export interface OverlayConfig {
+    overlayId: number,
+    overlayUrl: string,
+    opacity: number,
+    blendMode: BlendMode,
+    enabled: boolean, // false while the sender bakes the overlay into their video or has it off
+}
+
+/**
+ * Validates an overlay-config payload from a client, returning null if any field is invalid.
+ */
+export function parseOverlayConfig(raw: unknown): OverlayConfig | null {
+    if (typeof raw !== "object" || raw === null) {
+        return null;
+    }
+
+    const { overlayId, overlayUrl, opacity, blendMode, enabled } = raw as Record<string, unknown>;
+
+    if (typeof overlayId !== "number" || !Number.isInteger(overlayId)) {
+        return null;
+    }
+    if (typeof overlayUrl !== "string" || overlayUrl.length === 0 || overlayUrl.length > MAX_OVERLAY_URL_LENGTH) {
+        return null;
+    }
+    if (typeof opacity !== "number" || !(opacity >= 0 && opacity <= 1)) {
+        return null;
+    }
+    if (typeof blendMode !== "string" || !(BLEND_MODES as readonly string[]).includes(blendMode)) {
+        return null;
+    }
+    if (typeof enabled !== "boolean") {
+        return null;
+    }
+
+    return { overlayId, overlayUrl, opacity, blendMode: blendMode as BlendMode, enabled };
+}
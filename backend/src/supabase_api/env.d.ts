@@ -4,5 +4,26 @@ declare namespace NodeJS {
     SUPABASE_SERVICE_ROLE_KEY: string;
     SUPABASE_DB_PASSWORD: string;
     ENCRYPTION_KEY: string;
+    GUEST_TOKEN_SECRET: string;
+    MAX_MEETING_PARTICIPANTS?: string;
+    JOIN_WINDOW_EARLY_MINUTES?: string;
+    JOIN_WINDOW_LATE_MINUTES?: string;
+    RECONNECT_GRACE_SECONDS?: string;
+    ROOM_IDLE_TTL_SECONDS?: string;
+    ROOM_SWEEP_INTERVAL_SECONDS?: string;
+    STUN_URLS?: string;
+    TURN_URLS?: string;
+    TURN_SECRET?: string;
+    TURN_CREDENTIAL_TTL_SECONDS?: string;
+    METRICS_TOKEN?: string;
+    READINESS_TIMEOUT_MS?: string;
+    LOG_LEVEL?: string;
+    LOG_REDACT?: string;
+    SHUTDOWN_RETRY_AFTER_MS?: string;
+    SHUTDOWN_TIMEOUT_MS?: string;
+    REDIS_URL?: string;
+    SOCKET_RATE_LIMITS?: string;
+    SOCKET_MAX_PAYLOAD_BYTES?: string;
+    SOCKET_MAX_STRIKES?: string;
   }
 }
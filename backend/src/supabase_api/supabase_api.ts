@@ -1,5 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { encrypt, decrypt } from './encryption.js';
+import type { CallStatsSample } from '../telemetry/callStats.js';
+import { logger } from '../logging/logger.js';
 
 const url = process.env.SUPABASE_URL;
 const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -7,6 +9,10 @@ const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 const profileTable = 'profiles';
 const overlayTable = 'overlay-metadata';
 const meetingTable = 'meetings';
+const callStatsTable = 'call_stats';
+const recordingTable = 'recordings';
+const sessionTable = 'meeting_sessions';
+const attendanceTable = 'meeting_attendance';
 
 const toBuffer = (stored: string): Buffer =>
   Buffer.from(JSON.parse(stored).data);
@@ -28,7 +34,7 @@ export async function createUser(
       });
 
     if (authError) {
-      console.error('Error creating auth user:', authError);
+      logger.error('Error creating auth user', { err: authError });
       return { data: null, error: authError };
     }
 
@@ -47,13 +53,13 @@ export async function createUser(
       .select();
 
     if (error) {
-      console.error(`Error inserting into ${profileTable}:`, error);
+      logger.error(`Error inserting into ${profileTable}`, { err: error });
       return { data: null, error };
     }
 
     return { data: row, error: null };
   } catch (encryptError) {
-    console.error('Error in createUser:', encryptError);
+    logger.error('Error in createUser', { err: encryptError });
     return { data: null, error: encryptError };
   }
 }
@@ -142,7 +148,7 @@ export async function uploadOverlay(
       });
 
     if (uploadError) {
-      console.error('Error uploading file to storage:', uploadError);
+      logger.error('Error uploading file to storage', { err: uploadError });
       return { error: uploadError };
     }
 
@@ -154,14 +160,14 @@ export async function uploadOverlay(
     });
 
     if (dbError) {
-      console.error(`Error inserting into ${overlayTable}:`, dbError);
+      logger.error(`Error inserting into ${overlayTable}`, { err: dbError });
       await supabase.storage.from('overlays').remove([storagePath]);
       return { error: dbError };
     }
 
     return { error: null };
   } catch (unexpectedError) {
-    console.error('Unexpected error during upload:', unexpectedError);
+    logger.error('Unexpected error during upload', { err: unexpectedError });
     return { error: unexpectedError };
   }
 }
@@ -170,7 +176,8 @@ export async function scheduleMeeting(
   ownerId: string,
   meetingCode: string,
   meetingTime: string,
-  meetingTitle: string
+  meetingTitle: string,
+  waitingRoom?: boolean
 ): Promise<{ data: { id: number } | null; error: any }> {
   try {
     const { data, error } = await supabase
@@ -180,18 +187,19 @@ export async function scheduleMeeting(
         meeting_code: meetingCode,
         meeting_time: meetingTime,
         meeting_title: meetingTitle,
+        waiting_room: waitingRoom ?? false,
       })
       .select('id')
       .single();
 
     if (error) {
-      console.error('Error inserting meeting:', error);
+      logger.error('Error inserting meeting', { err: error });
       return { data: null, error };
     }
 
     return { data, error: null };
   } catch (unexpectedError) {
-    console.error('Unexpected error scheduling meeting:', unexpectedError);
+    logger.error('Unexpected error scheduling meeting', { err: unexpectedError });
     return { data: null, error: unexpectedError };
   }
 }
@@ -217,18 +225,49 @@ export async function getAllMeetings(
   try {
     const { data, error } = await supabase
       .from(meetingTable)
-      .select('id, owner_id, meeting_time, meeting_code, meeting_title')
+      .select('id, owner_id, meeting_time, meeting_code, meeting_title, waiting_room')
       .eq('owner_id', ownerId)
       .order('meeting_time', { ascending: true });
 
     if (error) {
-      console.error('Error fetching meetings:', error);
+      logger.error('Error fetching meetings', { err: error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (unexpectedError) {
+    logger.error('Unexpected error fetching meetings', { err: unexpectedError });
+    return { data: null, error: unexpectedError };
+  }
+}
+
+export async function getMeetingByCode(meetingCode: string): Promise<{
+  data: {
+    id: number;
+    owner_id: string;
+    meeting_time: string;
+    meeting_code: string;
+    meeting_title: string;
+    waiting_room: boolean;
+  } | null;
+  error: any;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from(meetingTable)
+      .select('id, owner_id, meeting_time, meeting_code, meeting_title, waiting_room')
+      .eq('meeting_code', meetingCode)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching meeting by code', { err: error });
       return { data: null, error };
     }
 
     return { data, error: null };
   } catch (unexpectedError) {
-    console.error('Unexpected error fetching meetings:', unexpectedError);
+    logger.error('Unexpected error fetching meeting by code', { err: unexpectedError });
     return { data: null, error: unexpectedError };
   }
 }
@@ -243,7 +282,7 @@ export async function getUserData(
       .eq('id', userId);
 
     if (error) {
-      console.error('Error fetching user data:', error);
+      logger.error('Error fetching user data', { err: error });
       return { data: null, error };
     }
 
@@ -255,7 +294,7 @@ export async function getUserData(
 
     return { data: decrypted, error: null };
   } catch (unexpectedError) {
-    console.error('Unexpected error fetching user data:', unexpectedError);
+    logger.error('Unexpected error fetching user data', { err: unexpectedError });
     return { data: null, error: unexpectedError };
   }
 }
@@ -273,13 +312,13 @@ export async function updateUserFullName(
       .eq('id', userId);
 
     if (error) {
-      console.error('Error updating full name:', error);
+      logger.error('Error updating full name', { err: error });
       return error.message;
     }
 
     return undefined;
   } catch (unexpectedError) {
-    console.error('Unexpected error updating full name:', unexpectedError);
+    logger.error('Unexpected error updating full name', { err: unexpectedError });
     return 'Unexpected error occurred';
   }
 }
@@ -292,7 +331,7 @@ export async function deleteUser(userId: string): Promise<undefined | string> {
       .list(userId);
 
     if (listError) {
-      console.error('Error listing user files:', listError);
+      logger.error('Error listing user files', { err: listError });
       return listError.message;
     }
 
@@ -303,7 +342,7 @@ export async function deleteUser(userId: string): Promise<undefined | string> {
         .remove(filePaths);
 
       if (removeError) {
-        console.error('Error deleting user files:', removeError);
+        logger.error('Error deleting user files', { err: removeError });
         return removeError.message;
       }
     }
@@ -316,7 +355,7 @@ export async function deleteUser(userId: string): Promise<undefined | string> {
       .eq('id', userId);
 
     if (profileError) {
-      console.error('Error deleting user profile:', profileError);
+      logger.error('Error deleting user profile', { err: profileError });
       return profileError.message;
     }
 
@@ -324,13 +363,13 @@ export async function deleteUser(userId: string): Promise<undefined | string> {
     const { error: authError } = await supabase.auth.admin.deleteUser(userId);
 
     if (authError) {
-      console.error('Error deleting auth user:', authError);
+      logger.error('Error deleting auth user', { err: authError });
       return authError.message;
     }
 
     return undefined;
   } catch (unexpectedError) {
-    console.error('Unexpected error deleting user:', unexpectedError);
+    logger.error('Unexpected error deleting user', { err: unexpectedError });
     return 'Unexpected error occurred';
   }
 }
@@ -340,7 +379,8 @@ export async function updateMeeting(
   ownerId: string,
   meetingTitle: string,
   meetingTime: string,
-  meetingCode: string
+  meetingCode: string,
+  waitingRoom?: boolean
 ): Promise<undefined | string> {
   try {
     const { error } = await supabase
@@ -349,18 +389,288 @@ export async function updateMeeting(
         meeting_title: meetingTitle,
         meeting_time: meetingTime,
         meeting_code: meetingCode,
+        // Left untouched unless the caller changes it
+        ...(waitingRoom !== undefined && { waiting_room: waitingRoom }),
       })
       .eq('id', meetingId)
       .eq('owner_id', ownerId);
 
     if (error) {
-      console.error('Error updating meeting:', error);
+      logger.error('Error updating meeting', { err: error });
+      return error.message;
+    }
+
+    return undefined;
+  } catch (unexpectedError) {
+    logger.error('Unexpected error updating meeting', { err: unexpectedError });
+    return 'Unexpected error occurred';
+  }
+}
+
+// Stores a meeting recording in the recordings bucket and records its metadata
+export async function uploadRecording(
+  ownerId: string,
+  meetingId: number,
+  file: NodeJS.ReadableStream,
+  sizeBytes: number,
+  durationSeconds: number | null
+): Promise<{ data: { id: number } | null; error: any }> {
+  try {
+    const storagePath = `${ownerId}/${meetingId}-${Date.now()}.webm`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('recordings')
+      .upload(storagePath, file, {
+        contentType: 'video/webm',
+        upsert: false,
+        duplex: 'half',
+      });
+
+    if (uploadError) {
+      logger.error('Error uploading recording to storage', { err: uploadError });
+      return { data: null, error: uploadError };
+    }
+
+    const { data, error: dbError } = await supabase
+      .from(recordingTable)
+      .insert({
+        owner_id: ownerId,
+        meeting_id: meetingId,
+        storage_path: storagePath,
+        size_bytes: sizeBytes,
+        duration_seconds: durationSeconds,
+      })
+      .select('id')
+      .single();
+
+    if (dbError) {
+      logger.error(`Error inserting into ${recordingTable}`, { err: dbError });
+      await supabase.storage.from('recordings').remove([storagePath]);
+      return { data: null, error: dbError };
+    }
+
+    return { data, error: null };
+  } catch (unexpectedError) {
+    logger.error('Unexpected error during recording upload', { err: unexpectedError });
+    return { data: null, error: unexpectedError };
+  }
+}
+
+// Stores call-quality samples reported by one participant of a meeting
+export async function insertCallStats(
+  meetingId: number,
+  userId: string | null,
+  samples: CallStatsSample[]
+): Promise<undefined | string> {
+  try {
+    const { error } = await supabase.from(callStatsTable).insert(
+      samples.map((sample) => ({
+        meeting_id: meetingId,
+        user_id: userId,
+        peer_id: sample.peerId,
+        sampled_at: sample.sampledAt,
+        rtt_ms: sample.rttMs,
+        packet_loss_pct: sample.packetLossPct,
+        jitter_ms: sample.jitterMs,
+        inbound_kbps: sample.inboundKbps,
+        outbound_kbps: sample.outboundKbps,
+        frame_rate: sample.frameRate,
+        candidate_type: sample.candidateType,
+        quality: sample.quality,
+      }))
+    );
+
+    if (error) {
+      logger.error('Error inserting call stats', { err: error });
+      return error.message;
+    }
+
+    return undefined;
+  } catch (unexpectedError) {
+    logger.error('Unexpected error inserting call stats', { err: unexpectedError });
+    return 'Unexpected error occurred';
+  }
+}
+
+// Records that a meeting's room was opened, returning the new session's id
+export async function createMeetingSession(
+  meetingId: number,
+  startedAt: string
+): Promise<{ data: { id: number } | null; error: any }> {
+  try {
+    const { data, error } = await supabase
+      .from(sessionTable)
+      .insert({ meeting_id: meetingId, started_at: startedAt })
+      .select('id')
+      .single();
+
+    if (error) {
+      logger.error('Error creating meeting session', { err: error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (unexpectedError) {
+    logger.error('Unexpected error creating meeting session', { err: unexpectedError });
+    return { data: null, error: unexpectedError };
+  }
+}
+
+export async function endMeetingSession(
+  sessionId: number,
+  endedAt: string
+): Promise<undefined | string> {
+  try {
+    const { error } = await supabase
+      .from(sessionTable)
+      .update({ ended_at: endedAt })
+      .eq('id', sessionId);
+
+    if (error) {
+      logger.error('Error ending meeting session', { err: error });
+      return error.message;
+    }
+
+    return undefined;
+  } catch (unexpectedError) {
+    logger.error('Unexpected error ending meeting session', { err: unexpectedError });
+    return 'Unexpected error occurred';
+  }
+}
+
+// Records a participant joining a session; userId is null for guests
+export async function addAttendance(
+  sessionId: number,
+  userId: string | null,
+  displayName: string,
+  joinedAt: string
+): Promise<{ data: { id: number } | null; error: any }> {
+  try {
+    const { data, error } = await supabase
+      .from(attendanceTable)
+      .insert({
+        session_id: sessionId,
+        user_id: userId,
+        display_name: displayName,
+        joined_at: joinedAt,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      logger.error('Error adding attendance', { err: error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (unexpectedError) {
+    logger.error('Unexpected error adding attendance', { err: unexpectedError });
+    return { data: null, error: unexpectedError };
+  }
+}
+
+export async function endAttendance(
+  attendanceId: number,
+  leftAt: string
+): Promise<undefined | string> {
+  try {
+    const { error } = await supabase
+      .from(attendanceTable)
+      .update({ left_at: leftAt })
+      .eq('id', attendanceId);
+
+    if (error) {
+      logger.error('Error ending attendance', { err: error });
+      return error.message;
+    }
+
+    return undefined;
+  } catch (unexpectedError) {
+    logger.error('Unexpected error ending attendance', { err: unexpectedError });
+    return 'Unexpected error occurred';
+  }
+}
+
+// Whether the user was admitted to any session of the meeting
+export async function hasAttendedMeeting(
+  meetingId: number,
+  userId: string
+): Promise<{ data: boolean; error: any }> {
+  try {
+    const { data, error } = await supabase
+      .from(attendanceTable)
+      .select(`id, session:${sessionTable}!inner(meeting_id)`)
+      .eq('user_id', userId)
+      .eq('session.meeting_id', meetingId)
+      .limit(1);
+
+    if (error) {
+      logger.error('Error checking attendance', { err: error });
+      return { data: false, error };
+    }
+
+    return { data: data.length > 0, error: null };
+  } catch (unexpectedError) {
+    logger.error('Unexpected error checking attendance', { err: unexpectedError });
+    return { data: false, error: unexpectedError };
+  }
+}
+
+// Sessions of one of the owner's meetings, newest first, with their attendance.
+// Returns null data without an error when the meeting is not the owner's.
+export async function getMeetingSessions(
+  meetingId: number,
+  ownerId: string
+): Promise<{ data: any[] | null; error: any }> {
+  try {
+    const { data: meeting, error: meetingError } = await supabase
+      .from(meetingTable)
+      .select('id')
+      .eq('id', meetingId)
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+
+    if (meetingError) {
+      logger.error('Error fetching meeting', { err: meetingError });
+      return { data: null, error: meetingError };
+    }
+
+    if (!meeting) {
+      return { data: null, error: null };
+    }
+
+    const { data, error } = await supabase
+      .from(sessionTable)
+      .select(
+        `id, started_at, ended_at, attendance:${attendanceTable}(id, user_id, display_name, joined_at, left_at)`
+      )
+      .eq('meeting_id', meetingId)
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error fetching meeting sessions', { err: error });
+      return { data: null, error };
+    }
+
+    return { data, error: null };
+  } catch (unexpectedError) {
+    logger.error('Unexpected error fetching meeting sessions', { err: unexpectedError });
+    return { data: null, error: unexpectedError };
+  }
+}
+
+// Cheapest query that proves the database answers; used by the readiness probe
+export async function checkDatabase(): Promise<undefined | string> {
+  try {
+    const { error } = await supabase.from(meetingTable).select('id').limit(1);
+
+    if (error) {
       return error.message;
     }
 
     return undefined;
   } catch (unexpectedError) {
-    console.error('Unexpected error updating meeting:', unexpectedError);
+    logger.error('Unexpected error checking database', { err: unexpectedError });
     return 'Unexpected error occurred';
   }
 }
@@ -0,0 +1,88 @@
+// One aggregated call-quality sample for a single peer connection, as posted
+// by clients to POST /api/call-stats
+
+export const CANDIDATE_TYPES = ['direct', 'relay'] as const;
+export type CandidateType = (typeof CANDIDATE_TYPES)[number];
+
+export const QUALITY_LEVELS = ['good', 'fair', 'poor'] as const;
+export type QualityLevel = (typeof QUALITY_LEVELS)[number];
+
+// Most samples accepted in one request
+export const MAX_SAMPLES_PER_REQUEST = 50;
+
+export interface CallStatsSample {
+  peerId: string;
+  sampledAt: string;
+  rttMs: number | null;
+  packetLossPct: number | null;
+  jitterMs: number | null;
+  inboundKbps: number | null;
+  outboundKbps: number | null;
+  frameRate: number | null;
+  candidateType: CandidateType | null;
+  quality: QualityLevel;
+}
+
+const METRIC_FIELDS = [
+  'rttMs',
+  'packetLossPct',
+  'jitterMs',
+  'inboundKbps',
+  'outboundKbps',
+  'frameRate',
+] as const;
+
+// Metrics are optional, but present ones must be finite and non-negative
+const isMetric = (value: unknown): value is number | null =>
+  value === null ||
+  (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+/**
+ * Validates one sample from a client, returning null if any field is invalid.
+ */
+export function parseCallStatsSample(raw: unknown): CallStatsSample | null {
+  if (typeof raw !== 'object' || raw === null) {
+    return null;
+  }
+
+  const sample = raw as Record<string, unknown>;
+  const { peerId, sampledAt, candidateType, quality } = sample;
+
+  if (typeof peerId !== 'string' || peerId === '' || peerId.length > 100) {
+    return null;
+  }
+  if (typeof sampledAt !== 'string' || isNaN(Date.parse(sampledAt))) {
+    return null;
+  }
+  if (
+    candidateType !== null &&
+    !(CANDIDATE_TYPES as readonly unknown[]).includes(candidateType)
+  ) {
+    return null;
+  }
+  if (!(QUALITY_LEVELS as readonly unknown[]).includes(quality)) {
+    return null;
+  }
+
+  const metrics: Record<string, number | null> = {};
+  for (const field of METRIC_FIELDS) {
+    const value = sample[field] ?? null;
+    if (!isMetric(value)) {
+      return null;
+    }
+    metrics[field] = value;
+  }
+
+  return {
+    peerId,
+    sampledAt: new Date(sampledAt).toISOString(),
+    rttMs: metrics.rttMs ?? null,
+    packetLossPct: metrics.packetLossPct ?? null,
+    jitterMs: metrics.jitterMs ?? null,
+    inboundKbps: metrics.inboundKbps ?? null,
+    outboundKbps: metrics.outboundKbps ?? null,
+    frameRate: metrics.frameRate ?? null,
+    candidateType: candidateType as CandidateType | null,
+    quality: quality as QualityLevel,
+  };
+}
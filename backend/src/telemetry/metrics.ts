@@ -0,0 +1,196 @@
+import type { NextFunction, Request, Response } from 'express';
+
+// Live signaling state, read from the userManager on every scrape
+export interface RoomStats {
+  connectedSockets: number;
+  participantsByMeeting: Map<string, number>;
+  waitingByMeeting: Map<string, number>;
+  overlayDataMessagesTotal: number;
+  overlayDataMessagesPerSecond: number;
+}
+
+// Upper bounds, in seconds, of the request latency histogram
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Upper bounds of the participants-per-meeting histogram
+const MEETING_SIZE_BUCKETS = [1, 2, 3, 4, 6, 8, 12, 16, 25, 50];
+
+interface RouteSeries {
+  method: string;
+  route: string;
+  status: number;
+  count: number;
+  durationSum: number;
+  bucketCounts: number[];
+}
+
+const routeSeries = new Map<string, RouteSeries>();
+// Socket messages dropped by the rate limiter, keyed by "event reason"
+const socketLimitHits = new Map<string, { event: string; reason: string; count: number }>();
+let floodDisconnects = 0;
+let roomStatsSource: (() => RoomStats) | null = null;
+
+// The socket server lives outside the Express app, so it registers itself here
+export function setRoomStatsSource(source: (() => RoomStats) | null) {
+  roomStatsSource = source;
+}
+
+export function recordHttpRequest(
+  method: string,
+  route: string,
+  status: number,
+  durationSeconds: number
+) {
+  const key = `${method} ${route} ${status}`;
+  let series = routeSeries.get(key);
+
+  if (!series) {
+    series = {
+      method,
+      route,
+      status,
+      count: 0,
+      durationSum: 0,
+      bucketCounts: LATENCY_BUCKETS.map(() => 0),
+    };
+    routeSeries.set(key, series);
+  }
+
+  series.count++;
+  series.durationSum += durationSeconds;
+  LATENCY_BUCKETS.forEach((bound, i) => {
+    if (durationSeconds <= bound) series.bucketCounts[i]!++;
+  });
+}
+
+export function recordSocketLimitHit(event: string, reason: string) {
+  const key = `${event} ${reason}`;
+  const hits = socketLimitHits.get(key) ?? { event, reason, count: 0 };
+  hits.count++;
+  socketLimitHits.set(key, hits);
+}
+
+export function recordFloodDisconnect() {
+  floodDisconnects++;
+}
+
+/**
+ * Times every request and records it under its route pattern
+ * (`/api/delete-meeting/:id`, not the concrete URL) so label values stay
+ * bounded. Requests that match no route are grouped as "unmatched".
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const durationSeconds = Number(process.hrtime.bigint() - start) / 1e9;
+    const route = req.route?.path
+      ? `${req.baseUrl}${String(req.route.path)}`
+      : 'unmatched';
+
+    recordHttpRequest(req.method, route, res.statusCode, durationSeconds);
+  });
+
+  next();
+}
+
+// Label values may contain backslashes, quotes or newlines, which must be escaped
+const label = (value: string | number) =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+/**
+ * Renders all metrics in the Prometheus text exposition format.
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  lines.push(
+    '# HELP http_requests_total HTTP requests handled, by route and status.',
+    '# TYPE http_requests_total counter'
+  );
+  for (const s of routeSeries.values()) {
+    lines.push(
+      `http_requests_total{method="${label(s.method)}",route="${label(s.route)}",status="${s.status}"} ${s.count}`
+    );
+  }
+
+  lines.push(
+    '# HELP http_request_duration_seconds HTTP request latency, by route and status.',
+    '# TYPE http_request_duration_seconds histogram'
+  );
+  for (const s of routeSeries.values()) {
+    const labels = `method="${label(s.method)}",route="${label(s.route)}",status="${s.status}"`;
+    LATENCY_BUCKETS.forEach((bound, i) => {
+      lines.push(
+        `http_request_duration_seconds_bucket{${labels},le="${bound}"} ${s.bucketCounts[i]}`
+      );
+    });
+    lines.push(
+      `http_request_duration_seconds_bucket{${labels},le="+Inf"} ${s.count}`,
+      `http_request_duration_seconds_sum{${labels}} ${s.durationSum}`,
+      `http_request_duration_seconds_count{${labels}} ${s.count}`
+    );
+  }
+
+  lines.push(
+    '# HELP socket_events_limited_total Socket messages dropped for exceeding a rate or size limit, by event and reason.',
+    '# TYPE socket_events_limited_total counter'
+  );
+  for (const hits of socketLimitHits.values()) {
+    lines.push(
+      `socket_events_limited_total{event="${label(hits.event)}",reason="${label(hits.reason)}"} ${hits.count}`
+    );
+  }
+
+  lines.push(
+    '# HELP socket_flood_disconnects_total Sockets disconnected for repeatedly exceeding their limits.',
+    '# TYPE socket_flood_disconnects_total counter',
+    `socket_flood_disconnects_total ${floodDisconnects}`
+  );
+
+  const stats = roomStatsSource?.();
+
+  if (stats) {
+    lines.push(
+      '# HELP socket_connections Sockets currently connected to the signaling server.',
+      '# TYPE socket_connections gauge',
+      `socket_connections ${stats.connectedSockets}`,
+      '# HELP active_meetings Meetings with at least one admitted participant.',
+      '# TYPE active_meetings gauge',
+      `active_meetings ${stats.participantsByMeeting.size}`,
+      '# HELP meeting_participants Admitted participants per active meeting.',
+      '# TYPE meeting_participants histogram'
+    );
+    // Aggregated so meeting codes, which double as join secrets, never appear as labels
+    const sizes = [...stats.participantsByMeeting.values()];
+    for (const bound of MEETING_SIZE_BUCKETS) {
+      lines.push(
+        `meeting_participants_bucket{le="${bound}"} ${sizes.filter((size) => size <= bound).length}`
+      );
+    }
+    lines.push(
+      `meeting_participants_bucket{le="+Inf"} ${sizes.length}`,
+      `meeting_participants_sum ${sizes.reduce((sum, size) => sum + size, 0)}`,
+      `meeting_participants_count ${sizes.length}`
+    );
+
+    let waiting = 0;
+    for (const count of stats.waitingByMeeting.values()) waiting += count;
+    lines.push(
+      '# HELP waiting_participants Joiners held in a waiting room, across all meetings.',
+      '# TYPE waiting_participants gauge',
+      `waiting_participants ${waiting}`
+    );
+
+    lines.push(
+      '# HELP overlay_data_messages_total Overlay frames relayed through the signaling server.',
+      '# TYPE overlay_data_messages_total counter',
+      `overlay_data_messages_total ${stats.overlayDataMessagesTotal}`,
+      '# HELP overlay_data_messages_per_second Overlay frames relayed per second, averaged over the last few seconds.',
+      '# TYPE overlay_data_messages_per_second gauge',
+      `overlay_data_messages_per_second ${stats.overlayDataMessagesPerSecond}`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
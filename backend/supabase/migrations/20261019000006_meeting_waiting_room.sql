@@ -0,0 +1,4 @@
+-- Hosts can hold joiners in a waiting room until they admit them.
+-- Read by getMeetingByCode and set by scheduleMeeting / updateMeeting.
+alter table public.meetings
+  add column if not exists waiting_room boolean not null default false;
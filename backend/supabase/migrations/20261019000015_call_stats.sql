@@ -0,0 +1,25 @@
+-- Aggregated call-quality samples posted by clients to POST /api/call-stats,
+-- one row per peer connection per sample. Written by insertCallStats.
+create table if not exists public.call_stats (
+  id bigint generated always as identity primary key,
+  meeting_id bigint not null references public.meetings (id) on delete cascade,
+  -- null for guests
+  user_id uuid references auth.users (id) on delete set null,
+  peer_id text not null,
+  sampled_at timestamptz not null,
+  rtt_ms double precision,
+  packet_loss_pct double precision,
+  jitter_ms double precision,
+  inbound_kbps double precision,
+  outbound_kbps double precision,
+  frame_rate double precision,
+  candidate_type text check (candidate_type in ('direct', 'relay')),
+  quality text not null check (quality in ('good', 'fair', 'poor')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists call_stats_meeting_id_sampled_at_idx
+  on public.call_stats (meeting_id, sampled_at);
+
+-- Only the backend (service role) reads or writes call stats
+alter table public.call_stats enable row level security;
@@ -0,0 +1,23 @@
+-- Meeting recordings uploaded through POST /api/upload-recording. The WebM
+-- file goes to the private "recordings" bucket at <owner_id>/<meeting_id>-<ms>.webm
+-- and a row here points at it. Written by uploadRecording.
+create table if not exists public.recordings (
+  id bigint generated always as identity primary key,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  meeting_id bigint not null references public.meetings (id) on delete cascade,
+  storage_path text not null unique,
+  size_bytes bigint not null check (size_bytes > 0),
+  duration_seconds integer check (duration_seconds >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists recordings_meeting_id_idx on public.recordings (meeting_id);
+create index if not exists recordings_owner_id_idx on public.recordings (owner_id);
+
+-- Only the backend (service role) reads or writes recordings
+alter table public.recordings enable row level security;
+
+-- Private bucket; the limit matches MAX_RECORDING_BYTES in app.ts
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('recordings', 'recordings', false, 524288000, array['video/webm'])
+on conflict (id) do nothing;
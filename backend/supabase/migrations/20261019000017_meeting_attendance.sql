@@ -0,0 +1,33 @@
+-- Each time a meeting's room is opened and closed, and who was admitted
+-- during it. Written by the attendance tracker, read by getMeetingSessions
+-- and hasAttendedMeeting.
+create table if not exists public.meeting_sessions (
+  id bigint generated always as identity primary key,
+  meeting_id bigint not null references public.meetings (id) on delete cascade,
+  started_at timestamptz not null,
+  -- null while the room is open
+  ended_at timestamptz
+);
+
+create index if not exists meeting_sessions_meeting_id_started_at_idx
+  on public.meeting_sessions (meeting_id, started_at desc);
+
+create table if not exists public.meeting_attendance (
+  id bigint generated always as identity primary key,
+  session_id bigint not null references public.meeting_sessions (id) on delete cascade,
+  -- null for guests
+  user_id uuid references auth.users (id) on delete set null,
+  display_name text not null,
+  joined_at timestamptz not null,
+  -- null while the participant is in the meeting
+  left_at timestamptz
+);
+
+create index if not exists meeting_attendance_session_id_idx
+  on public.meeting_attendance (session_id);
+create index if not exists meeting_attendance_user_id_idx
+  on public.meeting_attendance (user_id);
+
+-- Only the backend (service role) reads or writes attendance
+alter table public.meeting_sessions enable row level security;
+alter table public.meeting_attendance enable row level security;
@@ -173,6 +173,23 @@ describe('CreateMeeting page', () => {
     expect(mockNavigate).toHaveBeenCalledWith('/meeting-details/7');
   });
 
+  test('passes the waiting room setting to createMeeting', async () => {
+    render(<CreateMeeting />);
+
+    fireEvent.change(screen.getByPlaceholderText(/Enter Meeting Title/i), {
+      target: { value: 'Board Review' },
+    });
+    fireEvent.click(screen.getByLabelText(/Admit participants manually/i));
+    fireEvent.click(screen.getByText(/Create Meeting/i));
+
+    await waitFor(() => {
+      expect(mockCreateMeeting).toHaveBeenCalled();
+    });
+
+    const [, , , waitingRoom] = mockCreateMeeting.mock.calls[0];
+    expect(waitingRoom).toBe(true);
+  });
+
   test('shows error when createMeeting fails', async () => {
     mockCreateMeeting.mockResolvedValueOnce({
       success: false,
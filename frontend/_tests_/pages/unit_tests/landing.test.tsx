@@ -28,24 +28,13 @@ beforeEach(() => {
 // ---- Tests ----
 
 describe('Landing page', () => {
-  test('clicking "Create Meeting" generates an ID and navigates to /meet/:id', () => {
-    // Make Math.random deterministic so we can assert the exact ID
-    const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
-
+  test('clicking "Create Meeting" navigates to the menu to register a meeting', () => {
     render(<Landing />);
 
     const createButton = screen.getByText(/Create Meeting/i);
     fireEvent.click(createButton);
 
-    // Compute the expected ID using the same logic as the component
-    const expectedId = Math.random().toString(36).substring(2, 15);
-    // BUT since we mocked Math.random, we should manually compute it as well
-    // using the same 0.5 value:
-    const fixedId = (0.5).toString(36).substring(2, 15);
-
-    expect(mockNavigate).toHaveBeenCalledWith(`/meet/${fixedId}`);
-
-    randomSpy.mockRestore();
+    expect(mockNavigate).toHaveBeenCalledWith('/menu');
   });
 
   test('shows join code input after clicking "Enter Code"', () => {
@@ -7,6 +7,7 @@ import MeetingDetails from '../../../src/pages/MeetingDetails';
 let mockMeetings: any[] = [];
 const mockRefreshData = jest.fn();
 const mockNavigate = jest.fn();
+const mockGetMeetingSessions = jest.fn();
 
 let mockUserData: any = {
   full_name_enc: 'Host User',
@@ -26,6 +27,7 @@ jest.mock('../../../src/components/useAppData', () => ({
     meetings: mockMeetings,
     userData: mockUserData,
     refreshData: mockRefreshData,
+    getMeetingSessions: mockGetMeetingSessions,
   }),
 }));
 
@@ -58,6 +60,8 @@ beforeEach(() => {
   mockMeetings = [];
   mockRefreshData.mockReset();
   mockNavigate.mockReset();
+  mockGetMeetingSessions.mockReset();
+  mockGetMeetingSessions.mockResolvedValue({ success: true, sessions: [] });
   mockUserData = {
     full_name_enc: 'Host User',
   };
@@ -164,4 +168,65 @@ describe('MeetingDetails page', () => {
 
     expect(mockNavigate).toHaveBeenCalledWith('/meet/JOIN789');
   });
-});
\ No newline at end of file
+
+  test('shows who attended past sessions and for how long', async () => {
+    mockMeetings = [
+      {
+        id: 1,
+        meeting_title: 'History Meeting',
+        meeting_time: '2025-01-10T09:30:00Z',
+        meeting_code: 'HIST01',
+      },
+    ];
+    mockGetMeetingSessions.mockResolvedValue({
+      success: true,
+      sessions: [
+        {
+          id: 55,
+          started_at: '2025-01-10T09:30:00Z',
+          ended_at: '2025-01-10T10:35:00Z',
+          attendance: [
+            {
+              id: 100,
+              user_id: 'user-1',
+              display_name: 'Host User',
+              joined_at: '2025-01-10T09:30:00Z',
+              left_at: '2025-01-10T10:35:00Z',
+            },
+            {
+              id: 101,
+              user_id: null,
+              display_name: 'Guest Gus',
+              joined_at: '2025-01-10T09:40:00Z',
+              left_at: '2025-01-10T10:00:00Z',
+            },
+          ],
+        },
+      ],
+    });
+
+    render(<MeetingDetails />);
+
+    expect(await screen.findByText('Guest Gus')).toBeTruthy();
+    expect(mockGetMeetingSessions).toHaveBeenCalledWith(1);
+    expect(screen.getByText('20m')).toBeTruthy();
+    expect(screen.getAllByText('1h 5m')).toHaveLength(2);
+  });
+
+  test('shows an empty history for meetings that never ran', async () => {
+    mockMeetings = [
+      {
+        id: 1,
+        meeting_title: 'New Meeting',
+        meeting_time: '2025-01-10T09:30:00Z',
+        meeting_code: 'NEW001',
+      },
+    ];
+
+    render(<MeetingDetails />);
+
+    expect(
+      await screen.findByText(/This meeting has not been held yet/i)
+    ).toBeTruthy();
+  });
+});
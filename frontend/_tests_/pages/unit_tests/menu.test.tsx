@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import MenuPage from '../../../src/pages/Menu';
 
 // -------- Shared mocks / state --------
@@ -7,6 +7,7 @@ import MenuPage from '../../../src/pages/Menu';
 const mockNavigate = jest.fn();
 const mockRefreshData = jest.fn();
 const mockDeleteMeeting = jest.fn();
+const mockCreateMeeting = jest.fn();
 
 let mockMeetings: any[] = [];
 let mockUserData: any = { id: 'user-123' };
@@ -28,6 +29,7 @@ jest.mock('../../../src/components/useAppData', () => ({
     deleteMeeting: mockDeleteMeeting,
     userData: mockUserData,
     refreshData: mockRefreshData,
+    createMeeting: mockCreateMeeting,
   }),
 }));
 
@@ -55,6 +57,8 @@ beforeEach(() => {
   mockNavigate.mockReset();
   mockRefreshData.mockReset();
   mockDeleteMeeting.mockReset();
+  mockCreateMeeting.mockReset();
+  mockCreateMeeting.mockResolvedValue({ success: true, meetingId: 3 });
 
   mockMeetings = [
     { id: 1, meeting_title: 'A', meeting_time: '2025-01-10T10:00:00Z' },
@@ -93,7 +97,7 @@ describe('MenuPage', () => {
     expect(mockNavigate).toHaveBeenCalledWith('/join');
   });
 
-  test('Create Meeting tile toggles options menu, and "Create Now" generates instant code and navigates', () => {
+  test('Create Meeting tile toggles options menu, and "Create Now" generates instant code and navigates', async () => {
     render(<MenuPage />);
 
     const createTile = screen.getByRole('button', { name: /Create Meeting/i });
@@ -107,8 +111,31 @@ describe('MenuPage', () => {
     // generateInstantMeetingCode should be called with userData.id
     expect(mockGenerateInstantMeetingCode).toHaveBeenCalledWith('user-123');
 
+    // The instant meeting is registered before joining
+    expect(mockCreateMeeting).toHaveBeenCalledWith(
+      'INSTANT123',
+      expect.any(String),
+      'Instant Meeting'
+    );
+
     // Should navigate to /meet/:generatedCode
-    expect(mockNavigate).toHaveBeenCalledWith('/meet/INSTANT123');
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/meet/INSTANT123');
+    });
+  });
+
+  test('"Create Now" does not navigate when the meeting cannot be created', async () => {
+    mockCreateMeeting.mockResolvedValue({ success: false, error: 'Nope' });
+
+    render(<MenuPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Create Meeting/i }));
+    fireEvent.click(screen.getByText(/Create Now/i));
+
+    await waitFor(() => {
+      expect(global.alert).toHaveBeenCalledWith('Nope');
+    });
+    expect(mockNavigate).not.toHaveBeenCalled();
   });
 
   test('"Schedule for Later" navigates to /create-meeting and does not generate instant code', () => {
@@ -0,0 +1,75 @@
+import type { NetworkQuality, PeerStats } from '../types/callStatsType';
+
+interface CallStatsPanelProps {
+  // Latest stats per remote peer, keyed by socket id
+  stats: Map<string, PeerStats>;
+  nameOf: (peerId: string) => string;
+  onClose: () => void;
+}
+
+const QUALITY_CLASS: Record<NetworkQuality, string> = {
+  good: 'text-green-400',
+  fair: 'text-yellow-400',
+  poor: 'text-red-400',
+};
+
+const format = (value: number | null, unit: string, digits = 0) =>
+  value === null ? '–' : `${value.toFixed(digits)} ${unit}`;
+
+/**
+ * Overlay with the measured call quality for each peer connection.
+ */
+export default function CallStatsPanel({
+  stats,
+  nameOf,
+  onClose,
+}: CallStatsPanelProps) {
+  return (
+    <div className="bg-gray-900/95 border border-gray-700 rounded-lg shadow-xl p-3 w-72 max-h-96 overflow-y-auto">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-white text-xs font-semibold">Connection stats</p>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-xs"
+        >
+          Close
+        </button>
+      </div>
+
+      {stats.size === 0 && (
+        <p className="text-gray-500 text-xs text-center">No active connections</p>
+      )}
+
+      <ul className="space-y-3">
+        {[...stats.entries()].map(([peerId, peer]) => (
+          <li key={peerId}>
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="text-white text-xs font-medium truncate">
+                {nameOf(peerId)}
+              </span>
+              <span className={`text-[10px] font-semibold uppercase ${QUALITY_CLASS[peer.quality]}`}>
+                {peer.quality}
+              </span>
+            </div>
+            <dl className="grid grid-cols-2 gap-x-3 text-[11px] text-gray-300 mt-1">
+              <dt className="text-gray-500">Round trip</dt>
+              <dd>{format(peer.rttMs, 'ms')}</dd>
+              <dt className="text-gray-500">Packet loss</dt>
+              <dd>{format(peer.packetLossPct, '%', 1)}</dd>
+              <dt className="text-gray-500">Jitter</dt>
+              <dd>{format(peer.jitterMs, 'ms')}</dd>
+              <dt className="text-gray-500">Receiving</dt>
+              <dd>{format(peer.inboundKbps, 'kbps')}</dd>
+              <dt className="text-gray-500">Sending</dt>
+              <dd>{format(peer.outboundKbps, 'kbps')}</dd>
+              <dt className="text-gray-500">Frame rate</dt>
+              <dd>{format(peer.frameRate, 'fps')}</dd>
+              <dt className="text-gray-500">Route</dt>
+              <dd>{peer.candidateType === 'relay' ? 'Relayed (TURN)' : peer.candidateType === 'direct' ? 'Direct' : '–'}</dd>
+            </dl>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChatMessage } from '../types/chatType';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  // Our socket ids, including ones from before a reconnect
+  selfIds: Set<string>;
+  onSend: (text: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Side panel with the meeting's chat history and a message box.
+ */
+export default function ChatPanel({
+  messages,
+  selfIds,
+  onSend,
+  onClose,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text) return;
+
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="w-80 h-full flex flex-col bg-gray-900 border-l border-gray-800">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <p className="text-white text-sm font-semibold">Chat</p>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-xs"
+        >
+          Close
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {messages.length === 0 && (
+          <p className="text-gray-500 text-xs text-center">No messages yet</p>
+        )}
+        {messages.map((message) => (
+          <div key={message.id}>
+            <div className="flex items-baseline gap-2">
+              <span className="text-white text-xs font-medium">
+                {selfIds.has(message.senderId) ? 'You' : message.senderName}
+              </span>
+              <span className="text-gray-500 text-[10px]">
+                {formatTime(message.timestamp)}
+              </span>
+            </div>
+            <p className="text-gray-200 text-sm break-words whitespace-pre-wrap">
+              {message.text}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2 px-4 py-3 border-t border-gray-800">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') send();
+          }}
+          placeholder="Send a message"
+          maxLength={2000}
+          className="flex-1 rounded-lg bg-gray-800 text-white text-sm px-3 py-2 outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={send}
+          disabled={!draft.trim()}
+          className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg text-white text-xs"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
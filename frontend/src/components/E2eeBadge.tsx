@@ -0,0 +1,23 @@
+import { ShieldCheck } from 'lucide-react';
+
+interface E2eeBadgeProps {
+  verificationCode: string;
+}
+
+/**
+ * Shown in end-to-end encrypted meetings. Everyone holding the same link
+ * sees the same code, so reading it out confirms nobody joined with
+ * another key.
+ */
+export default function E2eeBadge({ verificationCode }: E2eeBadgeProps) {
+  return (
+    <div
+      title="Compare this code with the other participants. If it matches, only people with this link can see and hear the call."
+      className="flex items-center gap-1.5 rounded bg-green-900/60 border border-green-700 px-2 py-0.5"
+    >
+      <ShieldCheck size={12} className="text-green-400" />
+      <span className="text-green-200 text-[10px] font-medium">End-to-end encrypted</span>
+      <span className="text-green-100 text-[10px] font-mono">{verificationCode}</span>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Circle, MicOff, Smile, VideoOff } from 'lucide-react';
+import type { RosterEntry } from '../types/rosterType';
+
+interface ParticipantListProps {
+  participants: RosterEntry[];
+  // Our socket ids, including ones from before a reconnect
+  selfIds: Set<string>;
+  onClose: () => void;
+}
+
+const roleLabels: Record<RosterEntry['role'], string | null> = {
+  host: 'Host',
+  participant: null,
+  guest: 'Guest',
+};
+
+/**
+ * Side panel listing everyone in the meeting with their media state.
+ */
+export default function ParticipantList({
+  participants,
+  selfIds,
+  onClose,
+}: ParticipantListProps) {
+  return (
+    <div className="w-80 h-full flex flex-col bg-gray-900 border-l border-gray-800">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <p className="text-white text-sm font-semibold">
+          People ({participants.length})
+        </p>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-xs"
+        >
+          Close
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {participants.map((participant) => {
+          const role = roleLabels[participant.role];
+
+          return (
+            <li
+              key={participant.socketId}
+              className="flex items-center justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <p className="text-white text-sm truncate">
+                  {participant.name}
+                  {selfIds.has(participant.socketId) && (
+                    <span className="text-gray-400"> (You)</span>
+                  )}
+                </p>
+                {(role || participant.reconnecting) && (
+                  <p className="text-gray-500 text-[10px]">
+                    {[role, participant.reconnecting && 'Reconnecting...']
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-1.5 flex-shrink-0 text-gray-400">
+                {participant.recording && (
+                  <Circle size={14} className="text-red-500 fill-red-500" aria-label="Recording" />
+                )}
+                {!participant.audioEnabled && (
+                  <MicOff size={14} aria-label="Muted" />
+                )}
+                {!participant.videoEnabled && (
+                  <VideoOff size={14} aria-label="Camera off" />
+                )}
+                {participant.overlayEnabled && (
+                  <Smile size={14} aria-label="Overlay on" />
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
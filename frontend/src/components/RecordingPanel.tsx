@@ -0,0 +1,75 @@
+import { useState } from 'react';
+
+interface RecordingPanelProps {
+  durationSeconds: number;
+  onDownload: () => void;
+  onUpload: () => Promise<{ success: boolean; error?: string }>;
+  onDiscard: () => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Shown once a recording stops: lets the user download it, upload it to
+ * their account, or throw it away.
+ */
+export default function RecordingPanel({
+  durationSeconds,
+  onDownload,
+  onUpload,
+  onDiscard,
+}: RecordingPanelProps) {
+  const [uploading, setUploading] = useState(false);
+  const [uploaded, setUploaded] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const upload = async () => {
+    setUploading(true);
+    setUploadError(null);
+
+    const result = await onUpload();
+
+    setUploading(false);
+    if (result.success) {
+      setUploaded(true);
+    } else {
+      setUploadError(result.error ?? 'Failed to upload recording');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 w-64">
+      <p className="text-white text-xs font-semibold mb-2">
+        Recording ready ({formatDuration(durationSeconds)})
+      </p>
+
+      <div className="flex gap-1">
+        <button
+          onClick={onDownload}
+          className="px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-[10px]"
+        >
+          Download
+        </button>
+        <button
+          onClick={upload}
+          disabled={uploading || uploaded}
+          className="px-2 py-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 rounded text-white text-[10px]"
+        >
+          {uploading ? 'Uploading...' : uploaded ? 'Uploaded' : 'Upload'}
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={uploading}
+          className="px-2 py-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 rounded text-white text-[10px]"
+        >
+          {uploaded ? 'Close' : 'Discard'}
+        </button>
+      </div>
+
+      {uploadError && (
+        <p className="text-red-400 text-[10px] mt-2">{uploadError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, type ReactNode } from 'react';
+import { MicOff, VideoOff } from 'lucide-react';
+
+interface RemoteTileProps {
+  peerId: string;
+  stream: MediaStream | null;
+  label: string;
+  // Media state from the roster; unknown peers are shown as unmuted
+  audioEnabled?: boolean;
+  videoEnabled?: boolean;
+  onCanvasChange: (peerId: string, canvas: HTMLCanvasElement | null) => void;
+  // Extra controls shown in the corner of the tile, e.g. host moderation
+  actions?: ReactNode;
+}
+
+/**
+ * One remote participant: their video plus the canvas their relayed
+ * face overlay is painted on.
+ */
+export default function RemoteTile({
+  peerId,
+  stream,
+  label,
+  audioEnabled = true,
+  videoEnabled = true,
+  onCanvasChange,
+  actions,
+}: RemoteTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Register this tile's canvas so overlay data for the peer can be drawn on it
+  useEffect(() => {
+    onCanvasChange(peerId, canvasRef.current);
+    return () => onCanvasChange(peerId, null);
+  }, [peerId, onCanvasChange]);
+
+  return (
+    <div className="relative w-full h-full bg-black overflow-hidden">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        className="w-full h-full object-contain"
+      />
+      <canvas
+        ref={canvasRef}
+        width={640}
+        height={480}
+        className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+        style={{ width: 'auto', height: '100%', maxWidth: '100%' }}
+      />
+
+      {!videoEnabled && (
+        <div className="absolute inset-0 bg-gray-900 flex items-center justify-center">
+          <VideoOff size={32} className="text-gray-500" />
+        </div>
+      )}
+
+      <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded flex items-center gap-2">
+        {!audioEnabled && (
+          <MicOff size={14} className="text-red-400" aria-label="Muted" />
+        )}
+        <p className="text-white text-sm font-medium">{label}</p>
+      </div>
+
+      {actions && (
+        <div className="absolute top-4 right-4 flex gap-1">{actions}</div>
+      )}
+    </div>
+  );
+}
@@ -1,42 +1,141 @@
 // Room.tsx - Complete with Improved Face Overlay Coverage
 
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useMemo, useState, useRef } from "react";
 import { io, Socket } from 'socket.io-client';
-import { FaceMesh, type Results } from '@mediapipe/face_mesh';
+import { FaceMesh, type NormalizedLandmarkList, type Results } from '@mediapipe/face_mesh';
 import { Camera } from '@mediapipe/camera_utils';
 import PageBackground from "./PageBackground";
-import { Mic, MicOff, Video, VideoOff, User } from 'lucide-react';
+import { Circle, Lock, LockOpen, MessageSquare, Mic, MicOff, MonitorUp, Signal, SignalLow, SignalMedium, User, Users, UserX, Video, VideoOff } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import type { Overlay } from '../types/overlayType';
-import { DEFAULT_OVERLAY } from '../types/overlayType';
+import type { BlendMode, Overlay, OverlayConfig } from '../types/overlayType';
+import { BLEND_MODES, DEFAULT_OVERLAY } from '../types/overlayType';
 import OverlaySelector from './OverlaySelector';
+import RemoteTile from './RemoteTile';
+import ScreenTile from './ScreenTile';
+import ChatPanel from './ChatPanel';
+import ParticipantList from './ParticipantList';
+import WaitingRoomPanel from './WaitingRoomPanel';
+import E2eeBadge from './E2eeBadge';
+import CallStatsPanel from './CallStatsPanel';
+import RecordingPanel from './RecordingPanel';
+import { getSocketAuth } from './socketAuth';
+import { getIceServers } from './iceConfig';
+import { downloadRecording, startMeetingRecording, uploadRecording, type MeetingRecorder, type RecordingSource } from './meetingRecorder';
+import { aggregatePeerStats, collectPeerStats, postCallStats, worstQuality, type StatsSnapshot } from './callStats';
+import type { JoinError, MeetingInfo, WaitingParticipant } from '../types/meetingType';
+import type { ChatMessage } from '../types/chatType';
+import type { RosterEntry } from '../types/rosterType';
+import type { PeerStats } from '../types/callStatsType';
+import type { ClientToServerEvents, ServerToClientEvents } from '@shared/socketEvents';
+import { drawFaceOverlay, clearCanvas } from './faceOverlay';
+import { createMaskedVideo, MAX_MASKED_FACES, type MaskedVideo } from './maskedVideo';
+import { createFrameFilter, decodeLandmarkFrame, encodeLandmarkFrame } from '@shared/landmarkCodec';
+import { decryptLandmarkFrame, e2eePeerConfig, encryptLandmarkFrame, protectReceiver, protectSender, type E2eeSession } from './e2ee';
 
 const URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
 
+// Client end of the signaling contract in shared/socketEvents.ts
+type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Overlay a remote participant is currently showing, keyed by their socket id
+type RemoteOverlay = OverlayConfig & {
+    image: HTMLImageElement | null;
+};
+
+// Frames are dropped rather than queued once this much is waiting on a data channel
+const LANDMARK_CHANNEL_MAX_BUFFERED = 64 * 1024;
+
+// Landmark frames sent per second; FaceMesh results beyond this are skipped
+const LANDMARK_SEND_HZ = Number(import.meta.env.VITE_LANDMARK_SEND_HZ) || 20;
+
+// How often connection stats are polled, and how often the polls are uploaded
+const STATS_POLL_MS = 2000;
+const STATS_UPLOAD_MS = 30 * 1000;
+
+// Adds messages not seen yet, keeping the list in send order
+const mergeChatMessages = (existing: ChatMessage[], incoming: ChatMessage[]) => {
+    const seen = new Set(existing.map(m => m.id));
+    const added = incoming.filter(m => !seen.has(m.id));
+    if (added.length === 0) return existing;
+
+    return [...existing, ...added].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// Perfect negotiation bookkeeping for one peer connection. The side that sent
+// the first offer is impolite and wins glare; the other side rolls back.
+type NegotiationState = {
+    polite: boolean;
+    makingOffer: boolean;
+    ignoreOffer: boolean;
+};
+
+// Grid columns for the remote video tiles, by number of remote peers
+const gridColumnsClass = (count: number) => {
+    if (count <= 1) return 'grid-cols-1';
+    if (count <= 4) return 'grid-cols-2';
+    return 'grid-cols-3';
+};
+
 export const Room = ({
     name,
     localAudioTrack,
     localVideoTrack,
     meetingId,
     userOverlays,
+    maskedSend = true,
+    e2ee = null,
 }: {
     name: string,
     localAudioTrack: MediaStreamTrack,
     localVideoTrack: MediaStreamTrack,
     meetingId: string,
     userOverlays: Overlay[],
+    // Bake the overlay into the outgoing video instead of relaying landmarks
+    maskedSend?: boolean,
+    // Key from the link's URL fragment when the meeting is end-to-end encrypted
+    e2ee?: E2eeSession | null,
 }) => {
     const [lobby, setLobby] = useState(true);
-    const [socket, setSocket] = useState<null | Socket>(null);
+    const [socket, setSocket] = useState<null | SignalingSocket>(null);
     const [error, setError] = useState<string | null>(null);
+    const [meetingInfo, setMeetingInfo] = useState<MeetingInfo | null>(null);
+    const [meetingLocked, setMeetingLocked] = useState(false);
+    const [muteRequested, setMuteRequested] = useState(false);
+    // Held in the waiting room until the host admits us
+    const [awaitingAdmission, setAwaitingAdmission] = useState(false);
+    // Host only: joiners currently held in the waiting room
+    const [waitingParticipants, setWaitingParticipants] = useState<WaitingParticipant[]>([]);
+    // Our own socket dropped and is trying to resume the session
+    const [socketReconnecting, setSocketReconnecting] = useState(false);
+    // Set while the server restarts for a redeploy; we rejoin once it is back
+    const [serverRestarting, setServerRestarting] = useState(false);
+    // Remote peers whose sockets dropped and are inside the server's grace window
+    const [reconnectingPeers, setReconnectingPeers] = useState<Set<string>>(new Set());
+    const [screenSharing, setScreenSharing] = useState(false);
+    // Screens remote participants are presenting, by socket id
+    const [remoteScreens, setRemoteScreens] = useState<Map<string, MediaStream>>(new Map());
+    const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+    const [chatOpen, setChatOpen] = useState(false);
+    const [unreadCount, setUnreadCount] = useState(0);
+    const [ownSocketIds, setOwnSocketIds] = useState<Set<string>>(new Set());
+    const [roster, setRoster] = useState<RosterEntry[]>([]);
+    const [rosterOpen, setRosterOpen] = useState(false);
+    const [peerStats, setPeerStats] = useState<Map<string, PeerStats>>(new Map());
+    const [statsOpen, setStatsOpen] = useState(false);
+    const [recording, setRecording] = useState(false);
+    // Finished recording waiting to be downloaded, uploaded or discarded
+    const [finishedRecording, setFinishedRecording] = useState<{ blob: Blob, durationSeconds: number } | null>(null);
+    // Set when the host removed us or ended the meeting
+    const [endedMessage, setEndedMessage] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
     const [connected, setConnected] = useState(false);
-    const [remoteLandmarks, setRemoteLandmarks] = useState<any>(null);
+    const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream | null>>(new Map());
     const [_faceMeshReady, setFaceMeshReady] = useState(false);
     const [localOverlayEnabled, setLocalOverlayEnabled] = useState(true);
     const [audioEnabled, setAudioEnabled] = useState(true);
     const [videoEnabled, setVideoEnabled] = useState(true);
     const [showOverlayMenu, setShowOverlayMenu] = useState(false);
+    const [maskedSendEnabled, setMaskedSendEnabled] = useState(maskedSend);
 
     // Overlay management state
     const [availableOverlays, setAvailableOverlays] = useState<Overlay[]>([DEFAULT_OVERLAY]);
@@ -45,31 +144,52 @@ export const Room = ({
     
     // Opacity state
     const [localOverlayOpacity, setLocalOverlayOpacity] = useState<number>(0.7);
-    const [remoteOverlayOpacity, setRemoteOverlayOpacity] = useState<number>(0.7);
-    
-    // Remote user's overlay state
-    const [remoteOverlayUrl, setRemoteOverlayUrl] = useState<string>(DEFAULT_OVERLAY.url);
+    const [localBlendMode, setLocalBlendMode] = useState<BlendMode>('normal');
 
     // Video element refs
     const localVideoRef = useRef<HTMLVideoElement>(null);
-    const remoteVideoRef = useRef<HTMLVideoElement>(null);
     const localCanvasRef = useRef<HTMLCanvasElement>(null);
-    const remoteCanvasRef = useRef<HTMLCanvasElement>(null);
+    const remoteCanvasesRef = useRef<Map<string, HTMLCanvasElement>>(new Map());
     
-    // WebRTC refs
-    const pcRef = useRef<RTCPeerConnection | null>(null);
+    // WebRTC refs, one peer connection per remote socket id
+    const peersRef = useRef<Map<string, RTCPeerConnection>>(new Map());
+    // Peers we sent the first offer to; only this side restarts ICE, avoiding glare
+    const offeredPeersRef = useRef<Set<string>>(new Set());
+    const reconnectTokenRef = useRef<string | null>(null);
+    // Retry hint from the last server-restarting event, null when no restart is underway
+    const restartRetryMsRef = useRef<number | null>(null);
+    // Fetched from the backend before we join, so it is ready for the first peer connection
+    const iceServersRef = useRef<RTCIceServer[]>([]);
+    const chatOpenRef = useRef<boolean>(false);
     const localStreamRef = useRef<MediaStream | null>(null);
+    const screenStreamRef = useRef<MediaStream | null>(null);
+    const screenSendersRef = useRef<Map<RTCPeerConnection, RTCRtpSender>>(new Map());
+    // Unordered, unreliable channel per peer connection carrying overlay landmarks
+    const landmarkChannelsRef = useRef<Map<RTCPeerConnection, RTCDataChannel>>(new Map());
+    const landmarkSeqRef = useRef<number>(0);
+    const lastLandmarkSentAtRef = useRef<number>(0);
+    // Whether the last frame we sent had a face, so clearing frames go out once
+    const faceSentRef = useRef<boolean>(false);
+    // Previous counters per connection, and polls not uploaded yet per peer
+    const statsSnapshotsRef = useRef<Map<RTCPeerConnection, StatsSnapshot>>(new Map());
+    const pendingStatsRef = useRef<Map<string, PeerStats[]>>(new Map());
+    const recorderRef = useRef<MeetingRecorder | null>(null);
+    const remoteStreamsRef = useRef<Map<string, MediaStream | null>>(new Map());
+    const remoteScreensRef = useRef<Map<string, MediaStream>>(new Map());
+    // Drops out-of-order and stale frames, one filter per remote sender
+    const frameFiltersRef = useRef<Map<string, ReturnType<typeof createFrameFilter>>>(new Map());
     
     // MediaPipe refs
     const faceMeshRef = useRef<FaceMesh | null>(null);
     const cameraRef = useRef<Camera | null>(null);
     const overlayImageRef = useRef<HTMLImageElement | null>(null);
-    const remoteOverlayImageRef = useRef<HTMLImageElement | null>(null);
+    const remoteOverlaysRef = useRef<Map<string, RemoteOverlay>>(new Map());
     const localOverlayEnabledRef = useRef<boolean>(true);
     const videoEnabledRef = useRef<boolean>(true);
-    const selectedOverlayUrlRef = useRef<string>(DEFAULT_OVERLAY.url);
     const localOverlayOpacityRef = useRef<number>(0.7);
-    const remoteOverlayOpacityRef = useRef<number>(0.7);
+    const localBlendModeRef = useRef<BlendMode>('normal');
+    const maskedVideoRef = useRef<MaskedVideo | null>(null);
+    const maskedSendEnabledRef = useRef<boolean>(maskedSend);
 
     const navigate = useNavigate();
 
@@ -88,21 +208,174 @@ export const Room = ({
     }, [userOverlays]);
 
     // Keep refs in sync with state for socket emissions
-    useEffect(() => {
-        selectedOverlayUrlRef.current = selectedOverlayUrl;
-    }, [selectedOverlayUrl]);
-
     useEffect(() => {
         localOverlayOpacityRef.current = localOverlayOpacity;
     }, [localOverlayOpacity]);
 
     useEffect(() => {
-        remoteOverlayOpacityRef.current = remoteOverlayOpacity;
-    }, [remoteOverlayOpacity]);
+        localBlendModeRef.current = localBlendMode;
+    }, [localBlendMode]);
+
+    useEffect(() => {
+        maskedSendEnabledRef.current = maskedSendEnabled;
+    }, [maskedSendEnabled]);
+
+    useEffect(() => {
+        chatOpenRef.current = chatOpen;
+        if (chatOpen) {
+            setUnreadCount(0);
+        }
+    }, [chatOpen]);
+
+    // Outgoing masked video track, composited from camera frames
+    useEffect(() => {
+        const maskedVideo = createMaskedVideo();
+        maskedVideoRef.current = maskedVideo;
+        console.log('🎭 Masked video track created');
+
+        return () => {
+            maskedVideo.stop();
+            maskedVideoRef.current = null;
+        };
+    }, []);
+
+    // Stores how a remote participant's overlay should be drawn, loading the image when it changes
+    const applyRemoteOverlayConfig = useCallback((socketId: string, config: OverlayConfig) => {
+        const previous = remoteOverlaysRef.current.get(socketId);
+        const overlay: RemoteOverlay = {
+            ...config,
+            image: previous?.overlayUrl === config.overlayUrl ? previous.image : null,
+        };
+        remoteOverlaysRef.current.set(socketId, overlay);
+
+        if (!config.enabled) {
+            clearCanvas(remoteCanvasesRef.current.get(socketId) ?? null);
+        }
+
+        if (previous?.overlayUrl === config.overlayUrl) return;
+
+        // Load the overlay image a remote participant switched to
+        console.log('🎭 Remote user switched overlay to:', config.overlayUrl);
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.src = config.overlayUrl;
+        img.onload = () => {
+            // Ignore a slow load the participant has already switched away from
+            const current = remoteOverlaysRef.current.get(socketId);
+            if (current?.overlayUrl === config.overlayUrl) {
+                current.image = img;
+            }
+            console.log('✅ Remote overlay image loaded:', config.overlayUrl);
+        };
+        img.onerror = () => {
+            console.error('❌ Failed to load remote overlay image:', config.overlayUrl);
+        };
+    }, []);
+
+    // Paints one remote participant's landmarks with their current overlay config
+    const applyRemoteOverlay = useCallback((socketId: string, landmarks: NormalizedLandmarkList | null) => {
+        const canvas = remoteCanvasesRef.current.get(socketId) ?? null;
+        const overlay = remoteOverlaysRef.current.get(socketId);
+
+        // No face, overlay off, or no config yet: nothing to draw
+        if (landmarks === null || !overlay?.enabled) {
+            clearCanvas(canvas);
+            return;
+        }
+
+        drawFaceOverlay(canvas, landmarks, overlay.image, overlay.opacity, overlay.blendMode);
+    }, []);
+
+    // Decodes a binary frame from one remote participant and paints it if it is still current
+    const paintOverlayFrame = useCallback((socketId: string, data: ArrayBuffer) => {
+        const frame = decodeLandmarkFrame(data);
+        if (!frame) {
+            console.error('❌ Malformed landmark frame from:', socketId);
+            return;
+        }
+
+        let accept = frameFiltersRef.current.get(socketId);
+        if (!accept) {
+            accept = createFrameFilter();
+            frameFiltersRef.current.set(socketId, accept);
+        }
+
+        if (accept(frame, Date.now())) {
+            applyRemoteOverlay(socketId, frame.landmarks);
+        }
+    }, [applyRemoteOverlay]);
+
+    // In encrypted meetings every frame has to open with our key; plain frames are refused
+    const receiveOverlayFrame = useCallback((socketId: string, data: ArrayBuffer) => {
+        if (!e2ee) {
+            paintOverlayFrame(socketId, data);
+            return;
+        }
+
+        decryptLandmarkFrame(e2ee.key, data).then(plain => {
+            if (plain) {
+                paintOverlayFrame(socketId, plain);
+            } else {
+                console.error('❌ Could not decrypt landmark frame from:', socketId);
+            }
+        });
+    }, [e2ee, paintOverlayFrame]);
+
+    // Sends overlay data peer-to-peer, relaying through the server only to
+    // peers whose data channel has not opened yet
+    const sendOverlayData = useCallback((landmarks: NormalizedLandmarkList | null) => {
+        const now = Date.now();
+
+        // Cap the landmark rate, and only send a clearing frame when the face is lost
+        if (landmarks) {
+            if (now - lastLandmarkSentAtRef.current < 1000 / LANDMARK_SEND_HZ) return;
+            lastLandmarkSentAtRef.current = now;
+        } else if (!faceSentRef.current) {
+            return;
+        }
+        faceSentRef.current = landmarks !== null;
+
+        const frame = encodeLandmarkFrame({ landmarks, seq: landmarkSeqRef.current++, capturedAt: now });
+
+        const deliver = (message: ArrayBuffer) => {
+            const fallbackIds: string[] = [];
+
+            peersRef.current.forEach((pc, peerId) => {
+                const channel = landmarkChannelsRef.current.get(pc);
+                if (channel?.readyState !== 'open') {
+                    fallbackIds.push(peerId);
+                    return;
+                }
+
+                // Stale frames are worthless; skip this one if the channel is backed up
+                if (channel.bufferedAmount < LANDMARK_CHANNEL_MAX_BUFFERED) {
+                    channel.send(message);
+                }
+            });
+
+            if (socket && fallbackIds.length > 0) {
+                socket.emit('overlay-data', { meetingId, frame: message, targetIds: fallbackIds });
+            }
+        };
+
+        // Sealed first in encrypted meetings, so neither the relay nor a TURN server can read them
+        if (e2ee) {
+            encryptLandmarkFrame(e2ee.key, frame).then(deliver).catch((err) => {
+                // Never sent in the clear: a frame that cannot be sealed is dropped
+                console.error('❌ Failed to encrypt landmark frame:', err);
+            });
+        } else {
+            deliver(frame);
+        }
+    }, [socket, meetingId, e2ee]);
 
     // Socket connection and event handlers
     useEffect(() => {
-        const socket = io(URL, {
+        const socket: SignalingSocket = io(URL, {
+            // Re-evaluated on every (re)connect so expired tokens are refreshed
+            auth: (cb) => {
+                getSocketAuth(meetingId, name).then(cb);
+            },
             transports: ['websocket', 'polling'],
             withCredentials: true,
             reconnection: true,
@@ -110,112 +383,256 @@ export const Room = ({
             reconnectionDelay: 1000,
         });
 
+        let restartTimer: ReturnType<typeof setTimeout> | null = null;
+
+        // Tries the server again after its retry hint, for as long as the restart lasts
+        const scheduleRejoin = () => {
+            if (restartTimer) clearTimeout(restartTimer);
+            restartTimer = setTimeout(() => {
+                restartTimer = null;
+                socket.connect();
+            }, restartRetryMsRef.current ?? 0);
+        };
+
+        // A restarted server has no record of our old peers or session, so the mesh is rebuilt
+        const dropAllPeers = () => {
+            peersRef.current.forEach(pc => pc.close());
+            peersRef.current.clear();
+            landmarkChannelsRef.current.clear();
+            screenSendersRef.current.clear();
+            statsSnapshotsRef.current.clear();
+            remoteOverlaysRef.current.clear();
+            frameFiltersRef.current.clear();
+            offeredPeersRef.current.clear();
+            reconnectTokenRef.current = null;
+
+            setReconnectingPeers(new Set());
+            setRemoteScreens(new Map());
+            setRemoteStreams(new Map());
+            setConnected(false);
+        };
+
         socket.on('connect', () => {
             console.log('✅ Connected to server');
             console.log('🔗 Joining meeting:', meetingId);
-            socket.emit("join-meeting", { meetingId, name });
+            setSocketReconnecting(false);
+            setOwnSocketIds(prev => new Set(prev).add(socket.id ?? ''));
+
+            if (restartRetryMsRef.current !== null) {
+                console.log('🔄 Server is back, rejoining');
+                restartRetryMsRef.current = null;
+                setServerRestarting(false);
+                dropAllPeers();
+            }
+
+            getIceServers(meetingId, name).then(iceServers => {
+                iceServersRef.current = iceServers;
+                // After a network blip the token lets the server hand our old slot back
+                socket.emit("join-meeting", { meetingId, name, reconnectToken: reconnectTokenRef.current });
+            });
         });
 
-        socket.on('disconnect', () => {
+        socket.on('disconnect', (reason) => {
             console.log('❌ Disconnected from server');
+            setSocketReconnecting(true);
+
+            // Socket.IO does not reconnect on its own after the server closes the socket
+            if (reason === 'io server disconnect' && restartRetryMsRef.current !== null) {
+                scheduleRejoin();
+            }
+        });
+
+        socket.io.on('reconnect_failed', () => {
+            // A redeploy can outlast the automatic attempts, so keep going
+            if (restartRetryMsRef.current !== null) {
+                scheduleRejoin();
+                return;
+            }
+
+            console.error('❌ Could not reconnect to server');
+            setError('Lost connection to the meeting');
+        });
+
+        // Sent before the server shuts down, and to joins turned away while it drains
+        socket.on('server-restarting', ({ retryAfterMs }: { retryAfterMs: number }) => {
+            console.log('🔄 Server restarting, retrying in', retryAfterMs, 'ms');
+            restartRetryMsRef.current = retryAfterMs;
+            setServerRestarting(true);
+        });
+
+        socket.on('reconnect-token', ({ token }: { token: string }) => {
+            reconnectTokenRef.current = token;
+        });
+
+        socket.on('chat-message', (message: ChatMessage) => {
+            setChatMessages(prev => mergeChatMessages(prev, [message]));
+            if (!chatOpenRef.current && message.senderId !== socket.id) {
+                setUnreadCount(count => count + 1);
+            }
+        });
+
+        // Recent history, sent when we join late or come back after a reconnect
+        socket.on('chat-history', ({ messages }: { messages: ChatMessage[] }) => {
+            console.log('💬 Chat history:', messages.length, 'messages');
+            setChatMessages(prev => mergeChatMessages(prev, messages));
+        });
+
+        // Full participant list, resent whenever someone joins, leaves or toggles media
+        socket.on('roster', ({ participants }: { participants: RosterEntry[] }) => {
+            setRoster(participants);
+        });
+
+        socket.on('participant-reconnecting', ({ socketId }: { socketId: string }) => {
+            console.log('📶 Participant reconnecting:', socketId);
+            setReconnectingPeers(prev => new Set(prev).add(socketId));
         });
 
         socket.on('connect_error', (error: Error) => {
             console.error('❌ Connection error:', error);
+
+            // Rejected by the handshake middleware; retrying will not help
+            if (error.message === 'Unauthorized') {
+                setError('Could not verify your access to this meeting');
+                socket.disconnect();
+            }
         });
         
         socket.on('waiting', () => {
             console.log('⏳ Waiting for partner...');
             setLobby(true);
+            setAwaitingAdmission(false);
+        });
+
+        socket.on('waiting-room', () => {
+            console.log('🚪 Waiting for the host to admit us...');
+            setLobby(true);
+            setAwaitingAdmission(true);
+        });
+
+        socket.on('waiting-room-updated', ({ waiting }: { waiting: WaitingParticipant[] }) => {
+            console.log('🚪 Waiting room:', waiting.length, 'waiting');
+            setWaitingParticipants(waiting);
+        });
+
+        // The server turned down one of our messages; only a rejected join leaves us stuck
+        socket.on('error', ({ event, message }) => {
+            console.error('❌ Server rejected', event, ':', message);
+            if (event === 'join-meeting') setError(message);
         });
 
-        socket.on('error', ({ message }: { message: string }) => {
-            console.error('❌ Server error:', message);
+        // The server rejected the join (unknown code, outside the join window, full...)
+        socket.on('join-error', ({ code, message }: JoinError) => {
+            console.error('❌ Join rejected:', code);
+
+            // Not fatal: we rejoin once the server is back
+            if (code === 'SERVER_RESTARTING') return;
+
             setError(message);
         });
+
+        socket.on('meeting-info', (info: MeetingInfo) => {
+            console.log('📋 Meeting info:', info.title);
+            setMeetingInfo(info);
+            setMeetingLocked(info.locked);
+        });
+
+        // Moderation events from the meeting host
+        const leaveByHost = (message: string) => {
+            setConnected(false);
+            setLobby(false);
+            setEndedMessage(message);
+            socket.disconnect();
+        };
+
+        socket.on('removed-from-meeting', () => {
+            console.log('🚪 Removed from meeting by host');
+            leaveByHost('The host removed you from this meeting');
+        });
+
+        socket.on('meeting-ended', () => {
+            console.log('🛑 Meeting ended by host');
+            leaveByHost('The host ended this meeting for everyone');
+        });
+
+        socket.on('meeting-lock-changed', ({ locked }: { locked: boolean }) => {
+            console.log(locked ? '🔒 Meeting locked' : '🔓 Meeting unlocked');
+            setMeetingLocked(locked);
+        });
+
+        socket.on('mute-requested', () => {
+            console.log('🔇 Host asked us to mute');
+            setMuteRequested(true);
+        });
         
         socket.on('partner-connected', ({ meetingId: connectedMeetingId }) => {
             console.log('✅ Partner connected to meeting:', connectedMeetingId);
+            setAwaitingAdmission(false);
             setLobby(false);
             setConnected(true);
         });
 
-        socket.on('user-disconnected', () => {
-            console.log('👋 Other user disconnected');
-            alert('The other participant has left the meeting');
-            setLobby(true);
-            setConnected(false);
-            
-            if (pcRef.current) {
-                pcRef.current.close();
-                pcRef.current = null;
-            }
-        });
-
-        // Receive overlay data with opacity
-        socket.on('overlay-data', ({ landmarks, overlayUrl, opacity }: { 
-            landmarks: any, 
-            overlayUrl: string | null, 
-            opacity: number | null 
-        }) => {
-            console.log('📥 Received overlay-data:', { 
-                hasLandmarks: !!landmarks, 
-                overlayUrl, 
-                opacity,
-                opacityType: typeof opacity,
-                fullData: { landmarks: !!landmarks, overlayUrl, opacity }
+        socket.on('user-disconnected', ({ socketId }: { socketId: string }) => {
+            console.log('👋 Participant disconnected:', socketId);
+
+            const pc = peersRef.current.get(socketId);
+            if (pc) {
+                pc.close();
+                peersRef.current.delete(socketId);
+                landmarkChannelsRef.current.delete(pc);
+            }
+            remoteOverlaysRef.current.delete(socketId);
+            frameFiltersRef.current.delete(socketId);
+            offeredPeersRef.current.delete(socketId);
+
+            setReconnectingPeers(prev => {
+                const next = new Set(prev);
+                next.delete(socketId);
+                return next;
             });
-            
-            if (landmarks === null) {
-                // Remote user disabled overlay
-                if (remoteCanvasRef.current) {
-                    const ctx = remoteCanvasRef.current.getContext('2d');
-                    if (ctx) {
-                        ctx.clearRect(0, 0, remoteCanvasRef.current.width, remoteCanvasRef.current.height);
-                    }
-                }
-                setRemoteLandmarks(null);
-            } else {
-                // Remote user has overlay enabled
-                
-                // Update remote overlay URL if it changed
-                if (overlayUrl && overlayUrl !== remoteOverlayUrl) {
-                    console.log('🎭 Remote user switched overlay to:', overlayUrl);
-                    setRemoteOverlayUrl(overlayUrl);
-                }
 
-                // Update remote opacity ref immediately for instant drawing
-                if (opacity !== null) {
-                    console.log('🎨 Updating remote opacity to:', opacity);
-                    remoteOverlayOpacityRef.current = opacity;
-                    setRemoteOverlayOpacity(opacity);
-                }
-                
-                // Draw immediately with the new opacity
-                if (remoteCanvasRef.current && remoteOverlayImageRef.current) {
-                    drawFaceOverlay(
-                        remoteCanvasRef.current,
-                        landmarks,
-                        remoteOverlayImageRef.current,
-                        opacity !== null ? opacity : remoteOverlayOpacityRef.current
-                    );
-                }
-                
-                // Update landmarks to trigger effect (but we've already drawn)
-                setRemoteLandmarks(landmarks);
+            setRemoteScreens(prev => {
+                const next = new Map(prev);
+                next.delete(socketId);
+                return next;
+            });
+
+            setRemoteStreams(prev => {
+                const next = new Map(prev);
+                next.delete(socketId);
+                return next;
+            });
+
+            // Back to the lobby once everyone else has left
+            if (peersRef.current.size === 0) {
+                alert('The other participants have left the meeting');
+                setLobby(true);
+                setConnected(false);
             }
         });
 
+        // Sent whenever a participant changes overlay, and replayed by the server when we join
+        socket.on('overlay-config', ({ socketId, ...config }: { socketId: string } & OverlayConfig) => {
+            applyRemoteOverlayConfig(socketId, config);
+        });
+
+        // Fallback relay for peers whose landmark data channel is not open yet
+        socket.on('overlay-data', ({ socketId, frame }) => {
+            // Binary always arrives as an ArrayBuffer in the browser; copy anything else into one
+            receiveOverlayFrame(socketId, frame instanceof ArrayBuffer ? frame : new Uint8Array(frame).buffer);
+        });
+
         setSocket(socket);
         
+        const peers = peersRef.current;
+
         return () => {
             console.log('🔌 Disconnecting socket');
-            if (pcRef.current) {
-                pcRef.current.close();
-            }
+            if (restartTimer) clearTimeout(restartTimer);
+            peers.forEach(pc => pc.close());
+            peers.clear();
             socket.disconnect();
         };
-    }, [meetingId, name]);
+    }, [meetingId, name, receiveOverlayFrame, applyRemoteOverlayConfig]);
 
     // Load local overlay image
     useEffect(() => {
@@ -239,20 +656,6 @@ export const Room = ({
         };
     }, [selectedOverlayUrl]);
 
-    // Load remote overlay image
-    useEffect(() => {
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        img.src = remoteOverlayUrl;
-        img.onload = () => {
-            remoteOverlayImageRef.current = img;
-            console.log('✅ Remote overlay image loaded:', remoteOverlayUrl);
-        };
-        img.onerror = () => {
-            console.error('❌ Failed to load remote overlay image:', remoteOverlayUrl);
-        };
-    }, [remoteOverlayUrl]);
-
     useEffect(() => {
         localOverlayEnabledRef.current = localOverlayEnabled;
     }, [localOverlayEnabled]);
@@ -288,7 +691,7 @@ export const Room = ({
         });
 
         faceMesh.setOptions({
-            maxNumFaces: 1,
+            maxNumFaces: MAX_MASKED_FACES,
             refineLandmarks: true,
             minDetectionConfidence: 0.5,
             minTrackingConfidence: 0.5
@@ -296,54 +699,48 @@ export const Room = ({
 
         faceMesh.onResults((results: Results) => {
             if (!videoEnabledRef.current) {
-                if (localCanvasRef.current) {
-                    const ctx = localCanvasRef.current.getContext('2d');
-                    if (ctx) {
-                        ctx.clearRect(0, 0, localCanvasRef.current.width, localCanvasRef.current.height);
-                    }
-                }
+                clearCanvas(localCanvasRef.current);
+                maskedVideoRef.current?.renderBlank();
                 return;
             }
-            
-            if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
-                const landmarks = results.multiFaceLandmarks[0];
-                
-                if (localOverlayEnabledRef.current && videoEnabledRef.current) {
-                    if (socket) {
-                        const opacityToSend = localOverlayOpacityRef.current;
-                        
-                        // Send overlay data with opacity
-                        socket.emit('overlay-data', {
-                            meetingId,
-                            landmarks: landmarks,
-                            overlayUrl: selectedOverlayUrlRef.current,
-                            opacity: opacityToSend
-                        });
-                    }
 
-                    drawFaceOverlay(
-                        localCanvasRef.current, 
-                        landmarks, 
-                        overlayImageRef.current,
-                        localOverlayOpacityRef.current
-                    );
-                } else if (!localOverlayEnabledRef.current || !videoEnabledRef.current) {
-                    if (socket) {
-                        socket.emit('overlay-data', {
-                            meetingId,
-                            landmarks: null,
-                            overlayUrl: null,
-                            opacity: null
-                        });
-                    }
-                    
-                    if (localCanvasRef.current) {
-                        const ctx = localCanvasRef.current.getContext('2d');
-                        if (ctx) {
-                            ctx.clearRect(0, 0, localCanvasRef.current.width, localCanvasRef.current.height);
-                        }
-                    }
+            // Everyone in view is masked in the outgoing video; the overlay
+            // follows the first face found
+            const faces = results.multiFaceLandmarks ?? [];
+            const detected = faces[0] ?? null;
+
+            // Composite the outgoing frame from the exact image FaceMesh analyzed,
+            // so the overlay never lags behind the face it covers
+            if (maskedVideoRef.current) {
+                maskedVideoRef.current.renderFrame({
+                    image: results.image,
+                    faces,
+                    overlayImage: overlayImageRef.current,
+                    overlayEnabled: localOverlayEnabledRef.current,
+                });
+            }
+
+            if (!detected) {
+                sendOverlayData(null);
+                clearCanvas(localCanvasRef.current);
+                return;
+            }
+
+            if (localOverlayEnabledRef.current) {
+                // In masked send mode the overlay is already baked into the video
+                if (!maskedSendEnabledRef.current) {
+                    sendOverlayData(detected);
                 }
+
+                drawFaceOverlay(
+                    localCanvasRef.current, 
+                    detected, 
+                    overlayImageRef.current,
+                    localOverlayOpacityRef.current,
+                    localBlendModeRef.current
+                );
+            } else {
+                clearCanvas(localCanvasRef.current);
             }
         });
 
@@ -372,25 +769,7 @@ export const Room = ({
                 cameraRef.current.stop();
             }
         };
-    }, [lobby, socket, meetingId]);
-
-    // Draw remote overlay with remote opacity
-    useEffect(() => {
-        if (remoteLandmarks && remoteCanvasRef.current) {
-            console.log('🎨 Drawing remote overlay with opacity:', remoteOverlayOpacity);
-            drawFaceOverlay(
-                remoteCanvasRef.current, 
-                remoteLandmarks, 
-                remoteOverlayImageRef.current,
-                remoteOverlayOpacity
-            );
-        } else if (!remoteLandmarks && remoteCanvasRef.current) {
-            const ctx = remoteCanvasRef.current.getContext('2d');
-            if (ctx) {
-                ctx.clearRect(0, 0, remoteCanvasRef.current.width, remoteCanvasRef.current.height);
-            }
-        }
-    }, [remoteLandmarks, remoteOverlayUrl, remoteOverlayOpacity]);
+    }, [lobby, sendOverlayData]);
 
     useEffect(() => {
         if (!localOverlayEnabled && localCanvasRef.current) {
@@ -398,17 +777,8 @@ export const Room = ({
             if (ctx) {
                 ctx.clearRect(0, 0, localCanvasRef.current.width, localCanvasRef.current.height);
             }
-            
-            if (socket) {
-                socket.emit('overlay-data', {
-                    meetingId,
-                    landmarks: null,
-                    overlayUrl: null,
-                    opacity: null
-                });
-            }
         }
-    }, [localOverlayEnabled, socket, meetingId]);
+    }, [localOverlayEnabled]);
 
     useEffect(() => {
         if (!videoEnabled) {
@@ -419,16 +789,50 @@ export const Room = ({
                 }
             }
             
-            if (socket) {
-                socket.emit('overlay-data', {
-                    meetingId,
-                    landmarks: null,
-                    overlayUrl: null,
-                    opacity: null
+            sendOverlayData(null);
+        }
+    }, [videoEnabled, sendOverlayData]);
+
+    // Switch the outgoing video between the masked composite and the raw camera
+    useEffect(() => {
+        const maskedVideo = maskedVideoRef.current;
+        if (!maskedVideo) return;
+
+        const outgoing = maskedSendEnabled ? maskedVideo.track : localVideoTrack;
+        peersRef.current.forEach(pc => {
+            const screenSender = screenSendersRef.current.get(pc);
+            const sender = pc.getSenders().find(s => s.track?.kind === 'video' && s !== screenSender);
+            if (sender && sender.track !== outgoing) {
+                sender.replaceTrack(outgoing).catch((err) => {
+                    console.error('❌ Error switching outgoing video track:', err);
                 });
             }
+        });
+    }, [maskedSendEnabled, localVideoTrack]);
+
+    // Tell everyone how to draw our overlay whenever any part of it changes. Remote
+    // sides must not paint relayed landmarks over an overlay baked into our video.
+    useEffect(() => {
+        if (!socket || !meetingInfo) return;
+
+        const overlay = availableOverlays.find(o => o.url === selectedOverlayUrl) ?? DEFAULT_OVERLAY;
+        socket.emit('overlay-config', {
+            meetingId,
+            overlayId: overlay.id,
+            overlayUrl: selectedOverlayUrl,
+            opacity: localOverlayOpacity,
+            blendMode: localBlendMode,
+            enabled: localOverlayEnabled && !maskedSendEnabled,
+        });
+    }, [socket, meetingInfo, meetingId, availableOverlays, selectedOverlayUrl, localOverlayOpacity, localBlendMode, localOverlayEnabled, maskedSendEnabled]);
+
+    const registerRemoteCanvas = useCallback((peerId: string, canvas: HTMLCanvasElement | null) => {
+        if (canvas) {
+            remoteCanvasesRef.current.set(peerId, canvas);
+        } else {
+            remoteCanvasesRef.current.delete(peerId);
         }
-    }, [videoEnabled, socket, meetingId]);
+    }, []);
 
     // WebRTC setup and signaling handlers
     useEffect(() => {
@@ -436,126 +840,297 @@ export const Room = ({
             return;
         }
 
-        console.log('🔧 Setting up WebRTC connection...');
+        console.log('🔧 Setting up WebRTC signaling...');
 
-        const pc = new RTCPeerConnection({
-            iceServers: [
-                { urls: 'stun:stun.l.google.com:19302' },
-                { urls: 'stun:stun1.l.google.com:19302' },
-                { 
-                    urls: 'turn:openrelay.metered.ca:80',
-                    username: 'openrelayproject',
-                    credential: 'openrelayproject',
-                },
-                { 
-                    urls: 'turn:openrelay.metered.ca:443',
-                    username: 'openrelayproject',
-                    credential: 'openrelayproject',
-                },
-            ],
-            iceCandidatePoolSize: 10,
-        });
-        pcRef.current = pc;
+        const peers = peersRef.current;
+        const offeredPeers = offeredPeersRef.current;
+        const screenSenders = screenSendersRef.current;
+        const landmarkChannels = landmarkChannelsRef.current;
+        const negotiation = new Map<RTCPeerConnection, NegotiationState>();
 
-        pc.ontrack = (event) => {
-            console.log('📥 Received remote track:', event.track.kind);
-            
-            if (remoteVideoRef.current) {
-                const remoteStream = event.streams[0];
-                remoteVideoRef.current.srcObject = remoteStream;
-                console.log('✅ Remote stream set to video element');
+        // Peers can be re-keyed when they reconnect, so look the id up at use time
+        const peerIdOf = (pc: RTCPeerConnection) => {
+            for (const [id, peer] of peers) {
+                if (peer === pc) return id;
             }
+            return undefined;
         };
 
-        pc.onicecandidate = (event) => {
-            if (event.candidate) {
-                console.log('🧊 Sending ICE candidate');
-                socket.emit('ice-candidate', {
-                    roomId: meetingId,
-                    candidate: event.candidate,
-                    type: 'sender'
-                });
-            }
-        };
+        // Restarts ICE on an existing connection instead of tearing it down;
+        // the negotiationneeded handler sends the restart offer
+        const restartIce = (peerId: string) => {
+            const pc = peers.get(peerId);
+            if (!pc) return;
+
+            console.log('🔁 Restarting ICE with peer:', peerId);
 
-        pc.onconnectionstatechange = () => {
-            console.log('🔄 Connection state:', pc.connectionState);
+            // TURN credentials may have expired since the connection was created
+            getIceServers(meetingId, name).then(iceServers => {
+                if (pc.signalingState === 'closed') return;
+                pc.setConfiguration({ ...pc.getConfiguration(), iceServers });
+                pc.restartIce();
+            });
         };
 
-        pc.oniceconnectionstatechange = () => {
-            console.log('🧊 ICE connection state:', pc.iceConnectionState);
+        // A video track whose stream is not the peer's camera stream is a shared screen
+        const handleRemoteVideo = (pc: RTCPeerConnection, track: MediaStreamTrack, stream: MediaStream, cameraStreamId: string | undefined) => {
+            const peerId = peerIdOf(pc);
+            if (!peerId || track.kind !== 'video' || cameraStreamId === undefined || stream.id === cameraStreamId) {
+                return false;
+            }
+
+            console.log('🖥️ Peer started presenting:', peerId);
+            setRemoteScreens(prev => new Map(prev).set(peerId, stream));
+
+            // Fired when the presenter removes the track and renegotiates
+            stream.onremovetrack = () => {
+                const currentId = peerIdOf(pc);
+                if (!currentId) return;
+                console.log('🖥️ Peer stopped presenting:', currentId);
+                setRemoteScreens(prev => {
+                    const next = new Map(prev);
+                    next.delete(currentId);
+                    return next;
+                });
+            };
+            return true;
         };
 
-        const handleSendOffer = async ({ roomId }: { roomId: string }) => {
-            console.log('📤 Creating offer for room:', roomId);
-            
-            if (localStreamRef.current) {
-                localStreamRef.current.getTracks().forEach(track => {
-                    console.log('➕ Adding track to peer connection:', track.kind);
-                    pc.addTrack(track, localStreamRef.current!);
+        // Creates the peer connection to one remote participant
+        const createPeerConnection = (peerId: string) => {
+            const pc = new RTCPeerConnection({
+                iceServers: iceServersRef.current,
+                iceCandidatePoolSize: 10,
+                ...(e2ee ? e2eePeerConfig() : {}),
+            });
+            peers.set(peerId, pc);
+            negotiation.set(pc, { polite: !offeredPeers.has(peerId), makingOffer: false, ignoreOffer: false });
+            let cameraStreamId: string | undefined;
+
+            setRemoteStreams(prev => new Map(prev).set(peerId, prev.get(peerId) ?? null));
+
+            pc.ontrack = (event) => {
+                // Must be in place before the first frame reaches the decoder
+                if (e2ee) protectReceiver(event.receiver, e2ee);
+
+                const currentId = peerIdOf(pc) ?? peerId;
+                console.log('📥 Received remote track:', event.track.kind, 'from', currentId);
+                const remoteStream = event.streams[0];
+
+                if (handleRemoteVideo(pc, event.track, remoteStream, cameraStreamId)) {
+                    return;
+                }
+
+                // Camera and microphone arrive first, in the same stream
+                cameraStreamId = remoteStream.id;
+                setRemoteStreams(prev => new Map(prev).set(currentId, remoteStream));
+            };
+
+            // Every (re)negotiation starts here: initial offer, ICE restarts, screen share changes
+            pc.onnegotiationneeded = async () => {
+                const state = negotiation.get(pc);
+                const currentId = peerIdOf(pc);
+                if (!state || !currentId) return;
+
+                try {
+                    state.makingOffer = true;
+                    await pc.setLocalDescription();
+                    console.log('📨 Sending offer to peer:', currentId);
+                    socket.emit('offer', {
+                        roomId: meetingId,
+                        sdp: pc.localDescription!.sdp,
+                        targetId: currentId
+                    });
+                } catch (err) {
+                    console.error('❌ Error creating offer:', err);
+                } finally {
+                    state.makingOffer = false;
+                }
+            };
+
+            pc.onicecandidate = (event) => {
+                const currentId = peerIdOf(pc);
+                if (event.candidate && currentId) {
+                    console.log('🧊 Sending ICE candidate');
+                    socket.emit('ice-candidate', {
+                        roomId: meetingId,
+                        candidate: event.candidate,
+                        targetId: currentId
+                    });
+                }
+            };
+
+            pc.onconnectionstatechange = () => {
+                console.log('🔄 Connection state:', peerId, pc.connectionState);
+            };
+
+            pc.oniceconnectionstatechange = () => {
+                const currentId = peerIdOf(pc);
+                console.log('🧊 ICE connection state:', currentId, pc.iceConnectionState);
+
+                // Network path changed or dropped; recover the media path in place
+                if (pc.iceConnectionState === 'failed' && currentId && offeredPeers.has(currentId)) {
+                    restartIce(currentId);
+                }
+            };
+
+            // Add local tracks, swapping the raw camera for the masked track when enabled
+            const stream = localStreamRef.current;
+            if (stream) {
+                stream.getTracks().forEach(track => {
+                    const outgoing = track.kind === 'video' && maskedSendEnabledRef.current && maskedVideoRef.current
+                        ? maskedVideoRef.current.track
+                        : track;
+                    console.log('➕ Adding track to peer connection:', outgoing.kind);
+                    const sender = pc.addTrack(outgoing, stream);
+                    if (e2ee) protectSender(pc, sender, e2ee);
                 });
             }
-            
-            try {
-                const offer = await pc.createOffer();
-                await pc.setLocalDescription(offer);
-                
-                console.log('📨 Sending offer to server');
-                socket.emit('offer', {
-                    roomId,
-                    sdp: offer.sdp
-                });
-            } catch (err) {
-                console.error('❌ Error creating offer:', err);
+
+            // Negotiated with a fixed id on both sides, so it rides in the first offer
+            // and needs no ondatachannel handshake; lost frames are never resent
+            const landmarkChannel = pc.createDataChannel('landmarks', {
+                negotiated: true,
+                id: 0,
+                ordered: false,
+                maxRetransmits: 0,
+            });
+            landmarkChannel.binaryType = 'arraybuffer';
+            landmarkChannel.onopen = () => {
+                console.log('📡 Landmark channel open:', peerIdOf(pc));
+            };
+            landmarkChannel.onmessage = (event) => {
+                const currentId = peerIdOf(pc);
+                if (!currentId || !(event.data instanceof ArrayBuffer)) return;
+
+                receiveOverlayFrame(currentId, event.data);
+            };
+            landmarkChannels.set(pc, landmarkChannel);
+
+            // Late joiners get the screen that is already being presented
+            const screenStream = screenStreamRef.current;
+            const screenTrack = screenStream?.getVideoTracks()[0];
+            if (screenStream && screenTrack) {
+                const sender = pc.addTrack(screenTrack, screenStream);
+                if (e2ee) protectSender(pc, sender, e2ee);
+                screenSenders.set(pc, sender);
             }
+
+            return pc;
         };
 
-        const handleOffer = async ({ sdp, roomId }: { sdp: string, roomId: string }) => {
-            console.log('📥 Received offer from server');
-            
-            if (localStreamRef.current) {
-                localStreamRef.current.getTracks().forEach(track => {
-                    console.log('➕ Adding track to peer connection:', track.kind);
-                    pc.addTrack(track, localStreamRef.current!);
-                });
+        const getPeerConnection = (peerId: string) => {
+            return peers.get(peerId) ?? createPeerConnection(peerId);
+        };
+
+        // The server picks us to open the connection; adding our tracks triggers the offer
+        const handleSendOffer = ({ targetId }: { roomId: string, targetId: string }) => {
+            console.log('📤 Creating offer for peer:', targetId);
+            offeredPeers.add(targetId);
+            getPeerConnection(targetId);
+        };
+
+        const handleOffer = async ({ sdp, roomId, senderId }: { sdp: string, roomId: string, senderId: string }) => {
+            console.log('📥 Received offer from peer:', senderId);
+            const pc = getPeerConnection(senderId);
+            const state = negotiation.get(pc);
+            if (!state) return;
+
+            // Glare: both sides offered at once, only the polite side backs down
+            const offerCollision = state.makingOffer || pc.signalingState !== 'stable';
+            state.ignoreOffer = !state.polite && offerCollision;
+            if (state.ignoreOffer) {
+                console.log('⚔️ Ignoring colliding offer from peer:', senderId);
+                return;
             }
             
             try {
-                await pc.setRemoteDescription(new RTCSessionDescription({ type: 'offer', sdp }));
+                // Rolls back our own pending offer implicitly when we are polite
+                await pc.setRemoteDescription({ type: 'offer', sdp });
                 
                 console.log('📤 Creating answer');
-                const answer = await pc.createAnswer();
-                await pc.setLocalDescription(answer);
+                await pc.setLocalDescription();
                 
                 console.log('📨 Sending answer to server');
                 socket.emit('answer', {
                     roomId,
-                    sdp: answer.sdp
+                    sdp: pc.localDescription!.sdp,
+                    targetId: senderId
                 });
             } catch (err) {
                 console.error('❌ Error handling offer:', err);
             }
         };
 
-        const handleAnswer = async ({ sdp }: { sdp: string }) => {
-            console.log('📥 Received answer from server');
+        const handleAnswer = async ({ sdp, senderId }: { sdp: string, senderId: string }) => {
+            console.log('📥 Received answer from peer:', senderId);
+            const pc = peers.get(senderId);
+            if (!pc) return;
             
             try {
-                await pc.setRemoteDescription(new RTCSessionDescription({ type: 'answer', sdp }));
+                await pc.setRemoteDescription({ type: 'answer', sdp });
                 console.log('✅ Remote description set');
             } catch (err) {
                 console.error('❌ Error setting remote description:', err);
             }
         };
 
-        const handleIceCandidate = async ({ candidate }: { candidate: RTCIceCandidateInit }) => {
-            console.log('🧊 Received ICE candidate from server');
+        const handleIceCandidate = async ({ candidate, senderId }: { candidate: RTCIceCandidateInit, senderId: string }) => {
+            console.log('🧊 Received ICE candidate from peer:', senderId);
+            const pc = peers.get(senderId);
+            if (!pc) return;
             
             try {
                 await pc.addIceCandidate(new RTCIceCandidate(candidate));
                 console.log('✅ ICE candidate added');
             } catch (err) {
-                console.error('❌ Error adding ICE candidate:', err);
+                // Candidates for an offer we ignored during glare are expected to fail
+                if (!negotiation.get(pc)?.ignoreOffer) {
+                    console.error('❌ Error adding ICE candidate:', err);
+                }
+            }
+        };
+
+        // We came back on a new socket; our existing peer connections are kept
+        const handleSessionResumed = ({ previousId }: { previousId: string }) => {
+            console.log('🔁 Session resumed, previously', previousId);
+            offeredPeers.forEach(peerId => restartIce(peerId));
+        };
+
+        // A remote participant came back on a new socket id; re-key everything we hold for them
+        const handlePeerReconnected = ({ previousId, socketId }: { previousId: string, socketId: string }) => {
+            console.log('🔁 Peer reconnected:', previousId, '->', socketId);
+
+            const pc = peers.get(previousId);
+            if (pc) {
+                peers.delete(previousId);
+                peers.set(socketId, pc);
+            }
+
+            // The sender's sequence carries on, so a fresh filter for the new id is fine
+            frameFiltersRef.current.delete(previousId);
+
+            const overlay = remoteOverlaysRef.current.get(previousId);
+            if (overlay) {
+                remoteOverlaysRef.current.delete(previousId);
+                remoteOverlaysRef.current.set(socketId, overlay);
+            }
+
+            setRemoteStreams(prev => new Map(
+                [...prev].map(([id, stream]) => [id === previousId ? socketId : id, stream])
+            ));
+            setRemoteScreens(prev => new Map(
+                [...prev].map(([id, stream]) => [id === previousId ? socketId : id, stream])
+            ));
+            setReconnectingPeers(prev => {
+                const next = new Set(prev);
+                next.delete(previousId);
+                return next;
+            });
+
+            if (offeredPeers.delete(previousId)) {
+                offeredPeers.add(socketId);
+                restartIce(socketId);
             }
         };
 
@@ -563,101 +1138,183 @@ export const Room = ({
         socket.on('offer', handleOffer);
         socket.on('answer', handleAnswer);
         socket.on('add-ice-candidate', handleIceCandidate);
+        socket.on('session-resumed', handleSessionResumed);
+        socket.on('peer-reconnected', handlePeerReconnected);
 
         return () => {
-            console.log('🧹 Cleaning up WebRTC connection');
+            console.log('🧹 Cleaning up WebRTC connections');
             
             socket.off('send-offer', handleSendOffer);
             socket.off('offer', handleOffer);
             socket.off('answer', handleAnswer);
             socket.off('add-ice-candidate', handleIceCandidate);
+            socket.off('session-resumed', handleSessionResumed);
+            socket.off('peer-reconnected', handlePeerReconnected);
             
-            if (pc) {
-                pc.close();
-            }
+            peers.forEach(pc => pc.close());
+            peers.clear();
+            offeredPeers.clear();
+            screenSenders.clear();
+            landmarkChannels.clear();
+            setRemoteStreams(new Map());
+            setRemoteScreens(new Map());
         };
-    }, [connected, socket, meetingId]);
+    }, [connected, socket, meetingId, name, receiveOverlayFrame, e2ee]);
 
-    // IMPROVED: Draw face overlay that follows actual face contour
-    const drawFaceOverlay = (
-        canvas: HTMLCanvasElement | null, 
-        landmarks: any,
-        overlayImage: HTMLImageElement | null,
-        opacity: number
-    ) => {
-        if (!canvas) return;
+    // Report our media toggles so the roster shows everyone who is muted or off camera
+    useEffect(() => {
+        if (!socket || !meetingInfo) return;
 
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+        socket.emit('media-state', {
+            meetingId,
+            audioEnabled,
+            videoEnabled,
+            overlayEnabled: localOverlayEnabled,
+        });
+    }, [socket, meetingInfo, meetingId, audioEnabled, videoEnabled, localOverlayEnabled]);
 
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Poll every connection's stats for the quality indicator, and upload
+    // aggregated samples so call quality can be reviewed after the meeting
+    useEffect(() => {
+        if (!connected) return;
 
-        if (!overlayImage) return;
+        const snapshots = statsSnapshotsRef.current;
+        const pending = pendingStatsRef.current;
 
-        // Create a path that follows the face contour
-        ctx.save();
-        
-        // Set opacity
-        ctx.globalAlpha = opacity;
-        
-        // Begin creating face-shaped clipping path
-        ctx.beginPath();
-        
-        // Face contour landmarks (from left ear, around jawline, to right ear)
-        // These landmarks trace the actual outline of the face
-        const faceOvalIndices = [
-            10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288,
-            397, 365, 379, 378, 400, 377, 152, 148, 176, 149, 150, 136,
-            172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109
+        const upload = () => {
+            const samples = [...pending.entries()]
+                .filter(([, polls]) => polls.length > 0)
+                .map(([peerId, polls]) => aggregatePeerStats(peerId, polls));
+            pending.clear();
+            postCallStats(meetingId, name, samples);
+        };
+
+        const poll = async () => {
+            const next = new Map<string, PeerStats>();
+
+            await Promise.all([...peersRef.current.entries()].map(async ([peerId, pc]) => {
+                if (pc.connectionState !== 'connected') return;
+
+                try {
+                    const { stats, snapshot } = await collectPeerStats(pc, snapshots.get(pc));
+                    snapshots.set(pc, snapshot);
+                    next.set(peerId, stats);
+
+                    const polls = pending.get(peerId) ?? [];
+                    polls.push(stats);
+                    pending.set(peerId, polls);
+                } catch (err) {
+                    console.error('Error reading connection stats:', peerId, err);
+                }
+            }));
+
+            setPeerStats(next);
+        };
+
+        const pollTimer = setInterval(poll, STATS_POLL_MS);
+        const uploadTimer = setInterval(upload, STATS_UPLOAD_MS);
+
+        return () => {
+            clearInterval(pollTimer);
+            clearInterval(uploadTimer);
+            upload();
+            snapshots.clear();
+            setPeerStats(new Map());
+        };
+    }, [connected, meetingId, name]);
+
+    // The recorder reads these every frame, outside React's render cycle
+    useEffect(() => {
+        remoteStreamsRef.current = remoteStreams;
+        remoteScreensRef.current = remoteScreens;
+    }, [remoteStreams, remoteScreens]);
+
+    const localAudioStream = useMemo(() => new MediaStream([localAudioTrack]), [localAudioTrack]);
+    const localVideoStream = useMemo(() => new MediaStream([localVideoTrack]), [localVideoTrack]);
+
+    // Tiles in the recording: ourselves, then each remote camera and screen.
+    // Only what peers already see is recorded, so with masked send our own
+    // tile is the masked track rather than the raw camera.
+    const recordingSources = useCallback((maskedStream: MediaStream | null): RecordingSource[] => {
+        const local: RecordingSource = maskedSendEnabledRef.current && maskedStream
+            ? { stream: maskedStream, overlay: null }
+            : { stream: localVideoStream, overlay: localCanvasRef.current };
+
+        return [
+            local,
+            ...[...remoteStreamsRef.current.entries()].map(([peerId, stream]) => ({
+                stream,
+                overlay: remoteCanvasesRef.current.get(peerId) ?? null,
+            })),
+            ...[...remoteScreensRef.current.values()].map(stream => ({ stream, overlay: null })),
         ];
-        
-        // Start the path at the first point
-        const firstPoint = landmarks[faceOvalIndices[0]];
-        ctx.moveTo(firstPoint.x * canvas.width, firstPoint.y * canvas.height);
-        
-        // Draw lines to each subsequent point to create face outline
-        for (let i = 1; i < faceOvalIndices.length; i++) {
-            const point = landmarks[faceOvalIndices[i]];
-            ctx.lineTo(point.x * canvas.width, point.y * canvas.height);
+    }, [localVideoStream]);
+
+    const startRecording = () => {
+        const maskedTrack = maskedVideoRef.current?.track;
+        const maskedStream = maskedTrack ? new MediaStream([maskedTrack]) : null;
+
+        try {
+            recorderRef.current = startMeetingRecording(() => recordingSources(maskedStream));
+        } catch (err) {
+            console.error('❌ Could not start recording:', err);
+            return;
         }
-        
-        // Close the path
-        ctx.closePath();
-        
-        // Use this path as a clipping region
-        ctx.clip();
-        
-        // Now calculate bounds for the overlay within this clipped region
-        const foreheadTop = landmarks[10];
-        const chinBottom = landmarks[152];
-        const leftCheek = landmarks[234];
-        const rightCheek = landmarks[454];
-        
-        const faceWidth = Math.abs((rightCheek.x - leftCheek.x) * canvas.width);
-        const faceHeight = Math.abs((chinBottom.y - foreheadTop.y) * canvas.height);
-        
-        const centerX = ((leftCheek.x + rightCheek.x) / 2) * canvas.width;
-        const centerY = ((foreheadTop.y + chinBottom.y) / 2) * canvas.height;
-        
-        // Size the overlay to cover the clipped face area
-        const overlayWidth = faceWidth * 1.5;
-        const overlayHeight = faceHeight * 1.6;
-        
-        const verticalOffset = faceHeight * 0.05;
-        
-        // Draw the overlay image (will only show within the face-shaped clip)
-        ctx.drawImage(
-            overlayImage,
-            centerX - overlayWidth / 2,
-            centerY - overlayHeight / 2 - verticalOffset,
-            overlayWidth,
-            overlayHeight
-        );
-        
-        // Restore context to remove clipping
-        ctx.restore();
+
+        setFinishedRecording(null);
+        setRecording(true);
+        console.log('⏺️ Recording started');
     };
 
+    const stopRecording = useCallback(async () => {
+        const recorder = recorderRef.current;
+        if (!recorder) return null;
+
+        recorderRef.current = null;
+        setRecording(false);
+
+        const blob = await recorder.stop();
+        const durationSeconds = Math.round((Date.now() - recorder.startedAt) / 1000);
+        console.log('⏹️ Recording stopped:', durationSeconds, 's');
+        return { blob, durationSeconds };
+    }, []);
+
+    const toggleRecording = async () => {
+        if (recording) {
+            setFinishedRecording(await stopRecording());
+        } else {
+            startRecording();
+        }
+    };
+
+    // Everyone must be able to see that they are being recorded. Resent on
+    // every (re)join, since a fresh join starts with the flag cleared.
+    useEffect(() => {
+        if (!socket || !meetingInfo) return;
+
+        socket.emit('recording-state', { meetingId, recording });
+    }, [socket, meetingInfo, meetingId, recording]);
+
+    // Keep the mix in step with who is in the call
+    useEffect(() => {
+        if (!recording) return;
+
+        recorderRef.current?.setAudioStreams([
+            localAudioStream,
+            ...[...remoteStreams.values()].filter((stream): stream is MediaStream => stream !== null),
+            ...remoteScreens.values(),
+        ]);
+    }, [recording, localAudioStream, remoteStreams, remoteScreens]);
+
+    // Leaving mid-recording saves what was recorded instead of dropping it
+    useEffect(() => {
+        return () => {
+            stopRecording().then(result => {
+                if (result) downloadRecording(result.blob, meetingId);
+            });
+        };
+    }, [stopRecording, meetingId]);
+
     const copyMeetingLink = () => {
         const meetingUrl = window.location.href;
         navigator.clipboard.writeText(meetingUrl)
@@ -681,11 +1338,109 @@ export const Room = ({
     const toggleVideo = () => {
         if (localVideoTrack) {
             localVideoTrack.enabled = !videoEnabled;
+            if (maskedVideoRef.current) {
+                maskedVideoRef.current.track.enabled = !videoEnabled;
+            }
             setVideoEnabled(!videoEnabled);
             console.log('🎹 Video:', !videoEnabled ? 'ON' : 'OFF');
         }
     };
 
+    // Host moderation commands; the server ignores them from anyone else
+    const removeParticipant = (targetId: string) => {
+        socket?.emit('remove-participant', { meetingId, targetId });
+    };
+
+    const requestMute = (targetId: string) => {
+        socket?.emit('request-mute', { meetingId, targetId });
+    };
+
+    const toggleMeetingLock = () => {
+        socket?.emit('lock-meeting', { meetingId, locked: !meetingLocked });
+    };
+
+    const admitParticipant = (targetId: string) => {
+        socket?.emit('admit-participant', { meetingId, targetId });
+    };
+
+    const denyParticipant = (targetId: string) => {
+        socket?.emit('deny-participant', { meetingId, targetId });
+    };
+
+    const endMeetingForAll = () => {
+        if (window.confirm('End the meeting for everyone?')) {
+            socket?.emit('end-meeting', { meetingId });
+        }
+    };
+
+    const acceptMuteRequest = () => {
+        if (audioEnabled) {
+            toggleAudio();
+        }
+        setMuteRequested(false);
+    };
+
+    const stopScreenShare = useCallback(() => {
+        const screenStream = screenStreamRef.current;
+        if (!screenStream) return;
+
+        // Removing the senders renegotiates each connection without the screen
+        screenSendersRef.current.forEach((sender, pc) => {
+            if (pc.signalingState !== 'closed') {
+                pc.removeTrack(sender);
+            }
+        });
+        screenSendersRef.current.clear();
+
+        screenStream.getTracks().forEach(track => track.stop());
+        screenStreamRef.current = null;
+        setScreenSharing(false);
+        console.log('🖥️ Screen sharing stopped');
+    }, []);
+
+    const startScreenShare = async () => {
+        try {
+            const screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true });
+            const screenTrack = screenStream.getVideoTracks()[0];
+            if (!screenTrack) return;
+
+            screenStreamRef.current = screenStream;
+
+            // Adding a second video sender triggers renegotiation with every peer
+            peersRef.current.forEach(pc => {
+                const sender = pc.addTrack(screenTrack, screenStream);
+                if (e2ee) protectSender(pc, sender, e2ee);
+                screenSendersRef.current.set(pc, sender);
+            });
+
+            // The browser's own "stop sharing" button ends the track
+            screenTrack.onended = stopScreenShare;
+
+            setScreenSharing(true);
+            console.log('🖥️ Screen sharing started');
+        } catch (err) {
+            // Cancelling the picker rejects, which is not an error worth surfacing
+            console.log('🖥️ Screen sharing not started:', err);
+        }
+    };
+
+    const toggleScreenShare = () => {
+        if (screenSharing) {
+            stopScreenShare();
+        } else {
+            startScreenShare();
+        }
+    };
+
+    // Stop presenting when leaving the room
+    useEffect(() => {
+        return () => stopScreenShare();
+    }, [stopScreenShare]);
+
+    const sendChatMessage = (text: string) => {
+        socket?.emit('chat-message', { meetingId, text });
+    };
+
     const handleOverlaySelect = (overlay: Overlay) => {
         console.log('🎭 Switching to overlay:', overlay.title);
         setSelectedOverlayUrl(overlay.url);
@@ -697,6 +1452,57 @@ export const Room = ({
         console.log('🎨 Opacity changed to:', newOpacity);
     };
 
+    const nameOf = (peerId: string) =>
+        roster.find(entry => entry.socketId === peerId)?.name ?? 'Participant';
+
+    // Camera tile for one remote peer, with host controls when we own the meeting
+    const renderRemoteTile = (peerId: string, stream: MediaStream | null) => {
+        const entry = roster.find(e => e.socketId === peerId);
+        const label = entry?.name ?? 'Participant';
+
+        return (
+            <RemoteTile
+                key={peerId}
+                peerId={peerId}
+                stream={stream}
+                label={reconnectingPeers.has(peerId) ? `${label} (reconnecting...)` : label}
+                audioEnabled={entry?.audioEnabled ?? true}
+                videoEnabled={entry?.videoEnabled ?? true}
+                onCanvasChange={registerRemoteCanvas}
+                actions={meetingInfo?.isHost && (
+                    <>
+                        <button
+                            onClick={() => requestMute(peerId)}
+                            title="Ask to mute"
+                            className="p-1.5 bg-black/60 hover:bg-black/80 rounded"
+                        >
+                            <MicOff size={14} className="text-white" />
+                        </button>
+                        <button
+                            onClick={() => removeParticipant(peerId)}
+                            title="Remove from meeting"
+                            className="p-1.5 bg-red-600/80 hover:bg-red-700 rounded"
+                        >
+                            <UserX size={14} className="text-white" />
+                        </button>
+                    </>
+                )}
+            />
+        );
+    };
+
+    // Our overall connection is only as good as the worst peer link
+    const networkQuality = worstQuality([...peerStats.values()].map(p => p.quality));
+    const NetworkQualityIcon = networkQuality === 'good' ? Signal : networkQuality === 'fair' ? SignalMedium : SignalLow;
+    const networkQualityClass = networkQuality === 'good' ? 'text-green-400' : networkQuality === 'fair' ? 'text-yellow-400' : 'text-red-400';
+
+    const recordingNames = roster
+        .filter(entry => entry.recording)
+        .map(entry => ownSocketIds.has(entry.socketId) ? 'You' : entry.name);
+
+    // The first remote screen being presented takes over the stage
+    const presenter = [...remoteScreens.entries()][0];
+
     if (error) {
         return (
             <PageBackground>
@@ -710,13 +1516,50 @@ export const Room = ({
         );
     }
 
+    if (endedMessage) {
+        return (
+            <PageBackground>
+                <div className="flex items-center justify-center min-h-screen">
+                    <div className="bg-slate-800/80 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 max-w-md w-full">
+                        <h2 className="text-2xl font-semibold text-white mb-4">Meeting over</h2>
+                        <p className="text-slate-300">{endedMessage}</p>
+                        <button
+                            onClick={() => navigate('/landing')}
+                            className="mt-6 w-full py-3 rounded-lg font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+                        >
+                            Back to Home
+                        </button>
+                    </div>
+                </div>
+            </PageBackground>
+        );
+    }
+
     if (lobby) {
         return (
             <PageBackground>
                 <div className="h-screen flex items-center justify-center overflow-hidden">
                     <div className="bg-slate-800/80 backdrop-blur-sm border border-slate-700 rounded-2xl p-8 max-w-md w-full">
-                        <h2 className="text-2xl font-semibold text-white mb-4">Waiting for other participant...</h2>
+                        <h2 className="text-2xl font-semibold text-white mb-4">
+                            {awaitingAdmission ? 'Waiting for the host to let you in...' : 'Waiting for other participant...'}
+                        </h2>
+                        {e2ee && (
+                            <div className="mb-4 flex">
+                                <E2eeBadge verificationCode={e2ee.verificationCode} />
+                            </div>
+                        )}
+                        {serverRestarting && (
+                            <p className="mb-4 rounded-lg bg-yellow-600/90 px-4 py-2 text-white text-sm">
+                                The server is restarting, you will rejoin automatically...
+                            </p>
+                        )}
                         <div className="space-y-3 text-slate-300">
+                            {meetingInfo && (
+                                <>
+                                    <p><span className="font-medium">Meeting:</span> {meetingInfo.title}</p>
+                                    <p><span className="font-medium">Host:</span> {meetingInfo.hostName}</p>
+                                </>
+                            )}
                             <p><span className="font-medium">Your name:</span> {name}</p>
                             <p><span className="font-medium">Meeting ID:</span> {meetingId}</p>
                             <p className="text-sm text-slate-400">Share this link with the person you want to meet</p>
@@ -731,6 +1574,15 @@ export const Room = ({
                         >
                             {copied ? '✓ Copied!' : 'Copy Meeting Link'}
                         </button>
+                        {meetingInfo?.isHost && waitingParticipants.length > 0 && (
+                            <div className="mt-6">
+                                <WaitingRoomPanel
+                                    waiting={waitingParticipants}
+                                    onAdmit={admitParticipant}
+                                    onDeny={denyParticipant}
+                                />
+                            </div>
+                        )}
                     </div>
                 </div>
             </PageBackground>
@@ -739,63 +1591,164 @@ export const Room = ({
 
     return (
         <div className="h-screen flex flex-col overflow-hidden bg-black">
-            <div className="flex-1 relative overflow-hidden">
-                <div className="w-full h-full relative">
-                    <video 
-                        ref={remoteVideoRef}
-                        autoPlay
-                        playsInline
-                        className="w-full h-full object-contain"
-                    />
-                    <canvas
-                        ref={remoteCanvasRef}
-                        width={640}
-                        height={480}
-                        className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none"
-                        style={{ width: 'auto', height: '100%', maxWidth: '100%' }}
-                    />
-                    
-                    <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded">
-                        <p className="text-white text-sm font-medium">Guest User</p>
-                    </div>
-                </div>
+            <div className="flex-1 flex overflow-hidden">
+                <div className="flex-1 relative overflow-hidden">
+                    {presenter ? (
+                        <div className="w-full h-full flex flex-col gap-1">
+                            <div className="flex-1 min-h-0">
+                                <ScreenTile stream={presenter[1]} label={`${nameOf(presenter[0])} is presenting`} />
+                            </div>
+                            <div className="h-32 flex gap-1 flex-shrink-0 overflow-x-auto">
+                                {[...remoteStreams.entries()].map(([peerId, stream]) => (
+                                    <div key={peerId} className="w-48 h-full flex-shrink-0">
+                                        {renderRemoteTile(peerId, stream)}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ) : (
+                        <div className={`w-full h-full grid gap-1 ${gridColumnsClass(remoteStreams.size)}`}>
+                            {[...remoteStreams.entries()].map(([peerId, stream]) => renderRemoteTile(peerId, stream))}
+                        </div>
+                    )}
+
+                    {meetingInfo?.isHost && (
+                        <div className="absolute top-4 left-4 z-20">
+                            <WaitingRoomPanel
+                                waiting={waitingParticipants}
+                                onAdmit={admitParticipant}
+                                onDeny={denyParticipant}
+                            />
+                        </div>
+                    )}
+
+                    {recordingNames.length > 0 && (
+                        <div className="absolute top-4 right-4 z-20 bg-red-600/90 rounded-lg shadow-xl px-3 py-1.5 flex items-center gap-2">
+                            <Circle size={10} className="text-white fill-white animate-pulse" />
+                            <p className="text-white text-xs font-medium">
+                                Recording: {recordingNames.join(', ')}
+                            </p>
+                        </div>
+                    )}
+
+                    {finishedRecording && (
+                        <div className="absolute bottom-48 right-4 z-20">
+                            <RecordingPanel
+                                durationSeconds={finishedRecording.durationSeconds}
+                                onDownload={() => downloadRecording(finishedRecording.blob, meetingId)}
+                                onUpload={() => uploadRecording(
+                                    finishedRecording.blob,
+                                    meetingId,
+                                    name,
+                                    finishedRecording.durationSeconds
+                                )}
+                                onDiscard={() => setFinishedRecording(null)}
+                            />
+                        </div>
+                    )}
+
+                    {statsOpen && (
+                        <div className="absolute bottom-4 left-4 z-20">
+                            <CallStatsPanel
+                                stats={peerStats}
+                                nameOf={nameOf}
+                                onClose={() => setStatsOpen(false)}
+                            />
+                        </div>
+                    )}
+
+                    {(socketReconnecting || serverRestarting) && (
+                        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 bg-yellow-600/90 rounded-lg shadow-xl px-4 py-2">
+                            <p className="text-white text-xs font-medium">
+                                {serverRestarting
+                                    ? 'The server is restarting, you will rejoin automatically...'
+                                    : 'Connection lost, reconnecting...'}
+                            </p>
+                        </div>
+                    )}
 
-                <div className="absolute bottom-16 right-4 z-10">
-                    <div className="relative w-56 h-40 bg-black rounded-lg overflow-hidden border-2 border-gray-700 shadow-xl">
-                        <video 
-                            ref={localVideoRef}
-                            autoPlay
-                            playsInline
-                            muted
-                            className="w-full h-full object-cover"
-                        />
-                        <canvas
-                            ref={localCanvasRef}
-                            width={640}
-                            height={480}
-                            className="absolute top-0 left-0 w-full h-full pointer-events-none"
-                        />
-                        {!videoEnabled && (
-                            <div className="absolute top-0 left-0 w-full h-full bg-gray-900 flex items-center justify-center">
-                                <div className="text-center">
-                                    <div className="w-12 h-12 bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-1">
-                                        <User size={24} className="text-gray-400" />
+                    {muteRequested && (
+                        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-gray-800 border border-gray-700 rounded-lg shadow-xl px-4 py-2 flex items-center gap-3">
+                            <p className="text-white text-xs">The host has asked you to mute</p>
+                            <button
+                                onClick={acceptMuteRequest}
+                                className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-white text-xs"
+                            >
+                                Mute
+                            </button>
+                            <button
+                                onClick={() => setMuteRequested(false)}
+                                className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white text-xs"
+                            >
+                                Dismiss
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="absolute bottom-16 right-4 z-10">
+                        <div className="relative w-56 h-40 bg-black rounded-lg overflow-hidden border-2 border-gray-700 shadow-xl">
+                            <video 
+                                ref={localVideoRef}
+                                autoPlay
+                                playsInline
+                                muted
+                                className="w-full h-full object-cover"
+                            />
+                            <canvas
+                                ref={localCanvasRef}
+                                width={640}
+                                height={480}
+                                className="absolute top-0 left-0 w-full h-full pointer-events-none"
+                            />
+                            {!videoEnabled && (
+                                <div className="absolute top-0 left-0 w-full h-full bg-gray-900 flex items-center justify-center">
+                                    <div className="text-center">
+                                        <div className="w-12 h-12 bg-gray-700 rounded-full flex items-center justify-center mx-auto mb-1">
+                                            <User size={24} className="text-gray-400" />
+                                        </div>
+                                        <p className="text-white text-xs">{name}</p>
                                     </div>
-                                    <p className="text-white text-xs">{name}</p>
                                 </div>
+                            )}
+                            <div className="absolute bottom-1 left-1 bg-black/70 px-2 py-0.5 rounded">
+                                <p className="text-white text-[10px] font-medium">You</p>
                             </div>
-                        )}
-                        <div className="absolute bottom-1 left-1 bg-black/70 px-2 py-0.5 rounded">
-                            <p className="text-white text-[10px] font-medium">You</p>
                         </div>
                     </div>
                 </div>
+
+                {rosterOpen && (
+                    <ParticipantList
+                        participants={roster}
+                        selfIds={ownSocketIds}
+                        onClose={() => setRosterOpen(false)}
+                    />
+                )}
+
+                {chatOpen && (
+                    <ChatPanel
+                        messages={chatMessages}
+                        selfIds={ownSocketIds}
+                        onSend={sendChatMessage}
+                        onClose={() => setChatOpen(false)}
+                    />
+                )}
             </div>
 
             <div className="bg-gray-900 border-t border-gray-800 px-4 py-2 flex-shrink-0">
                 <div className="flex items-center justify-between">
-                    <div className="flex items-center min-w-[150px]">
-                        <p className="text-white text-xs font-medium">ID: {meetingId.slice(0, 8)}</p>
+                    <div className="flex items-center gap-2 min-w-[150px]">
+                        <button
+                            onClick={() => setStatsOpen(!statsOpen)}
+                            title={peerStats.size > 0 ? `Connection: ${networkQuality}` : 'Connection stats'}
+                            className="p-1 rounded hover:bg-gray-800"
+                        >
+                            <NetworkQualityIcon size={16} className={peerStats.size > 0 ? networkQualityClass : 'text-gray-500'} />
+                        </button>
+                        <p className="text-white text-xs font-medium">
+                            {meetingInfo ? meetingInfo.title : `ID: ${meetingId.slice(0, 8)}`}
+                        </p>
+                        {e2ee && <E2eeBadge verificationCode={e2ee.verificationCode} />}
                     </div>
 
                     <div className="flex items-center gap-2">
@@ -863,6 +1816,19 @@ export const Room = ({
                                         )}
                                     </button>
                                     
+                                    <button
+                                        onClick={() => {
+                                            setMaskedSendEnabled(!maskedSendEnabled);
+                                            setShowOverlayMenu(false);
+                                        }}
+                                        className="w-full px-3 py-2 text-left text-white hover:bg-gray-700 transition-colors flex items-center justify-between border-t border-gray-700"
+                                    >
+                                        <span className="text-xs">Masked send</span>
+                                        {maskedSendEnabled && (
+                                            <span className="text-green-400 text-xs">✓</span>
+                                        )}
+                                    </button>
+
                                     {localOverlayEnabled && (
                                         <div className="px-3 py-2 border-t border-gray-700">
                                             <div className="flex items-center justify-between mb-1">
@@ -882,6 +1848,18 @@ export const Room = ({
                                                     background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${localOverlayOpacity * 100}%, #374151 ${localOverlayOpacity * 100}%, #374151 100%)`
                                                 }}
                                             />
+                                            <div className="flex items-center justify-between mt-2">
+                                                <span className="text-xs text-white">Blend</span>
+                                                <select
+                                                    value={localBlendMode}
+                                                    onChange={(e) => setLocalBlendMode(e.target.value as BlendMode)}
+                                                    className="bg-gray-700 text-white text-xs rounded px-1 py-0.5 capitalize"
+                                                >
+                                                    {BLEND_MODES.map(mode => (
+                                                        <option key={mode} value={mode}>{mode}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
                                         </div>
                                     )}
                                     
@@ -900,19 +1878,105 @@ export const Room = ({
                             )}
                         </div>
 
-                        <button className="flex flex-col items-center justify-center w-12 h-12 bg-gray-700 hover:bg-gray-600 rounded-lg transition-all">
-                            <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-                            </svg>
-                            <span className="text-white text-[9px] mt-0.5">Share</span>
+                        <button
+                            onClick={toggleScreenShare}
+                            className={`flex flex-col items-center justify-center w-12 h-12 rounded-lg transition-all ${
+                                screenSharing
+                                    ? 'bg-blue-600 hover:bg-blue-700'
+                                    : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                        >
+                            <MonitorUp size={16} className="text-white" />
+                            <span className="text-white text-[9px] mt-0.5">
+                                {screenSharing ? 'Stop' : 'Share'}
+                            </span>
+                        </button>
+
+                        <button
+                            onClick={toggleRecording}
+                            title={recording ? 'Stop recording' : 'Record this meeting; everyone will be notified'}
+                            className={`flex flex-col items-center justify-center w-12 h-12 rounded-lg transition-all ${
+                                recording
+                                    ? 'bg-red-600 hover:bg-red-700'
+                                    : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                        >
+                            <Circle size={16} className={recording ? 'text-white fill-white' : 'text-white'} />
+                            <span className="text-white text-[9px] mt-0.5">
+                                {recording ? 'Stop' : 'Record'}
+                            </span>
+                        </button>
+
+                        <button
+                            onClick={() => {
+                                setChatOpen(!chatOpen);
+                                setRosterOpen(false);
+                            }}
+                            className={`relative flex flex-col items-center justify-center w-12 h-12 rounded-lg transition-all ${
+                                chatOpen
+                                    ? 'bg-blue-600 hover:bg-blue-700'
+                                    : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                        >
+                            <MessageSquare size={16} className="text-white" />
+                            <span className="text-white text-[9px] mt-0.5">Chat</span>
+                            {unreadCount > 0 && (
+                                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 bg-red-600 rounded-full text-white text-[9px] flex items-center justify-center">
+                                    {unreadCount > 99 ? '99+' : unreadCount}
+                                </span>
+                            )}
+                        </button>
+
+                        <button
+                            onClick={() => {
+                                setRosterOpen(!rosterOpen);
+                                setChatOpen(false);
+                            }}
+                            className={`flex flex-col items-center justify-center w-12 h-12 rounded-lg transition-all ${
+                                rosterOpen
+                                    ? 'bg-blue-600 hover:bg-blue-700'
+                                    : 'bg-gray-700 hover:bg-gray-600'
+                            }`}
+                        >
+                            <Users size={16} className="text-white" />
+                            <span className="text-white text-[9px] mt-0.5">People</span>
                         </button>
 
+                        {meetingInfo?.isHost && (
+                            <button
+                                onClick={toggleMeetingLock}
+                                className={`flex flex-col items-center justify-center w-12 h-12 rounded-lg transition-all ${
+                                    meetingLocked
+                                        ? 'bg-yellow-600 hover:bg-yellow-700'
+                                        : 'bg-gray-700 hover:bg-gray-600'
+                                }`}
+                            >
+                                {meetingLocked ? (
+                                    <Lock size={16} className="text-white" />
+                                ) : (
+                                    <LockOpen size={16} className="text-white" />
+                                )}
+                                <span className="text-white text-[9px] mt-0.5">
+                                    {meetingLocked ? 'Unlock' : 'Lock'}
+                                </span>
+                            </button>
+                        )}
+
                         <button 
                             onClick={() => navigate('/landing')}
                             className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-all ml-1"
                         >
                             <span className="text-white text-xs font-medium">Leave</span>
                         </button>
+
+                        {meetingInfo?.isHost && (
+                            <button
+                                onClick={endMeetingForAll}
+                                className="px-4 py-2 bg-red-800 hover:bg-red-900 rounded-lg transition-all"
+                            >
+                                <span className="text-white text-xs font-medium">End for All</span>
+                            </button>
+                        )}
                     </div>
 
                     <div className="flex items-center min-w-[150px] justify-end">
@@ -0,0 +1,35 @@
+import { useEffect, useRef } from 'react';
+
+interface ScreenTileProps {
+  stream: MediaStream;
+  label: string;
+}
+
+/**
+ * Primary tile for a screen a participant is presenting.
+ */
+export default function ScreenTile({ stream, label }: ScreenTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  return (
+    <div className="relative w-full h-full bg-black overflow-hidden">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className="w-full h-full object-contain"
+      />
+
+      <div className="absolute top-4 left-4 bg-black/60 backdrop-blur-sm px-3 py-1.5 rounded">
+        <p className="text-white text-sm font-medium">{label}</p>
+      </div>
+    </div>
+  );
+}
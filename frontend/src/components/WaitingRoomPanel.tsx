@@ -0,0 +1,53 @@
+import type { WaitingParticipant } from '../types/meetingType';
+
+interface WaitingRoomPanelProps {
+  waiting: WaitingParticipant[];
+  onAdmit: (socketId: string) => void;
+  onDeny: (socketId: string) => void;
+}
+
+/**
+ * Host-only list of joiners held in the waiting room, with admit/deny
+ * buttons for each.
+ */
+export default function WaitingRoomPanel({
+  waiting,
+  onAdmit,
+  onDeny,
+}: WaitingRoomPanelProps) {
+  if (waiting.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 w-64">
+      <p className="text-white text-xs font-semibold mb-2">
+        Waiting to join ({waiting.length})
+      </p>
+      <ul className="space-y-2">
+        {waiting.map((participant) => (
+          <li
+            key={participant.socketId}
+            className="flex items-center justify-between gap-2"
+          >
+            <span className="text-slate-200 text-xs truncate">
+              {participant.name}
+            </span>
+            <div className="flex gap-1 flex-shrink-0">
+              <button
+                onClick={() => onAdmit(participant.socketId)}
+                className="px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-white text-[10px]"
+              >
+                Admit
+              </button>
+              <button
+                onClick={() => onDeny(participant.socketId)}
+                className="px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded text-white text-[10px]"
+              >
+                Deny
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import type { CallStatsSample, NetworkQuality, PeerStats } from '../types/callStatsType';
+import { getBearerToken } from './socketAuth';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+
+// Cumulative counters from the previous poll, used to turn totals into rates
+export type StatsSnapshot = {
+    timestamp: number;
+    bytesReceived: number;
+    bytesSent: number;
+    packetsReceived: number;
+    packetsLost: number;
+};
+
+// Firefox marks the active pair itself instead of naming it on the transport
+type CandidatePairStats = RTCIceCandidatePairStats & { selected?: boolean };
+
+const QUALITY_RANK: Record<NetworkQuality, number> = { good: 0, fair: 1, poor: 2 };
+
+// Same limit the backend enforces per request
+const MAX_SAMPLES_PER_POST = 50;
+
+/**
+ * Rates a connection from its loss and round-trip time; either one being
+ * bad is enough to drag the rating down.
+ */
+export function qualityOf(packetLossPct: number | null, rttMs: number | null): NetworkQuality {
+    const loss = packetLossPct ?? 0;
+    const rtt = rttMs ?? 0;
+
+    if (loss > 5 || rtt > 400) return 'poor';
+    if (loss > 2 || rtt > 200) return 'fair';
+    return 'good';
+}
+
+// The worst rating among the given connections; good when there are none
+export function worstQuality(qualities: Iterable<NetworkQuality>): NetworkQuality {
+    let worst: NetworkQuality = 'good';
+    for (const quality of qualities) {
+        if (QUALITY_RANK[quality] > QUALITY_RANK[worst]) worst = quality;
+    }
+    return worst;
+}
+
+/**
+ * Reads RTT, loss, jitter, bitrate, frame rate and the candidate type from
+ * the connection's stats report. Rates are computed against the previous
+ * snapshot, so the first poll of a connection only reports RTT and jitter.
+ */
+export async function collectPeerStats(
+    pc: RTCPeerConnection,
+    previous: StatsSnapshot | undefined
+): Promise<{ stats: PeerStats; snapshot: StatsSnapshot }> {
+    const report = await pc.getStats();
+
+    const snapshot: StatsSnapshot = {
+        timestamp: performance.now(),
+        bytesReceived: 0,
+        bytesSent: 0,
+        packetsReceived: 0,
+        packetsLost: 0,
+    };
+    let jitterMs: number | null = null;
+    let frameRate: number | null = null;
+    let selectedPairId: string | undefined;
+    const pairs: CandidatePairStats[] = [];
+
+    report.forEach((stat) => {
+        switch (stat.type) {
+            case 'inbound-rtp':
+                snapshot.bytesReceived += stat.bytesReceived ?? 0;
+                snapshot.packetsReceived += stat.packetsReceived ?? 0;
+                snapshot.packetsLost += stat.packetsLost ?? 0;
+                if (typeof stat.jitter === 'number') {
+                    jitterMs = Math.max(jitterMs ?? 0, stat.jitter * 1000);
+                }
+                if (stat.kind === 'video' && typeof stat.framesPerSecond === 'number') {
+                    frameRate = Math.max(frameRate ?? 0, stat.framesPerSecond);
+                }
+                break;
+            case 'outbound-rtp':
+                snapshot.bytesSent += stat.bytesSent ?? 0;
+                break;
+            case 'transport':
+                selectedPairId ??= stat.selectedCandidatePairId;
+                break;
+            case 'candidate-pair':
+                pairs.push(stat);
+                break;
+        }
+    });
+
+    const pair =
+        pairs.find(p => p.id === selectedPairId) ??
+        pairs.find(p => p.selected) ??
+        pairs.find(p => p.nominated && p.state === 'succeeded');
+
+    const rttMs = typeof pair?.currentRoundTripTime === 'number'
+        ? pair.currentRoundTripTime * 1000
+        : null;
+
+    let candidateType: PeerStats['candidateType'] = null;
+    if (pair) {
+        const local = report.get(pair.localCandidateId);
+        const remote = report.get(pair.remoteCandidateId);
+        candidateType = local?.candidateType === 'relay' || remote?.candidateType === 'relay'
+            ? 'relay'
+            : 'direct';
+    }
+
+    let inboundKbps: number | null = null;
+    let outboundKbps: number | null = null;
+    let packetLossPct: number | null = null;
+
+    if (previous) {
+        const elapsedMs = snapshot.timestamp - previous.timestamp;
+        if (elapsedMs > 0) {
+            // bits per millisecond is kilobits per second
+            inboundKbps = Math.max(0, (snapshot.bytesReceived - previous.bytesReceived) * 8 / elapsedMs);
+            outboundKbps = Math.max(0, (snapshot.bytesSent - previous.bytesSent) * 8 / elapsedMs);
+        }
+
+        const lost = snapshot.packetsLost - previous.packetsLost;
+        const received = snapshot.packetsReceived - previous.packetsReceived;
+        if (lost + received > 0) {
+            packetLossPct = Math.max(0, lost / (lost + received) * 100);
+        }
+    }
+
+    return {
+        stats: {
+            rttMs,
+            packetLossPct,
+            jitterMs,
+            inboundKbps,
+            outboundKbps,
+            frameRate,
+            candidateType,
+            quality: qualityOf(packetLossPct, rttMs),
+        },
+        snapshot,
+    };
+}
+
+const average = (values: (number | null)[]) => {
+    const present = values.filter((value): value is number => value !== null);
+    if (present.length === 0) return null;
+
+    const mean = present.reduce((sum, value) => sum + value, 0) / present.length;
+    return Math.round(mean * 100) / 100;
+};
+
+/**
+ * Folds the polls collected for one peer since the last upload into a single
+ * sample: metrics are averaged and the worst quality seen is kept.
+ */
+export function aggregatePeerStats(peerId: string, polls: PeerStats[]): CallStatsSample {
+    const last = polls[polls.length - 1];
+
+    return {
+        peerId,
+        sampledAt: new Date().toISOString(),
+        rttMs: average(polls.map(p => p.rttMs)),
+        packetLossPct: average(polls.map(p => p.packetLossPct)),
+        jitterMs: average(polls.map(p => p.jitterMs)),
+        inboundKbps: average(polls.map(p => p.inboundKbps)),
+        outboundKbps: average(polls.map(p => p.outboundKbps)),
+        frameRate: average(polls.map(p => p.frameRate)),
+        candidateType: last?.candidateType ?? null,
+        quality: worstQuality(polls.map(p => p.quality)),
+    };
+}
+
+/**
+ * Stores aggregated samples with the backend for later review. Failures are
+ * only logged; telemetry never interrupts the call.
+ */
+export async function postCallStats(
+    meetingId: string,
+    name: string,
+    samples: CallStatsSample[]
+): Promise<void> {
+    if (samples.length === 0) return;
+
+    try {
+        const bearer = await getBearerToken(meetingId, name);
+        const response = await fetch(`${API_URL}/api/call-stats`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(bearer ? { Authorization: `Bearer ${bearer}` } : {}),
+            },
+            body: JSON.stringify({
+                meeting_code: meetingId,
+                samples: samples.slice(0, MAX_SAMPLES_PER_POST),
+            }),
+            // Lets the last upload finish while the page is closing
+            keepalive: true,
+        });
+
+        if (!response.ok) {
+            throw new Error(`Call stats request failed with ${response.status}`);
+        }
+    } catch (err) {
+        console.error('Error posting call stats:', err);
+    }
+}
@@ -0,0 +1,277 @@
+import { ENCRYPTED_FRAME_IV_BYTES, ENCRYPTED_FRAME_VERSION } from '@shared/landmarkCodec';
+
+// End-to-end encryption for call media and overlay landmarks. The secret lives
+// in the meeting link's URL fragment (#e2ee=...), which browsers never send to
+// a server, so only people holding the link can derive the key.
+
+// Everything both sides need once the secret has been read from the link
+export type E2eeSession = {
+    // AES-GCM key for media frames and landmark messages
+    key: CryptoKey;
+    // Short code derived from the secret; matching codes mean matching keys
+    verificationCode: string;
+};
+
+export type FrameOperation = 'encrypt' | 'decrypt';
+
+// The parts of RTCEncodedVideoFrame / RTCEncodedAudioFrame the transform uses
+type EncodedFrame = {
+    data: ArrayBuffer;
+    type?: 'key' | 'delta' | 'empty';
+};
+
+type TransformOptions = {
+    operation: FrameOperation;
+    kind: 'audio' | 'video';
+    key: CryptoKey;
+};
+
+// Encoded transform APIs the DOM typings do not cover yet
+type ScriptTransformConstructor = new (worker: Worker, options: TransformOptions) => unknown;
+type EncodedStreams = { readable: ReadableStream<EncodedFrame>; writable: WritableStream<EncodedFrame> };
+type TransformableEndpoint = {
+    transform?: unknown;
+    createEncodedStreams?: () => EncodedStreams;
+};
+
+const FRAGMENT_PARAM = 'e2ee';
+const SECRET_BYTES = 32;
+
+// Codec headers left in the clear so the packetizer can still split frames:
+// VP8 key frames carry a 10 byte header, delta frames 3, and Opus a TOC byte.
+// These sizes only hold for VP8, so encrypted video is pinned to it (pinVp8).
+const CLEAR_BYTES = { key: 10, delta: 3, audio: 1 };
+const E2EE_VIDEO_CODEC = 'video/vp8';
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+    Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+/**
+ * Reads the meeting secret from a URL fragment such as `#e2ee=...`,
+ * returning null when the link is not end-to-end encrypted.
+ */
+export function readE2eeSecret(hash: string = window.location.hash): string | null {
+    const secret = new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_PARAM);
+    return secret && /^[A-Za-z0-9_-]{43}$/.test(secret) ? secret : null;
+}
+
+// A fresh random secret, already in its URL-safe form
+export function createE2eeSecret(): string {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+// Fragment to append to the meeting link so joiners get the secret
+export const e2eeFragment = (secret: string) => `#${FRAGMENT_PARAM}=${secret}`;
+
+// Encoded transforms run in a worker where supported, or through
+// createEncodedStreams on the main thread in older Chromium builds
+export function isE2eeSupported(): boolean {
+    return 'RTCRtpScriptTransform' in window ||
+        (typeof RTCRtpSender !== 'undefined' && 'createEncodedStreams' in RTCRtpSender.prototype);
+}
+
+/**
+ * Derives the media key and verification code from the link secret. The
+ * meeting code is mixed in, so a secret pasted onto another meeting gives
+ * a different key.
+ */
+export async function deriveE2eeSession(secret: string, meetingId: string): Promise<E2eeSession> {
+    const material = await crypto.subtle.importKey('raw', fromBase64Url(secret), 'HKDF', false, ['deriveKey', 'deriveBits']);
+    const salt = encoder.encode(meetingId);
+
+    const key = await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('media-key') },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+
+    const bits = new Uint16Array(await crypto.subtle.deriveBits(
+        { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode('verification-code') },
+        material,
+        48,
+    ));
+    const verificationCode = [...bits].map(n => String(n % 10000).padStart(4, '0')).join(' ');
+
+    return { key, verificationCode };
+}
+
+/**
+ * Encrypts one encoded media frame, keeping the first `clearBytes` readable
+ * (and authenticated). Output is header, ciphertext with tag, then the IV.
+ */
+export async function encryptFrame(key: CryptoKey, data: ArrayBuffer, clearBytes: number): Promise<ArrayBuffer> {
+    const clear = Math.min(clearBytes, data.byteLength);
+    const header = new Uint8Array(data, 0, clear);
+    const iv = crypto.getRandomValues(new Uint8Array(ENCRYPTED_FRAME_IV_BYTES));
+
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: header },
+        key,
+        new Uint8Array(data, clear),
+    ));
+
+    const output = new Uint8Array(clear + ciphertext.byteLength + iv.byteLength);
+    output.set(header, 0);
+    output.set(ciphertext, clear);
+    output.set(iv, clear + ciphertext.byteLength);
+    return output.buffer;
+}
+
+// Reverses encryptFrame; throws if the frame was not sealed with this key
+export async function decryptFrame(key: CryptoKey, data: ArrayBuffer, clearBytes: number): Promise<ArrayBuffer> {
+    const clear = Math.min(clearBytes, data.byteLength);
+    const ivStart = data.byteLength - ENCRYPTED_FRAME_IV_BYTES;
+    if (ivStart < clear) {
+        throw new Error('Encrypted frame is too short');
+    }
+
+    const header = new Uint8Array(data, 0, clear);
+    const plaintext = new Uint8Array(await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(data, ivStart), additionalData: header },
+        key,
+        new Uint8Array(data, clear, ivStart - clear),
+    ));
+
+    const output = new Uint8Array(clear + plaintext.byteLength);
+    output.set(header, 0);
+    output.set(plaintext, clear);
+    return output.buffer;
+}
+
+const clearBytesFor = (kind: 'audio' | 'video', frame: EncodedFrame) => {
+    if (kind === 'audio') return CLEAR_BYTES.audio;
+    return frame.type === 'key' ? CLEAR_BYTES.key : CLEAR_BYTES.delta;
+};
+
+/**
+ * Stream transform that encrypts or decrypts every frame passing through a
+ * sender or receiver. Frames that fail to decrypt (a different key, or a
+ * peer without encryption) are dropped rather than handed to the decoder.
+ */
+export function createFrameTransform({ operation, kind, key }: TransformOptions): TransformStream<EncodedFrame, EncodedFrame> {
+    return new TransformStream({
+        async transform(frame, controller) {
+            if (frame.data.byteLength === 0) {
+                controller.enqueue(frame);
+                return;
+            }
+
+            try {
+                const clearBytes = clearBytesFor(kind, frame);
+                frame.data = operation === 'encrypt'
+                    ? await encryptFrame(key, frame.data, clearBytes)
+                    : await decryptFrame(key, frame.data, clearBytes);
+                controller.enqueue(frame);
+            } catch {
+                // Undecryptable frame: drop it
+            }
+        },
+    });
+}
+
+let transformWorker: Worker | null = null;
+
+// One worker runs the transforms for every sender and receiver
+const getTransformWorker = () => {
+    transformWorker ??= new Worker(new URL('./e2eeWorker.ts', import.meta.url), { type: 'module', name: 'e2ee' });
+    return transformWorker;
+};
+
+// Extra peer connection settings Chromium needs before createEncodedStreams works
+export function e2eePeerConfig(): RTCConfiguration {
+    return 'RTCRtpScriptTransform' in window ? {} : { encodedInsertableStreams: true } as RTCConfiguration;
+}
+
+// Transceivers are reused on renegotiation and track swaps, and a second
+// createEncodedStreams call on the same sender or receiver throws
+const protectedEndpoints = new WeakSet<RTCRtpSender | RTCRtpReceiver>();
+
+const attachTransform = (endpoint: RTCRtpSender | RTCRtpReceiver, kind: string | undefined, options: Omit<TransformOptions, 'kind'>) => {
+    if (protectedEndpoints.has(endpoint)) {
+        return;
+    }
+    protectedEndpoints.add(endpoint);
+
+    const transformOptions: TransformOptions = { ...options, kind: kind === 'audio' ? 'audio' : 'video' };
+    const target = endpoint as unknown as TransformableEndpoint;
+
+    const ScriptTransform = (window as unknown as { RTCRtpScriptTransform?: ScriptTransformConstructor }).RTCRtpScriptTransform;
+    if (ScriptTransform) {
+        target.transform = new ScriptTransform(getTransformWorker(), transformOptions);
+        return;
+    }
+
+    if (target.createEncodedStreams) {
+        const { readable, writable } = target.createEncodedStreams();
+        readable.pipeThrough(createFrameTransform(transformOptions)).pipeTo(writable).catch((err) => {
+            console.error('❌ Encrypted media stream stopped:', err);
+        });
+    }
+};
+
+// Limits a video transceiver to VP8, the codec the clear header sizes are for
+const pinVp8 = (transceiver: RTCRtpTransceiver) => {
+    const codecs = (RTCRtpReceiver.getCapabilities?.('video')?.codecs ?? [])
+        .filter(codec => codec.mimeType.toLowerCase() === E2EE_VIDEO_CODEC);
+
+    if (codecs.length === 0 || !transceiver.setCodecPreferences) {
+        console.warn('⚠️ Could not pin encrypted video to VP8; other codecs may not decode');
+        return;
+    }
+    transceiver.setCodecPreferences(codecs);
+};
+
+// Encrypts everything a sender transmits; call right after addTrack, before the
+// offer. Calling it again for a reused sender does nothing.
+export function protectSender(pc: RTCPeerConnection, sender: RTCRtpSender, session: E2eeSession) {
+    const transceiver = pc.getTransceivers().find(t => t.sender === sender);
+    if (transceiver && sender.track?.kind === 'video') {
+        pinVp8(transceiver);
+    }
+    attachTransform(sender, sender.track?.kind, { operation: 'encrypt', key: session.key });
+}
+
+// Decrypts everything a receiver gets; call from ontrack, which fires again for reused receivers
+export function protectReceiver(receiver: RTCRtpReceiver, session: E2eeSession) {
+    attachTransform(receiver, receiver.track.kind, { operation: 'decrypt', key: session.key });
+}
+
+/**
+ * Seals an encoded landmark frame for sending over the data channel or the
+ * server relay, in the envelope described in shared/landmarkCodec.ts.
+ */
+export async function encryptLandmarkFrame(key: CryptoKey, frame: ArrayBuffer): Promise<ArrayBuffer> {
+    const iv = crypto.getRandomValues(new Uint8Array(ENCRYPTED_FRAME_IV_BYTES));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, frame));
+
+    const output = new Uint8Array(1 + iv.byteLength + ciphertext.byteLength);
+    output[0] = ENCRYPTED_FRAME_VERSION;
+    output.set(iv, 1);
+    output.set(ciphertext, 1 + iv.byteLength);
+    return output.buffer;
+}
+
+// Opens a sealed landmark frame, returning null if it is not one or was tampered with
+export async function decryptLandmarkFrame(key: CryptoKey, data: ArrayBuffer): Promise<ArrayBuffer | null> {
+    const bytes = new Uint8Array(data);
+    if (bytes[0] !== ENCRYPTED_FRAME_VERSION || bytes.byteLength <= 1 + ENCRYPTED_FRAME_IV_BYTES) {
+        return null;
+    }
+
+    try {
+        return await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: bytes.subarray(1, 1 + ENCRYPTED_FRAME_IV_BYTES) },
+            key,
+            bytes.subarray(1 + ENCRYPTED_FRAME_IV_BYTES),
+        );
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,23 @@
+import { createFrameTransform, type FrameOperation } from './e2ee';
+
+// Worker side of RTCRtpScriptTransform: each sender or receiver given a
+// transform in e2ee.ts shows up here with its streams and options
+
+type RtcTransformEvent = {
+    transformer: {
+        readable: ReadableStream;
+        writable: WritableStream;
+        options: { operation: FrameOperation; kind: 'audio' | 'video'; key: CryptoKey };
+    };
+};
+
+const scope = self as unknown as { onrtctransform: ((event: RtcTransformEvent) => void) | null };
+
+scope.onrtctransform = ({ transformer }) => {
+    transformer.readable
+        .pipeThrough(createFrameTransform(transformer.options))
+        .pipeTo(transformer.writable)
+        .catch((err) => {
+            console.error('❌ Encrypted media stream stopped:', err);
+        });
+};
@@ -0,0 +1,123 @@
+import type { NormalizedLandmarkList } from '@mediapipe/face_mesh';
+import type { BlendMode } from '../types/overlayType';
+import { RENDER_LANDMARK_INDICES } from '@shared/landmarkCodec';
+
+// Face contour landmarks (from left ear, around jawline, to right ear)
+// These landmarks trace the actual outline of the face, and are the ones
+// the landmark codec sends to other participants
+export const FACE_OVAL_INDICES = RENDER_LANDMARK_INDICES;
+
+/**
+ * Traces the face contour as the context's current path, ready to clip or fill.
+ */
+export function traceFaceOval(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    landmarks: NormalizedLandmarkList
+) {
+    ctx.beginPath();
+
+    // Start the path at the first point
+    const firstPoint = landmarks[FACE_OVAL_INDICES[0]];
+    ctx.moveTo(firstPoint.x * width, firstPoint.y * height);
+
+    // Draw lines to each subsequent point to create face outline
+    for (let i = 1; i < FACE_OVAL_INDICES.length; i++) {
+        const point = landmarks[FACE_OVAL_INDICES[i]];
+        ctx.lineTo(point.x * width, point.y * height);
+    }
+
+    ctx.closePath();
+}
+
+/**
+ * Paints the overlay image clipped to the face contour onto an existing
+ * context without clearing it, so it can be layered over a video frame.
+ */
+export function paintFaceOverlay(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    landmarks: NormalizedLandmarkList,
+    overlayImage: HTMLImageElement,
+    opacity: number,
+    blendMode: BlendMode = 'normal'
+) {
+    // Create a path that follows the face contour
+    ctx.save();
+
+    // Set opacity and how the overlay mixes with the face underneath
+    ctx.globalAlpha = opacity;
+    ctx.globalCompositeOperation = blendMode === 'normal' ? 'source-over' : blendMode;
+
+    // Face-shaped clipping path
+    traceFaceOval(ctx, width, height, landmarks);
+
+    // Use this path as a clipping region
+    ctx.clip();
+
+    // Now calculate bounds for the overlay within this clipped region
+    const foreheadTop = landmarks[10];
+    const chinBottom = landmarks[152];
+    const leftCheek = landmarks[234];
+    const rightCheek = landmarks[454];
+
+    const faceWidth = Math.abs((rightCheek.x - leftCheek.x) * width);
+    const faceHeight = Math.abs((chinBottom.y - foreheadTop.y) * height);
+
+    const centerX = ((leftCheek.x + rightCheek.x) / 2) * width;
+    const centerY = ((foreheadTop.y + chinBottom.y) / 2) * height;
+
+    // Size the overlay to cover the clipped face area
+    const overlayWidth = faceWidth * 1.5;
+    const overlayHeight = faceHeight * 1.6;
+
+    const verticalOffset = faceHeight * 0.05;
+
+    // Draw the overlay image (will only show within the face-shaped clip)
+    ctx.drawImage(
+        overlayImage,
+        centerX - overlayWidth / 2,
+        centerY - overlayHeight / 2 - verticalOffset,
+        overlayWidth,
+        overlayHeight
+    );
+
+    // Restore context to remove clipping
+    ctx.restore();
+}
+
+/**
+ * Clears the canvas and draws a face overlay that follows the actual face contour.
+ */
+export function drawFaceOverlay(
+    canvas: HTMLCanvasElement | null,
+    landmarks: NormalizedLandmarkList,
+    overlayImage: HTMLImageElement | null,
+    opacity: number,
+    blendMode: BlendMode = 'normal'
+) {
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (!overlayImage) return;
+
+    paintFaceOverlay(ctx, canvas.width, canvas.height, landmarks, overlayImage, opacity, blendMode);
+}
+
+/**
+ * Clears a canvas, used whenever an overlay should stop being shown.
+ */
+export function clearCanvas(canvas: HTMLCanvasElement | null) {
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+    }
+}
@@ -0,0 +1,48 @@
+import { getBearerToken } from './socketAuth';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+
+// Used when the backend cannot be reached; enough for peers on open networks
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+];
+
+// Fetch fresh credentials this long before the current ones expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+let cached: { iceServers: RTCIceServer[]; expiresAt: number } | null = null;
+
+/**
+ * ICE servers from the backend, including short-lived TURN credentials.
+ * Results are reused until shortly before the credentials expire.
+ */
+export async function getIceServers(
+  meetingId: string,
+  name: string
+): Promise<RTCIceServer[]> {
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+    return cached.iceServers;
+  }
+
+  try {
+    const bearer = await getBearerToken(meetingId, name);
+
+    const response = await fetch(`${API_URL}/api/ice-config`, {
+      headers: bearer ? { Authorization: `Bearer ${bearer}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error(`ICE config request failed with ${response.status}`);
+    }
+
+    const data = await response.json();
+    cached = {
+      iceServers: data.ice_servers,
+      expiresAt: new Date(data.expires_at).getTime(),
+    };
+    return cached.iceServers;
+  } catch (err) {
+    console.error('Error getting ICE servers, using public STUN:', err);
+    return FALLBACK_ICE_SERVERS;
+  }
+}
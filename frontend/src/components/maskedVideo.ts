@@ -0,0 +1,110 @@
+import type { NormalizedLandmarkList } from '@mediapipe/face_mesh';
+import { paintFaceOverlay, traceFaceOval } from './faceOverlay';
+
+type FrameSource = CanvasImageSource;
+
+export type MaskedFrame = {
+    image: FrameSource;
+    // Every face FaceMesh found, the first being the one wearing the overlay
+    faces: NormalizedLandmarkList[];
+    overlayImage: HTMLImageElement | null;
+    overlayEnabled: boolean;
+};
+
+export type MaskedVideo = {
+    track: MediaStreamTrack;
+    renderFrame: (frame: MaskedFrame) => void;
+    renderBlank: () => void;
+    stop: () => void;
+};
+
+// Size of the downscaled copy used for the full-frame blur. Small enough
+// that no facial features survive when it is stretched back up.
+const BLUR_WIDTH = 16;
+const BLUR_HEIGHT = 12;
+
+// FaceMesh is asked for at most this many faces. A frame with that many may
+// hold more it did not report, so it is blurred whole rather than trusted.
+export const MAX_MASKED_FACES = 4;
+
+/**
+ * Creates the outgoing "masked send" video track. Camera frames are
+ * composited on an offscreen canvas and only the canvas capture stream is
+ * ever handed to the peer connection, so the raw camera image never leaves
+ * the device. Every detected face is pixelated, then the overlay is painted
+ * over the first one, fully opaque whatever the local opacity and blend
+ * settings; faces stay pixelated while the overlay is off. When no face is
+ * detected, or too many to be sure none was missed, the whole frame is
+ * blurred instead, so a lost face never leaks.
+ */
+export function createMaskedVideo(width = 640, height = 480, frameRate = 30): MaskedVideo {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const blurCanvas = document.createElement('canvas');
+    blurCanvas.width = BLUR_WIDTH;
+    blurCanvas.height = BLUR_HEIGHT;
+    const blurCtx = blurCanvas.getContext('2d')!;
+
+    const renderBlank = () => {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+    };
+
+    const renderBlurred = (image: FrameSource) => {
+        blurCtx.drawImage(image, 0, 0, BLUR_WIDTH, BLUR_HEIGHT);
+        ctx.save();
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(blurCanvas, 0, 0, width, height);
+        ctx.restore();
+    };
+
+    // Camera frame with each face region replaced by the same coarse blur
+    const renderPixelatedFaces = (image: FrameSource, faces: NormalizedLandmarkList[]) => {
+        ctx.drawImage(image, 0, 0, width, height);
+        blurCtx.drawImage(image, 0, 0, BLUR_WIDTH, BLUR_HEIGHT);
+
+        for (const landmarks of faces) {
+            ctx.save();
+            traceFaceOval(ctx, width, height, landmarks);
+            ctx.clip();
+            ctx.imageSmoothingEnabled = true;
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(blurCanvas, 0, 0, width, height);
+            ctx.restore();
+        }
+    };
+
+    const renderFrame = ({ image, faces, overlayImage, overlayEnabled }: MaskedFrame) => {
+        // Without a face there is nothing to mask, and at the detection limit
+        // one may have gone unreported, so blur the whole frame
+        const landmarks = faces[0];
+        if (!landmarks || faces.length >= MAX_MASKED_FACES) {
+            renderBlurred(image);
+            return;
+        }
+
+        renderPixelatedFaces(image, faces);
+
+        // Opacity and blend mode only style the local preview; here they
+        // would let the face show through
+        if (overlayEnabled && overlayImage) {
+            paintFaceOverlay(ctx, width, height, landmarks, overlayImage, 1, 'normal');
+        }
+    };
+
+    // Start black so nothing is sent before the first processed frame
+    renderBlank();
+
+    const stream = canvas.captureStream(frameRate);
+    const track = stream.getVideoTracks()[0];
+
+    const stop = () => {
+        stream.getTracks().forEach(t => t.stop());
+    };
+
+    return { track, renderFrame, renderBlank, stop };
+}
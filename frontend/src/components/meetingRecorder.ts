@@ -0,0 +1,228 @@
+import { getBearerToken } from './socketAuth';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+
+// One tile of the recording: a video plus the overlay canvas painted over it
+export type RecordingSource = {
+    stream: MediaStream | null;
+    overlay: HTMLCanvasElement | null;
+};
+
+export type MeetingRecorder = {
+    // Mixes these streams' audio into the recording; call whenever peers change
+    setAudioStreams: (streams: MediaStream[]) => void;
+    stop: () => Promise<Blob>;
+    startedAt: number;
+};
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FRAME_RATE = 30;
+
+// Preferred first; the browser picks the first one it supports
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+// Draws a source scaled to fit the cell, keeping its aspect ratio
+const drawContained = (
+    ctx: CanvasRenderingContext2D,
+    image: HTMLVideoElement | HTMLCanvasElement,
+    width: number,
+    height: number,
+    x: number,
+    y: number,
+    cellWidth: number,
+    cellHeight: number
+) => {
+    if (width === 0 || height === 0) return;
+
+    const scale = Math.min(cellWidth / width, cellHeight / height);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+    ctx.drawImage(
+        image,
+        x + (cellWidth - drawWidth) / 2,
+        y + (cellHeight - drawHeight) / 2,
+        drawWidth,
+        drawHeight
+    );
+};
+
+/**
+ * Records the meeting as a WebM: every source is laid out side by side on
+ * an offscreen canvas, and all audio is mixed through WebAudio. Sources are
+ * read every frame, so participants joining or leaving show up as they go.
+ */
+export function startMeetingRecording(getSources: () => RecordingSource[]): MeetingRecorder {
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+
+    // Hidden players for each stream, since tiles may be unmounted mid-recording
+    const players = new Map<MediaStream, HTMLVideoElement>();
+    const playerFor = (stream: MediaStream) => {
+        let player = players.get(stream);
+        if (!player) {
+            player = document.createElement('video');
+            player.muted = true;
+            player.playsInline = true;
+            player.srcObject = stream;
+            player.play().catch(() => {});
+            players.set(stream, player);
+        }
+        return player;
+    };
+
+    const drawFrame = () => {
+        const sources = getSources();
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+        // Drop players for streams that have gone away
+        const live = new Set(sources.map(s => s.stream));
+        players.forEach((player, stream) => {
+            if (!live.has(stream)) {
+                player.srcObject = null;
+                players.delete(stream);
+            }
+        });
+
+        if (sources.length === 0) return;
+
+        const columns = Math.ceil(Math.sqrt(sources.length));
+        const rows = Math.ceil(sources.length / columns);
+        const cellWidth = WIDTH / columns;
+        const cellHeight = HEIGHT / rows;
+
+        sources.forEach(({ stream, overlay }, i) => {
+            const x = (i % columns) * cellWidth;
+            const y = Math.floor(i / columns) * cellHeight;
+
+            if (stream) {
+                const player = playerFor(stream);
+                drawContained(ctx, player, player.videoWidth, player.videoHeight, x, y, cellWidth, cellHeight);
+            }
+            if (overlay) {
+                drawContained(ctx, overlay, overlay.width, overlay.height, x, y, cellWidth, cellHeight);
+            }
+        });
+    };
+
+    // A timer rather than requestAnimationFrame, which stops in background tabs
+    const drawTimer = setInterval(drawFrame, 1000 / FRAME_RATE);
+
+    const audioContext = new AudioContext();
+    const audioOut = audioContext.createMediaStreamDestination();
+    const audioInputs = new Map<MediaStream, MediaStreamAudioSourceNode>();
+
+    const setAudioStreams = (streams: MediaStream[]) => {
+        const wanted = new Set(streams.filter(s => s.getAudioTracks().length > 0));
+
+        audioInputs.forEach((node, stream) => {
+            if (!wanted.has(stream)) {
+                node.disconnect();
+                audioInputs.delete(stream);
+            }
+        });
+        wanted.forEach(stream => {
+            if (!audioInputs.has(stream)) {
+                const node = audioContext.createMediaStreamSource(stream);
+                node.connect(audioOut);
+                audioInputs.set(stream, node);
+            }
+        });
+    };
+
+    const recorded = new MediaStream([
+        ...canvas.captureStream(FRAME_RATE).getVideoTracks(),
+        ...audioOut.stream.getAudioTracks(),
+    ]);
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+    const recorder = new MediaRecorder(recorded, mimeType ? { mimeType } : {});
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    // Flush every second so a crash loses at most a second of recording
+    recorder.start(1000);
+
+    const stop = () => new Promise<Blob>((resolve) => {
+        const cleanUp = () => {
+            clearInterval(drawTimer);
+            recorded.getTracks().forEach(track => track.stop());
+            players.forEach(player => { player.srcObject = null; });
+            players.clear();
+            audioInputs.forEach(node => node.disconnect());
+            audioInputs.clear();
+            audioContext.close().catch(() => {});
+            resolve(new Blob(chunks, { type: 'video/webm' }));
+        };
+
+        if (recorder.state === 'inactive') {
+            cleanUp();
+            return;
+        }
+        recorder.onstop = cleanUp;
+        recorder.stop();
+    });
+
+    return { setAudioStreams, stop, startedAt: Date.now() };
+}
+
+// Offers the recording as a file download
+export function downloadRecording(recording: Blob, meetingId: string) {
+    const url = URL.createObjectURL(recording);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `meeting-${meetingId}-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.webm`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Uploads the recording to the signed-in user's recordings. Guests cannot
+ * upload; the backend rejects their token.
+ */
+export async function uploadRecording(
+    recording: Blob,
+    meetingId: string,
+    name: string,
+    durationSeconds: number
+): Promise<{ success: boolean; error?: string }> {
+    try {
+        const bearer = await getBearerToken(meetingId, name);
+        if (!bearer) {
+            return { success: false, error: 'Not authenticated' };
+        }
+
+        const formData = new FormData();
+        formData.append('file', recording, 'recording.webm');
+        formData.append('meeting_code', meetingId);
+        formData.append('duration_seconds', String(durationSeconds));
+
+        const response = await fetch(`${API_URL}/api/upload-recording`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${bearer}`,
+            },
+            body: formData,
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+            return {
+                success: false,
+                error: response.status === 401
+                    ? 'Sign in to upload recordings'
+                    : data.error || 'Failed to upload recording',
+            };
+        }
+
+        return { success: true };
+    } catch (err) {
+        console.error('Error uploading recording:', err);
+        return { success: false, error: 'Network error' };
+    }
+}
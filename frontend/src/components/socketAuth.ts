@@ -0,0 +1,54 @@
+import { supabase } from './supabaseAuth';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3000';
+
+export type SocketAuth = { token: string } | { guestToken: string } | Record<string, never>;
+
+/**
+ * Credentials for the Socket.IO handshake. Signed-in users send their
+ * Supabase access token; guests get a token scoped to this one meeting.
+ */
+export async function getSocketAuth(meetingId: string, name: string): Promise<SocketAuth> {
+  try {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (session?.access_token) {
+      return { token: session.access_token };
+    }
+
+    const response = await fetch(`${API_URL}/api/guest-token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        meeting_code: meetingId,
+        display_name: name,
+      }),
+    });
+
+    if (!response.ok) {
+      return {};
+    }
+
+    const data = await response.json();
+    return { guestToken: data.token };
+  } catch (err) {
+    console.error('Error getting socket credentials:', err);
+    return {};
+  }
+}
+
+/**
+ * Bearer token for authenticated REST calls made from inside a meeting,
+ * or null when neither kind of credential is available.
+ */
+export async function getBearerToken(meetingId: string, name: string): Promise<string | null> {
+  const auth = await getSocketAuth(meetingId, name);
+
+  if ('token' in auth) return auth.token;
+  if ('guestToken' in auth) return auth.guestToken;
+  return null;
+}
@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from './supabaseAuth';
-import type { Meeting } from '../types/meetingType';
+import type { Meeting, MeetingSession } from '../types/meetingType';
 import type { Overlay } from '../types/overlayType';
 import type { UserData } from '../types/userDataType';
 
@@ -12,7 +12,8 @@ type AppDataContextType = {
   createMeeting: (
     meetingCode: string,
     meetingTime: string,
-    meetingTitle: string
+    meetingTitle: string,
+    waitingRoom?: boolean
   ) => Promise<{ success: boolean; error?: string; meetingId?: number }>;
   updateMeeting: (
     meetingId: number,
@@ -20,11 +21,15 @@ type AppDataContextType = {
       meeting_title: string;
       meeting_time: string;
       meeting_code?: string;
+      waiting_room?: boolean;
     }
   ) => Promise<{ success: boolean; error?: string }>;
   deleteMeeting: (
     meetingId: number
   ) => Promise<{ success: boolean; error?: string }>;
+  getMeetingSessions: (
+    meetingId: number
+  ) => Promise<{ success: boolean; error?: string; sessions?: MeetingSession[] }>;
   uploadOverlay: (file: File) => Promise<{ success: boolean; error?: string }>;
   deleteOverlay: (
     overlayId: number
@@ -110,7 +115,8 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
   const createMeeting = async (
     meetingCode: string,
     meetingTime: string,
-    meetingTitle: string
+    meetingTitle: string,
+    waitingRoom = false
   ): Promise<{ success: boolean; error?: string; meetingId?: number }> => {
     try {
       const token = await getAuthToken();
@@ -128,6 +134,7 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
           meeting_code: meetingCode,
           meeting_time: meetingTime,
           meeting_title: meetingTitle,
+          waiting_room: waitingRoom,
         }),
       });
 
@@ -157,7 +164,11 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
   // Update meeting - calls API and updates local state
   const updateMeeting = async (
     meetingId: number,
-    meetingData: { meeting_title: string; meeting_time: string }
+    meetingData: {
+      meeting_title: string;
+      meeting_time: string;
+      waiting_room?: boolean;
+    }
   ): Promise<{ success: boolean; error?: string }> => {
     try {
       const token = await getAuthToken();
@@ -235,6 +246,41 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Get meeting sessions - past runs of a meeting with their attendance
+  const getMeetingSessions = async (
+    meetingId: number
+  ): Promise<{ success: boolean; error?: string; sessions?: MeetingSession[] }> => {
+    try {
+      const token = await getAuthToken();
+      if (!token) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      const response = await fetch(
+        `${API_URL}/api/meetings/${meetingId}/sessions`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data.error || 'Failed to load meeting history',
+        };
+      }
+
+      return { success: true, sessions: data.sessions || [] };
+    } catch (err) {
+      console.error('Error getting meeting sessions:', err);
+      return { success: false, error: 'Network error' };
+    }
+  };
+
   // Upload overlay - calls API and updates local state
   const uploadOverlay = async (
     file: File
@@ -415,6 +461,7 @@ export function AppDataProvider({ children }: { children: React.ReactNode }) {
     createMeeting,
     updateMeeting,
     deleteMeeting,
+    getMeetingSessions,
     uploadOverlay,
     deleteOverlay,
     updateUserName,
@@ -454,6 +501,14 @@ export function useAppData() {
         success: false,
         error: 'Not authenticated',
       }),
+      getMeetingSessions: async (): Promise<{
+        success: boolean;
+        error?: string;
+        sessions?: MeetingSession[];
+      }> => ({
+        success: false,
+        error: 'Not authenticated',
+      }),
       uploadOverlay: async () => ({
         success: false,
         error: 'Not authenticated',
@@ -29,6 +29,7 @@ const CreateMeeting: React.FC<CreateMeetingProps> = ({ onCreate, onBack }) => {
   const { createMeeting, userData, meetings, refreshData } = useAppData();
 
   const [title, setTitle] = useState('');
+  const [waitingRoom, setWaitingRoom] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -80,7 +81,12 @@ const CreateMeeting: React.FC<CreateMeetingProps> = ({ onCreate, onBack }) => {
     const meetingCode = generateMeetingCode(date, time, userData.id);
 
     // Call the createMeeting function from useAppData
-    const result = await createMeeting(meetingCode, meetingTimeUtc, title);
+    const result = await createMeeting(
+      meetingCode,
+      meetingTimeUtc,
+      title,
+      waitingRoom
+    );
 
     if (result.success) {
       const meetingId = (result as any).meetingId;
@@ -136,6 +142,18 @@ const CreateMeeting: React.FC<CreateMeetingProps> = ({ onCreate, onBack }) => {
               <DateField value={date} onChange={setDate} />
             </Field>
 
+            <Field label="Waiting Room:">
+              <label className="flex items-center gap-3 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={waitingRoom}
+                  onChange={(e) => setWaitingRoom(e.target.checked)}
+                  className="h-5 w-5 accent-blue-600"
+                />
+                Admit participants manually
+              </label>
+            </Field>
+
             {error && (
               <div className="mt-4 text-red-400 text-sm text-center bg-red-900/20 border border-red-500/30 rounded-lg p-3">
                 {error}
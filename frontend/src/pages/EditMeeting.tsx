@@ -25,6 +25,7 @@ const EditMeeting: React.FC = () => {
   const [title, setTitle] = useState('');
   const [date, setDate] = useState<Date>(new Date());
   const [time, setTime] = useState<string>('10:00 AM');
+  const [waitingRoom, setWaitingRoom] = useState(false);
   const [originalDateTime, setOriginalDateTime] = useState<string>('');
 
   const [loading, setLoading] = useState(true);
@@ -58,6 +59,7 @@ const EditMeeting: React.FC = () => {
       if (found) {
         setMeeting(found);
         setTitle(found.meeting_title);
+        setWaitingRoom(found.waiting_room ?? false);
 
         // Convert stored UTC time to local date & time string
         const localDate = utcToLocal(found.meeting_time);
@@ -107,9 +109,11 @@ const EditMeeting: React.FC = () => {
         meeting_title: string;
         meeting_time: string;
         meeting_code?: string;
+        waiting_room: boolean;
       } = {
         meeting_title: title,
         meeting_time: meetingTimeUtc,
+        waiting_room: waitingRoom,
       };
 
       // Only regenerate meeting code if date or time changed
@@ -191,6 +195,18 @@ const EditMeeting: React.FC = () => {
               <DateField value={date} onChange={setDate} />
             </Field>
 
+            <Field label="Waiting Room:">
+              <label className="flex items-center gap-3 text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={waitingRoom}
+                  onChange={(e) => setWaitingRoom(e.target.checked)}
+                  className="h-5 w-5 accent-blue-600"
+                />
+                Admit participants manually
+              </label>
+            </Field>
+
             {error && (
               <div className="mt-4 text-red-400 text-sm text-center">
                 {error}
@@ -10,11 +10,9 @@ export const Landing = () => {
     const [showJoinInput, setShowJoinInput] = useState(false);
 
     const createMeeting = () => {
-        // Generate meeting ID here
-        const newMeetingId = Math.random().toString(36).substring(2, 15);
-        
-        // Navigate to the meeting page with this ID
-        navigate(`/meet/${newMeetingId}`);
+        // Meetings must be registered to an account before the server accepts
+        // their code, so send people to the menu (login first if signed out)
+        navigate('/menu');
     };
 
     const joinMeeting = () => {
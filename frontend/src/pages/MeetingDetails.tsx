@@ -3,15 +3,18 @@ import PageBackground from '../components/PageBackground';
 import Navbar from '../components/Navbar';
 import { useEffect, useState } from 'react';
 import { useAppData } from '../components/useAppData';
+import type { MeetingSession } from '../types/meetingType';
 
 export default function MeetingDetails() {
   // Match the route parameter name: meetingID (capital ID)
   const { meetingID } = useParams<{ meetingID: string }>();
   const navigate = useNavigate();
-  const { meetings, userData, refreshData } = useAppData();
+  const { meetings, userData, refreshData, getMeetingSessions } = useAppData();
   const [meeting, setMeeting] = useState<any>(null);
   const [copied, setCopied] = useState(false);
   const [hasRefreshed, setHasRefreshed] = useState(false);
+  const [sessions, setSessions] = useState<MeetingSession[] | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
 
   useEffect(() => {
     const findAndSetMeeting = async () => {
@@ -64,6 +67,27 @@ export default function MeetingDetails() {
     findAndSetMeeting();
   }, [meetingID, meetings, userData, hasRefreshed, refreshData]);
 
+  // Load who attended past runs of this meeting
+  const meetingId = meeting?.meetingId;
+  useEffect(() => {
+    if (meetingId === undefined) return;
+
+    let cancelled = false;
+    getMeetingSessions(meetingId).then((result) => {
+      if (cancelled) return;
+
+      if (result.success) {
+        setSessions(result.sessions ?? []);
+      } else {
+        setHistoryError(result.error ?? 'Failed to load meeting history');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId, getMeetingSessions]);
+
   if (!meeting) {
     return (
       <PageBackground>
@@ -128,6 +152,14 @@ export default function MeetingDetails() {
             </div>
           </div>
 
+          {/* Attendance history */}
+          <div className="mx-auto mt-6 max-w-xl rounded-3xl bg-slate-800/80 px-6 py-5">
+            <h2 className="mb-3 text-sm font-medium text-slate-100">
+              History
+            </h2>
+            <MeetingHistory sessions={sessions} error={historyError} />
+          </div>
+
           {/* Buttons */}
           <div className="mt-8 flex justify-center gap-4">
             <button
@@ -157,3 +189,72 @@ function Row({ label, value }: { label: string; value: string }) {
     </div>
   );
 }
+
+// "1h 5m", "12m", or "<1m" for very short stays
+function formatDuration(start: string, end: string | null) {
+  const minutes = Math.floor(
+    ((end ? new Date(end) : new Date()).getTime() - new Date(start).getTime()) /
+      60000
+  );
+
+  if (minutes < 1) return '<1m';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function MeetingHistory({
+  sessions,
+  error,
+}: {
+  sessions: MeetingSession[] | null;
+  error: string | null;
+}) {
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (!sessions) {
+    return <p className="text-sm text-slate-400">Loading history...</p>;
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <p className="text-sm text-slate-400">This meeting has not been held yet</p>
+    );
+  }
+
+  return (
+    <ul className="space-y-4">
+      {sessions.map((session) => (
+        <li key={session.id} className="rounded-2xl bg-slate-900/80 px-4 py-3">
+          <div className="mb-2 flex justify-between text-sm text-slate-100">
+            <span>
+              {new Date(session.started_at).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: 'numeric',
+                minute: '2-digit',
+              })}
+            </span>
+            <span className="text-slate-400">
+              {session.ended_at
+                ? formatDuration(session.started_at, session.ended_at)
+                : 'In progress'}
+            </span>
+          </div>
+          <ul className="space-y-1">
+            {session.attendance.map((record) => (
+              <li
+                key={record.id}
+                className="flex justify-between text-xs text-slate-300"
+              >
+                <span>{record.display_name}</span>
+                <span>{formatDuration(record.joined_at, record.left_at)}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -7,6 +7,7 @@ import { Video, VideoOff, Mic, MicOff, User } from 'lucide-react';
 import { supabase } from '../components/supabaseAuth';
 import { useAppData } from '../components/useAppData';
 import type { Overlay } from '../types/overlayType';
+import { createE2eeSecret, deriveE2eeSession, e2eeFragment, isE2eeSupported, readE2eeSecret, type E2eeSession } from '../components/e2ee';
 
 export const MeetingPage = () => {
     const { meetingId } = useParams<{ meetingId: string }>();
@@ -20,6 +21,11 @@ export const MeetingPage = () => {
     const [isLoading, setIsLoading] = useState(false);
     const [_isAuthenticated, setIsAuthenticated] = useState(false);
     const [userOverlays, setUserOverlays] = useState<Overlay[]>([]);
+    // Links carrying a secret in their fragment always join end-to-end encrypted
+    const [linkSecret] = useState(() => readE2eeSecret());
+    const [e2eeEnabled, setE2eeEnabled] = useState(linkSecret !== null);
+    const [e2ee, setE2ee] = useState<E2eeSession | null>(null);
+    const e2eeSupported = isE2eeSupported();
     
     const videoRef = useRef<HTMLVideoElement>(null);
 
@@ -127,6 +133,19 @@ export const MeetingPage = () => {
                 return;
             }
 
+            if (e2eeEnabled && !e2eeSupported) {
+                alert('Your browser cannot join end-to-end encrypted meetings. Please use a recent version of Chrome, Edge, Firefox or Safari.');
+                setIsLoading(false);
+                return;
+            }
+
+            if (e2eeEnabled) {
+                const secret = linkSecret ?? createE2eeSecret();
+                // The copied meeting link now carries the secret; the server never sees fragments
+                window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${e2eeFragment(secret)}`);
+                setE2ee(await deriveE2eeSession(secret, meetingId!));
+            }
+
             let stream = previewStream;
             
             if (!stream) {
@@ -230,6 +249,7 @@ export const MeetingPage = () => {
                                                 id="name"
                                                 type="text"
                                                 placeholder="Enter your name"
+                                                maxLength={60}
                                                 value={name}
                                                 onChange={(e) => setName(e.target.value)}
                                                 onKeyPress={(e) => {
@@ -242,6 +262,26 @@ export const MeetingPage = () => {
                                             />
                                         </div>
 
+                                        <label className="flex items-start gap-3 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={e2eeEnabled}
+                                                onChange={(e) => setE2eeEnabled(e.target.checked)}
+                                                disabled={isLoading || linkSecret !== null || !e2eeSupported}
+                                                className="mt-1 w-4 h-4 accent-blue-600"
+                                            />
+                                            <span>
+                                                <span className="block text-white text-sm font-medium">End-to-end encrypt this call</span>
+                                                <span className="block text-slate-400 text-xs">
+                                                    {linkSecret !== null
+                                                        ? 'This meeting link is end-to-end encrypted'
+                                                        : !e2eeSupported
+                                                            ? 'Not supported in this browser'
+                                                            : 'Only people with the link you share from the call can see and hear it'}
+                                                </span>
+                                            </span>
+                                        </label>
+
                                         <div className="space-y-3">
                                             <button
                                                 onClick={joinRoom}
@@ -297,6 +337,7 @@ export const MeetingPage = () => {
             localVideoTrack={localVideoTrack!}
             meetingId={meetingId!}
             userOverlays={userOverlays}
+            e2ee={e2ee}
         />
     );
 };
\ No newline at end of file
@@ -7,7 +7,8 @@ import { generateInstantMeetingCode } from '../components/GenerateMeetingCode';
 
 export default function MenuPage() {
   const navigate = useNavigate();
-  const { meetings, deleteMeeting, userData, refreshData } = useAppData();
+  const { meetings, deleteMeeting, userData, refreshData, createMeeting } =
+    useAppData();
 
   // dropdown state for Create Meeting tile
   const [showCreateOptions, setShowCreateOptions] = useState(false);
@@ -16,12 +17,24 @@ export default function MenuPage() {
     refreshData();
   }, []);
 
-  const handleCreateNow = () => {
+  const handleCreateNow = async () => {
     setShowCreateOptions(false);
 
     // Generate instant meeting code using user's UUID
     const meetingCode = generateInstantMeetingCode(userData.id);
 
+    // Register the meeting so the server accepts its code
+    const result = await createMeeting(
+      meetingCode,
+      new Date().toISOString(),
+      'Instant Meeting'
+    );
+
+    if (!result.success) {
+      alert(result.error || 'Failed to create meeting');
+      return;
+    }
+
     // Navigate directly to the meeting page with the generated code
     navigate(`/meet/${meetingCode}`);
   };
@@ -0,0 +1,21 @@
+export type NetworkQuality = 'good' | 'fair' | 'poor';
+
+// Call quality for one peer connection, measured over the last polling interval.
+// Metrics the browser has not reported yet are null.
+export type PeerStats = {
+  rttMs: number | null;
+  packetLossPct: number | null;
+  jitterMs: number | null;
+  inboundKbps: number | null;
+  outboundKbps: number | null;
+  frameRate: number | null;
+  // Whether media goes through a TURN relay or straight to the peer
+  candidateType: 'direct' | 'relay' | null;
+  quality: NetworkQuality;
+};
+
+// Aggregated sample as posted to POST /api/call-stats
+export type CallStatsSample = PeerStats & {
+  peerId: string;
+  sampledAt: string;
+};
@@ -0,0 +1,9 @@
+// Chat message as relayed by the signaling server
+export type ChatMessage = {
+  id: string;
+  meetingId: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  timestamp: string;
+};
@@ -4,4 +4,56 @@ export type Meeting = {
   meeting_title: string;
   meeting_code: string;
   meeting_time: string;
+  // Joiners other than the owner wait until the owner admits them
+  waiting_room: boolean;
+};
+
+// One participant's stay in a meeting session; left_at is null while still in it
+export type AttendanceRecord = {
+  id: number;
+  // Null for guests
+  user_id: string | null;
+  display_name: string;
+  joined_at: string;
+  left_at: string | null;
+};
+
+// One period the meeting's room was in use, from first join until it emptied
+export type MeetingSession = {
+  id: number;
+  started_at: string;
+  ended_at: string | null;
+  attendance: AttendanceRecord[];
+};
+
+// Details the signaling server sends once a join-meeting request is accepted
+export type MeetingInfo = {
+  meetingId: string;
+  title: string;
+  hostName: string;
+  meetingTime: string;
+  // Whether this participant owns the meeting and may moderate it
+  isHost: boolean;
+  locked: boolean;
+  waitingRoom: boolean;
+};
+
+// Joiner held in the waiting room, listed to the host for admission
+export type WaitingParticipant = {
+  socketId: string;
+  name: string;
+};
+
+export type JoinError = {
+  code:
+    | 'MEETING_NOT_FOUND'
+    | 'MEETING_NOT_STARTED'
+    | 'MEETING_ENDED'
+    | 'MEETING_FULL'
+    | 'MEETING_LOCKED'
+    | 'ADMISSION_DENIED'
+    | 'GUEST_NOT_ALLOWED'
+    | 'LOOKUP_FAILED'
+    | 'SERVER_RESTARTING';
+  message: string;
 };
@@ -8,6 +8,21 @@ export type Overlay = {
   url: string;
 };
 
+// Canvas blend modes a participant can draw their overlay with
+export const BLEND_MODES = ['normal', 'multiply', 'screen', 'overlay'] as const;
+export type BlendMode = (typeof BLEND_MODES)[number];
+
+// How a participant's overlay is drawn by everyone else, sent on change
+// through the reliable overlay-config event
+export type OverlayConfig = {
+  overlayId: number;
+  overlayUrl: string;
+  opacity: number;
+  blendMode: BlendMode;
+  // false while the overlay is off or baked into the sender's video
+  enabled: boolean;
+};
+
 // Default overlay that all users (authenticated and guest) can use
 export const DEFAULT_OVERLAY: Overlay = {
   id: -1, // Negative ID to distinguish from user overlays
@@ -0,0 +1,13 @@
+// One admitted participant as listed by the signaling server's roster
+export type RosterEntry = {
+  socketId: string;
+  name: string;
+  role: 'host' | 'participant' | 'guest';
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+  overlayEnabled: boolean;
+  // Dropped off the network; the server is holding their slot
+  reconnecting: boolean;
+  // Recording the meeting in their browser
+  recording: boolean;
+};
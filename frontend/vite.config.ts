@@ -1,7 +1,12 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { fileURLToPath } from 'node:url'
 
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  resolve: {
+    // Socket event contract shared with the backend
+    alias: { '@shared': fileURLToPath(new URL('../shared', import.meta.url)) },
+  },
 })
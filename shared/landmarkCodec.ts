@@ -0,0 +1,176 @@
+// Binary wire format for face overlay frames. The browser encodes and decodes
+// them, and the server checks relayed frames with the same code. The frontend
+// imports it as @shared/landmarkCodec; the backend by relative path, because
+// tsc leaves the @shared alias unresolved in the JavaScript it emits.
+//
+//   u8  version
+//   u8  flags            bit 0 set when a face (and landmarks) is present
+//   u32 seq              per-sender frame counter
+//   f64 capturedAt       sender clock, ms since epoch
+//   u8  pointCount       followed by pointCount x (i16 x, i16 y)
+//
+// All multi-byte fields are little-endian. Overlay image, opacity and blend
+// mode travel separately in the reliable overlay-config event.
+//
+// In end-to-end encrypted meetings the whole frame is sealed before sending:
+//
+//   u8  version          ENCRYPTED_FRAME_VERSION
+//   12  iv               AES-GCM nonce
+//   ..  ciphertext       encrypted frame followed by the 16-byte tag
+//
+// The server can only check that the size fits a frame, not read it.
+
+export const LANDMARK_CODEC_VERSION = 2;
+
+// The face oval the renderer clips to; it also contains the forehead (10),
+// chin (152) and cheek (234, 454) points used to size the overlay
+export const RENDER_LANDMARK_INDICES = [
+  10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288,
+  397, 365, 379, 378, 400, 377, 152, 148, 176, 149, 150, 136,
+  172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109
+];
+
+// Normalized coordinates map to Int16 at this scale, covering [-2, 2)
+const COORDINATE_SCALE = 16384;
+
+const HEADER_BYTES = 14;
+const POINT_BYTES = 4;
+const FLAG_HAS_FACE = 1;
+
+export const ENCRYPTED_FRAME_VERSION = 0xe2;
+export const ENCRYPTED_FRAME_IV_BYTES = 12;
+const ENCRYPTED_FRAME_TAG_BYTES = 16;
+const ENCRYPTED_FRAME_OVERHEAD = 1 + ENCRYPTED_FRAME_IV_BYTES + ENCRYPTED_FRAME_TAG_BYTES;
+
+// Frames delayed this much beyond the best observed delay are dropped
+export const STALE_FRAME_MS = 500;
+
+// Structurally a MediaPipe NormalizedLandmark, without its optional visibility
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface LandmarkFrame {
+  seq: number;
+  capturedAt: number;
+  // Indexed by MediaPipe landmark index; only RENDER_LANDMARK_INDICES are set.
+  // null when the sender has no face or turned the overlay off
+  landmarks: Landmark[] | null;
+}
+
+const clampInt16 = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value)));
+
+/**
+ * Packs one overlay frame into its binary form.
+ */
+export function encodeLandmarkFrame(frame: LandmarkFrame): ArrayBuffer {
+  const landmarks = frame.landmarks;
+  const pointCount = landmarks ? RENDER_LANDMARK_INDICES.length : 0;
+
+  const buffer = new ArrayBuffer(HEADER_BYTES + 1 + pointCount * POINT_BYTES);
+  const view = new DataView(buffer);
+
+  view.setUint8(0, LANDMARK_CODEC_VERSION);
+  view.setUint8(1, landmarks ? FLAG_HAS_FACE : 0);
+  view.setUint32(2, frame.seq >>> 0, true);
+  view.setFloat64(6, frame.capturedAt, true);
+
+  let offset = HEADER_BYTES;
+  view.setUint8(offset++, pointCount);
+
+  if (landmarks) {
+    for (const index of RENDER_LANDMARK_INDICES) {
+      const point = landmarks[index];
+      view.setInt16(offset, clampInt16((point?.x ?? 0) * COORDINATE_SCALE), true);
+      view.setInt16(offset + 2, clampInt16((point?.y ?? 0) * COORDINATE_SCALE), true);
+      offset += POINT_BYTES;
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Unpacks a binary overlay frame, returning null if it is malformed.
+ */
+export function decodeLandmarkFrame(data: ArrayBuffer | ArrayBufferView): LandmarkFrame | null {
+  const view = ArrayBuffer.isView(data)
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : data instanceof ArrayBuffer ? new DataView(data) : null;
+
+  if (!view || view.byteLength < HEADER_BYTES + 1 || view.getUint8(0) !== LANDMARK_CODEC_VERSION) {
+    return null;
+  }
+
+  const hasFace = (view.getUint8(1) & FLAG_HAS_FACE) !== 0;
+  const pointCount = view.getUint8(HEADER_BYTES);
+  const expectedCount = hasFace ? RENDER_LANDMARK_INDICES.length : 0;
+  if (pointCount !== expectedCount || view.byteLength !== HEADER_BYTES + 1 + pointCount * POINT_BYTES) {
+    return null;
+  }
+
+  const frame: LandmarkFrame = {
+    seq: view.getUint32(2, true),
+    capturedAt: view.getFloat64(6, true),
+    landmarks: null,
+  };
+
+  if (!hasFace) {
+    return frame;
+  }
+
+  const landmarks: Landmark[] = [];
+  let offset = HEADER_BYTES + 1;
+  for (const index of RENDER_LANDMARK_INDICES) {
+    landmarks[index] = {
+      x: view.getInt16(offset, true) / COORDINATE_SCALE,
+      y: view.getInt16(offset + 2, true) / COORDINATE_SCALE,
+      z: 0,
+    };
+    offset += POINT_BYTES;
+  }
+
+  frame.landmarks = landmarks;
+  return frame;
+}
+
+/**
+ * Checks that data is shaped like a sealed frame: the right version byte and
+ * a size that fits either an empty or a full frame once decrypted.
+ */
+export function isEncryptedLandmarkFrame(data: ArrayBuffer | ArrayBufferView): boolean {
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : data instanceof ArrayBuffer ? new Uint8Array(data) : null;
+
+  if (!bytes || bytes[0] !== ENCRYPTED_FRAME_VERSION) {
+    return false;
+  }
+
+  const plainBytes = bytes.byteLength - ENCRYPTED_FRAME_OVERHEAD;
+  return plainBytes === HEADER_BYTES + 1 ||
+    plainBytes === HEADER_BYTES + 1 + RENDER_LANDMARK_INDICES.length * POINT_BYTES;
+}
+
+/**
+ * Creates a per-sender filter that rejects out-of-order frames and frames
+ * that arrived too late to be worth drawing. Sender and receiver clocks
+ * differ, so lateness is measured against the smallest delay seen so far.
+ */
+export function createFrameFilter(maxAgeMs: number = STALE_FRAME_MS) {
+  let lastSeq = -1;
+  let bestDelay = Infinity;
+
+  return (frame: LandmarkFrame, receivedAt: number): boolean => {
+    if (frame.seq <= lastSeq) {
+      return false;
+    }
+    lastSeq = frame.seq;
+
+    const delay = receivedAt - frame.capturedAt;
+    bestDelay = Math.min(bestDelay, delay);
+    return delay - bestDelay <= maxAgeMs;
+  };
+}
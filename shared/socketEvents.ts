@@ -0,0 +1,162 @@
+// Socket.IO event contract between the signaling server and the browser.
+// The server is a Server<ClientToServerEvents, ServerToClientEvents> and the
+// client a Socket<ServerToClientEvents, ClientToServerEvents>, both typed from
+// this file (imported as @shared/socketEvents). It holds types only, so it
+// adds nothing to either bundle, and it imports nothing from either side:
+// their own domain types are checked against these wherever they are sent
+// or received. The server validates every inbound payload at runtime in
+// backend/src/managers/eventValidation.ts.
+
+// Encoded landmark frame (see landmarkCodec.ts): a Buffer on
+// the server, an ArrayBuffer once it reaches the browser
+export type BinaryFrame = ArrayBuffer | Uint8Array;
+
+// ICE candidate in the shape of RTCIceCandidateInit
+export interface IceCandidate {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+// What the server tells a participant about the meeting they joined
+export interface MeetingInfo {
+  meetingId: string;
+  title: string;
+  hostName: string;
+  meetingTime: string;
+  // Whether this participant owns the meeting and may moderate it
+  isHost: boolean;
+  locked: boolean;
+  waitingRoom: boolean;
+}
+
+export interface JoinError {
+  code:
+    | 'MEETING_NOT_FOUND'
+    | 'MEETING_NOT_STARTED'
+    | 'MEETING_ENDED'
+    | 'MEETING_FULL'
+    | 'MEETING_LOCKED'
+    | 'ADMISSION_DENIED'
+    | 'GUEST_NOT_ALLOWED'
+    | 'LOOKUP_FAILED'
+    | 'SERVER_RESTARTING';
+  message: string;
+}
+
+// Joiner held in the waiting room, listed to the host for admission
+export interface WaitingParticipant {
+  socketId: string;
+  name: string;
+}
+
+export interface MediaState {
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+  overlayEnabled: boolean;
+}
+
+// One admitted participant as listed in the roster
+export interface RosterEntry extends MediaState {
+  socketId: string;
+  name: string;
+  role: 'host' | 'participant' | 'guest';
+  // Dropped off the network; the server is holding their slot
+  reconnecting: boolean;
+  // Recording the meeting in their browser
+  recording: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  meetingId: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  timestamp: string;
+}
+
+// How a participant's overlay is drawn by everyone else
+export interface OverlayConfig {
+  overlayId: number;
+  overlayUrl: string;
+  opacity: number;
+  blendMode: 'normal' | 'multiply' | 'screen' | 'overlay';
+  // false while the overlay is off or baked into the sender's video
+  enabled: boolean;
+}
+
+// Sent back when an inbound message is dropped, malformed or its handler fails
+export interface SocketErrorMessage {
+  event: string;
+  message: string;
+}
+
+export interface ClientToServerEvents {
+  'join-meeting': (payload: { meetingId: string; name: string; reconnectToken?: string | null }) => void;
+
+  // WebRTC signaling, addressed to a single peer by socket id
+  offer: (payload: { roomId: string; sdp: string; targetId: string }) => void;
+  answer: (payload: { roomId: string; sdp: string; targetId: string }) => void;
+  'ice-candidate': (payload: { roomId: string; candidate: IceCandidate; targetId: string }) => void;
+
+  // Landmark relay for peers whose data channel has not opened, listed in targetIds
+  'overlay-data': (payload: { meetingId: string; frame: BinaryFrame; targetIds?: string[] }) => void;
+  'overlay-config': (payload: { meetingId: string } & OverlayConfig) => void;
+  'media-state': (payload: { meetingId: string } & MediaState) => void;
+  'recording-state': (payload: { meetingId: string; recording: boolean }) => void;
+  'chat-message': (payload: { meetingId: string; text: string }) => void;
+
+  // Host moderation, ignored unless sent by the meeting owner
+  'remove-participant': (payload: { meetingId: string; targetId: string }) => void;
+  'lock-meeting': (payload: { meetingId: string; locked: boolean }) => void;
+  'request-mute': (payload: { meetingId: string; targetId: string }) => void;
+  'end-meeting': (payload: { meetingId: string }) => void;
+  'admit-participant': (payload: { meetingId: string; targetId: string }) => void;
+  'deny-participant': (payload: { meetingId: string; targetId: string }) => void;
+}
+
+export interface ServerToClientEvents {
+  // Joining and leaving
+  'meeting-info': (payload: MeetingInfo) => void;
+  'join-error': (payload: JoinError) => void;
+  // Alone in the meeting; resumed sessions also name the meeting
+  waiting: (payload?: { meetingId: string }) => void;
+  'partner-connected': (payload: { meetingId: string }) => void;
+  'user-disconnected': (payload: { socketId: string }) => void;
+  roster: (payload: { meetingId: string; participants: RosterEntry[] }) => void;
+
+  // Reconnecting and restarts
+  'reconnect-token': (payload: { meetingId: string; token: string }) => void;
+  'session-resumed': (payload: { meetingId: string; previousId: string }) => void;
+  'participant-reconnecting': (payload: { socketId: string }) => void;
+  'peer-reconnected': (payload: { previousId: string; socketId: string }) => void;
+  'server-restarting': (payload: { retryAfterMs: number }) => void;
+
+  // WebRTC signaling
+  'send-offer': (payload: { roomId: string; targetId: string }) => void;
+  offer: (payload: { sdp: string; roomId: string; senderId: string }) => void;
+  answer: (payload: { sdp: string; roomId: string; senderId: string }) => void;
+  'add-ice-candidate': (payload: { candidate: IceCandidate; senderId: string }) => void;
+
+  // Overlays and chat
+  'overlay-data': (payload: { socketId: string; frame: BinaryFrame }) => void;
+  'overlay-config': (payload: { socketId: string } & OverlayConfig) => void;
+  'chat-message': (payload: ChatMessage) => void;
+  'chat-history': (payload: { meetingId: string; messages: ChatMessage[] }) => void;
+
+  // Waiting room and host moderation
+  'waiting-room': (payload: { meetingId: string }) => void;
+  'waiting-room-updated': (payload: { meetingId: string; waiting: WaitingParticipant[] }) => void;
+  'removed-from-meeting': (payload: { meetingId: string }) => void;
+  'meeting-ended': (payload: { meetingId: string }) => void;
+  'meeting-lock-changed': (payload: { meetingId: string; locked: boolean }) => void;
+  'mute-requested': (payload: { meetingId: string }) => void;
+
+  error: (payload: SocketErrorMessage) => void;
+}
+
+export type ClientEventName = keyof ClientToServerEvents;
+export type ClientPayload<E extends ClientEventName> = Parameters<ClientToServerEvents[E]>[0];
+export type ServerEventName = keyof ServerToClientEvents;